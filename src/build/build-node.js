@@ -10,7 +10,7 @@ let { bindings = './src/bindings/compiled/node_bindings/' } = minimist(
 
 export { buildNode };
 
-const entry = './src/index.ts';
+const entries = ['./src/index.ts', './src/verifier.ts'];
 const target = 'es2021';
 
 let nodePath = path.resolve(process.argv[1]);
@@ -18,32 +18,34 @@ let modulePath = path.resolve(fileURLToPath(import.meta.url));
 let isMain = nodePath === modulePath;
 
 if (isMain) {
-  console.log('building cjs version of', entry);
+  console.log('building cjs version of', entries.join(', '));
   console.log('using bindings from', bindings);
   await buildNode({ production: process.env.NODE_ENV === 'production' });
   console.log('finished build');
 }
 
 async function buildNode({ production }) {
-  // bundle the index.js file with esbuild and create a new index.cjs file which conforms to CJS
-  let jsEntry = path.resolve(
-    'dist/node',
-    path.basename(entry).replace('.ts', '.js')
-  );
-  let outfile = jsEntry.replace('.js', '.cjs');
-  await esbuild.build({
-    entryPoints: [jsEntry],
-    bundle: true,
-    format: 'cjs',
-    platform: 'node',
-    outfile,
-    target,
-    resolveExtensions: ['.node.js', '.ts', '.js'],
-    allowOverwrite: true,
-    plugins: [makeNodeModulesExternal(), makeJsooExternal()],
-    dropLabels: ['ESM'],
-    minify: false,
-  });
+  // bundle each entry file with esbuild and create a new .cjs file which conforms to CJS
+  for (let entry of entries) {
+    let jsEntry = path.resolve(
+      'dist/node',
+      path.basename(entry).replace('.ts', '.js')
+    );
+    let outfile = jsEntry.replace('.js', '.cjs');
+    await esbuild.build({
+      entryPoints: [jsEntry],
+      bundle: true,
+      format: 'cjs',
+      platform: 'node',
+      outfile,
+      target,
+      resolveExtensions: ['.node.js', '.ts', '.js'],
+      allowOverwrite: true,
+      plugins: [makeNodeModulesExternal(), makeJsooExternal()],
+      dropLabels: ['ESM'],
+      minify: false,
+    });
+  }
 }
 
 function makeNodeModulesExternal() {
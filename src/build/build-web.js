@@ -8,7 +8,7 @@ import glob from 'glob';
 
 export { buildWeb };
 
-const entry = './src/index.ts';
+const entries = ['./src/index.ts', './src/verifier.ts'];
 const target = 'es2022';
 
 let nodePath = path.resolve(process.argv[1]);
@@ -16,7 +16,7 @@ let modulePath = path.resolve(fileURLToPath(import.meta.url));
 let isMain = nodePath === modulePath;
 
 if (isMain) {
-  console.log('building', entry);
+  console.log('building', entries.join(', '));
   await buildWeb({ production: process.env.NODE_ENV === 'production' });
   console.log('finished build');
 }
@@ -79,22 +79,24 @@ async function buildWeb({ production }) {
     )
   );
 
-  // run esbuild on the js entrypoint
-  let jsEntry = path.basename(entry).replace('.ts', '.js');
-  await esbuild.build({
-    entryPoints: [`./dist/web/${jsEntry}`],
-    bundle: true,
-    format: 'esm',
-    outfile: 'dist/web/index.js',
-    resolveExtensions: ['.js', '.ts'],
-    plugins: [wasmPlugin(), srcStringPlugin()],
-    dropLabels: ['CJS'],
-    external: ['*.bc.js'],
-    target,
-    allowOverwrite: true,
-    logLevel: 'error',
-    minify,
-  });
+  // run esbuild on the js entrypoints
+  for (let entry of entries) {
+    let jsEntry = path.basename(entry).replace('.ts', '.js');
+    await esbuild.build({
+      entryPoints: [`./dist/web/${jsEntry}`],
+      bundle: true,
+      format: 'esm',
+      outfile: `dist/web/${jsEntry}`,
+      resolveExtensions: ['.js', '.ts'],
+      plugins: [wasmPlugin(), srcStringPlugin()],
+      dropLabels: ['CJS'],
+      external: ['*.bc.js'],
+      target,
+      allowOverwrite: true,
+      logLevel: 'error',
+      minify,
+    });
+  }
 }
 
 async function copy(copyMap) {
@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import minimist from 'minimist';
+import { CacheDirectory } from 'o1js';
+import { buildAndImport } from './build-example.js';
+
+let {
+  _: [command, modulePath],
+  dir,
+  out,
+  'dry-run': dryRun,
+} = minimist(process.argv.slice(2), { boolean: ['dry-run'] });
+
+const usage = `Usage:
+npx o1js-cache list [--dir <cache directory>]
+npx o1js-cache prune <module> [--dir <cache directory>] [--dry-run]
+npx o1js-cache prebake <module> --out <directory>
+
+<module> is a JS or TS file which exports the ZkPrograms and SmartContracts that are in use.
+By default, the cache directory of Cache.FileSystemDefault is used.`;
+
+let directory = dir ?? CacheDirectory.default();
+
+switch (command) {
+  case 'list': {
+    let entries = await CacheDirectory.list(directory);
+    printEntries(entries);
+    break;
+  }
+  case 'prune': {
+    let programs = await importPrograms(modulePath);
+    let removed = await CacheDirectory.prune(programs, { directory, dryRun });
+    console.log(
+      `${dryRun ? 'would remove' : 'removed'} ${
+        removed.length
+      } entries (${formatSize(sum(removed.map((e) => e.size)))})`
+    );
+    printEntries(removed);
+    break;
+  }
+  case 'prebake': {
+    if (out === undefined) exit(usage);
+    let programs = await importPrograms(modulePath);
+    let manifest = await CacheDirectory.prebake(programs, out);
+    console.log(
+      `wrote ${Object.keys(manifest.entries).length} entries to ${out}`
+    );
+    break;
+  }
+  default:
+    exit(usage);
+}
+
+function exit(message) {
+  console.log(message);
+  process.exit(1);
+}
+
+/**
+ * Imports a module and collects all exports which can be compiled, i.e. ZkPrograms and SmartContract classes.
+ */
+async function importPrograms(modulePath) {
+  if (modulePath === undefined) exit(usage);
+  let module = modulePath.endsWith('.ts')
+    ? await buildAndImport(modulePath, { keepFile: false })
+    : await import(pathToFileURL(path.resolve(modulePath)).href);
+  let programs = Object.values(module).filter(
+    (value) =>
+      (typeof value === 'object' || typeof value === 'function') &&
+      value !== null &&
+      typeof value.compile === 'function' &&
+      typeof value.name === 'string'
+  );
+  if (programs.length === 0) exit(`no programs exported by ${modulePath}`);
+  return programs;
+}
+
+function printEntries(entries) {
+  // group by program and method
+  let groups = new Map();
+  for (let entry of entries) {
+    let group = entry.programName
+      ? `${entry.programName}${entry.methodName ? `.${entry.methodName}` : ''}`
+      : '(other)';
+    if (!groups.has(group)) groups.set(group, []);
+    groups.get(group).push(entry);
+  }
+  for (let [group, entries] of [...groups].sort()) {
+    console.log(group);
+    for (let entry of entries) {
+      console.log(
+        `  ${entry.kind.padEnd(8)} ${formatSize(entry.size).padStart(
+          9
+        )}  last used ${entry.lastUsed.toISOString()}  ${entry.persistentId}`
+      );
+    }
+  }
+  console.log(`total ${formatSize(sum(entries.map((e) => e.size)))}`);
+}
+
+function sum(numbers) {
+  return numbers.reduce((a, b) => a + b, 0);
+}
+
+function formatSize(bytes) {
+  if (bytes < 1e3) return `${bytes} B`;
+  if (bytes < 1e6) return `${(bytes / 1e3).toFixed(1)} kB`;
+  if (bytes < 1e9) return `${(bytes / 1e6).toFixed(1)} MB`;
+  return `${(bytes / 1e9).toFixed(1)} GB`;
+}
@@ -15,6 +15,16 @@ export {
   createEcdsa,
   EcdsaSignature,
 } from './lib/provable/crypto/foreign-ecdsa.js';
+export {
+  createForeignTwistedCurve,
+  ForeignTwistedCurve,
+} from './lib/provable/crypto/foreign-twisted-curve.js';
+export {
+  createEddsa,
+  EddsaSignature,
+  Ed25519,
+} from './lib/provable/crypto/foreign-eddsa.js';
+export { Bip340Signature } from './lib/provable/crypto/bip340.js';
 export {
   Poseidon,
   TokenSymbol,
@@ -68,13 +78,16 @@ export {
   type IncludedTransaction,
   type RejectedTransaction,
   type PendingTransactionPromise,
+  type TransactionSimulation,
+  type AccountUpdateDiff,
+  type FeeEstimate,
 } from './lib/mina/transaction.js';
 export type { DeployArgs } from './lib/mina/zkapp.js';
 export { SmartContract, method, declareMethods } from './lib/mina/zkapp.js';
 export { Reducer } from './lib/mina/actions/reducer.js';
 export { state, State, declareState } from './lib/mina/state.js';
 
-export type { JsonProof } from './lib/proof-system/zkprogram.js';
+export type { JsonProof, ProofEnvelope } from './lib/proof-system/zkprogram.js';
 export {
   type ProofBase,
   Proof,
@@ -87,7 +100,23 @@ export {
   VerificationKey,
   FeatureFlags,
 } from './lib/proof-system/zkprogram.js';
-export { Cache, CacheHeader } from './lib/proof-system/cache.js';
+export { Cache, CacheHeader, CacheManifest } from './lib/proof-system/cache.js';
+export { ProveRecording } from './lib/proof-system/prove-recording.js';
+export { VerificationKeyRegistry } from './lib/proof-system/verification-key-registry.js';
+export {
+  CacheDirectory,
+  type CacheEntryInfo,
+} from './lib/proof-system/cache-directory.js';
+export {
+  CircuitSnapshot,
+  type CircuitDiff,
+} from './lib/proof-system/circuit-snapshot.js';
+export {
+  ConstraintProfiler,
+  type ConstraintProfile,
+  type ProfileNode,
+  type Hotspot,
+} from './lib/proof-system/constraint-profiler.js';
 
 export { Account } from './lib/mina/account.js';
 export {
@@ -100,6 +129,13 @@ export {
   AccountUpdateTree,
 } from './lib/mina/account-update.js';
 
+export {
+  renderTransaction,
+  renderAccountUpdates,
+  type RenderOptions,
+  type RenderFormat,
+} from './lib/mina/transaction-explorer.js';
+
 export { TokenAccountUpdateIterator } from './lib/mina/token/forest-iterator.js';
 export { TokenContract } from './lib/mina/token/token-contract.js';
 
@@ -132,15 +168,24 @@ export { Crypto } from './lib/provable/crypto/crypto.js';
 export type { NetworkId } from './mina-signer/mina-signer.js';
 
 export { setNumberOfWorkers } from './lib/proof-system/workers.js';
+export {
+  ProverQueue,
+  type ProverJob,
+  type ProverJobEvent,
+} from './lib/proof-system/prover-queue.js';
+export { ProverWorker } from './lib/proof-system/prover-worker.js';
 
 // experimental APIs
 import { memoizeWitness } from './lib/provable/provable.js';
 import * as OffchainState_ from './lib/mina/actions/offchain-state.js';
+import * as OffchainStateSettlement_ from './lib/mina/actions/offchain-state-settlement.js';
+import { AggregationProgram } from './lib/proof-system/aggregation.js';
 export { Experimental };
 
 const Experimental_ = {
   memoizeWitness,
   IndexedMerkleMap,
+  AggregationProgram,
 };
 
 /**
@@ -154,8 +199,13 @@ namespace Experimental {
   export let IndexedMerkleMap = Experimental_.IndexedMerkleMap;
   export type IndexedMerkleMap = IndexedMerkleMapBase;
 
+  // recursive proof aggregation
+  export let AggregationProgram = Experimental_.AggregationProgram;
+
   // offchain state
   export let OffchainState = OffchainState_.OffchainState;
+  export let SettlementService = OffchainStateSettlement_.SettlementService;
+  export type SettlementEvent = OffchainStateSettlement_.SettlementEvent;
 
   /**
    * Commitments that keep track of the current state of an offchain Merkle tree constructed from actions.
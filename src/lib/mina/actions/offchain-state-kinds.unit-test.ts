@@ -0,0 +1,132 @@
+import {
+  SmartContract,
+  method,
+  Mina,
+  state,
+  PublicKey,
+  UInt64,
+  Field,
+  Experimental,
+} from '../../../index.js';
+import assert from 'assert';
+
+const { OffchainState } = Experimental;
+
+const offchainState = OffchainState(
+  {
+    visits: OffchainState.Counter(),
+    messages: OffchainState.List(Field),
+    allowances: OffchainState.NestedMap(PublicKey, PublicKey, UInt64),
+  },
+  { logTotalCapacity: 10 }
+);
+
+class StateProof extends offchainState.Proof {}
+
+class ExampleContract extends SmartContract {
+  @state(OffchainState.Commitments) offchainState = offchainState.commitments();
+
+  @method
+  async visit() {
+    offchainState.fields.visits.increment(1);
+  }
+
+  @method
+  async leave() {
+    offchainState.fields.visits.decrement(1);
+  }
+
+  @method
+  async post(message: Field) {
+    await offchainState.fields.messages.push(message);
+  }
+
+  @method
+  async setAllowance(owner: PublicKey, spender: PublicKey, amount: UInt64) {
+    offchainState.fields.allowances.overwrite(owner, spender, amount);
+  }
+
+  @method.returns(Field)
+  async getVisits() {
+    return await offchainState.fields.visits.get();
+  }
+
+  @method.returns(Field)
+  async getMessageCount() {
+    return await offchainState.fields.messages.length();
+  }
+
+  @method.returns(Field)
+  async getMessage(index: Field) {
+    return (await offchainState.fields.messages.get(index)).orElse(0n);
+  }
+
+  @method.returns(UInt64)
+  async getAllowance(owner: PublicKey, spender: PublicKey) {
+    return (await offchainState.fields.allowances.get(owner, spender)).orElse(
+      0n
+    );
+  }
+
+  @method
+  async settle(proof: StateProof) {
+    await offchainState.settle(proof);
+  }
+}
+
+// setup
+
+const Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+
+let [sender, alice, bob, contractAccount] = Local.testAccounts;
+let contract = new ExampleContract(contractAccount);
+offchainState.setContractInstance(contract);
+
+await Mina.transaction(sender, () => contract.deploy())
+  .sign([sender.key, contractAccount.key])
+  .send();
+
+async function call(method: () => Promise<void>) {
+  await Mina.transaction(sender, method).sign([sender.key]).prove().send();
+}
+async function settle() {
+  let proof = await offchainState.createSettlementProof();
+  await call(() => contract.settle(proof));
+}
+
+// concurrent increments are all applied, concurrent pushes conflict
+
+await call(() => contract.visit());
+await call(() => contract.visit());
+await call(() => contract.leave());
+await call(() => contract.visit());
+await call(() => contract.post(Field(10)));
+await call(() => contract.post(Field(20)));
+await call(() => contract.setAllowance(alice, bob, UInt64.from(5)));
+await call(() => contract.setAllowance(bob, alice, UInt64.from(7)));
+await settle();
+
+assert.deepStrictEqual(await contract.getVisits(), Field(2));
+assert.deepStrictEqual(await contract.getMessageCount(), Field(1));
+assert.deepStrictEqual(await contract.getMessage(Field(0)), Field(10));
+assert.deepStrictEqual(await contract.getMessage(Field(1)), Field(0));
+
+// the keys of both levels of a nested map are distinguished
+
+assert.deepStrictEqual(await contract.getAllowance(alice, bob), UInt64.from(5));
+assert.deepStrictEqual(await contract.getAllowance(bob, alice), UInt64.from(7));
+assert.deepStrictEqual(
+  await contract.getAllowance(alice, alice),
+  UInt64.from(0)
+);
+
+// after settling, the list can be pushed to again
+
+await call(() => contract.post(Field(20)));
+await call(() => contract.visit());
+await settle();
+
+assert.deepStrictEqual(await contract.getVisits(), Field(3));
+assert.deepStrictEqual(await contract.getMessageCount(), Field(2));
+assert.deepStrictEqual(await contract.getMessage(Field(1)), Field(20));
@@ -62,9 +62,11 @@ function merkleUpdateBatch(
   {
     maxActionsPerProof,
     maxActionsPerUpdate,
+    hasCounters,
   }: {
     maxActionsPerProof: number;
     maxActionsPerUpdate: number;
+    hasCounters: boolean;
   },
   stateA: OffchainStateCommitments,
   actions: ActionIterator,
@@ -112,6 +114,14 @@ function merkleUpdateBatch(
     key = Provable.if(isDummy, Field(0n), key);
     value = Provable.if(isDummy, Field(0n), value);
 
+    // increments add to the current value, instead of replacing it.
+    // they can only be dispatched by counters, so without counters we don't pay for reading the current value
+    if (hasCounters) {
+      let isIncrement = MerkleLeaf.isIncrement(action).and(isDummy.not());
+      let currentValue = intermediateTree.getOption(key).orElse(0n);
+      value = Provable.if(isIncrement, currentValue.add(value), value);
+    }
+
     // set (key, value) in the intermediate tree
     // note: this just works if (key, value) is a (0,0) dummy, because the value at the 0 key will always be 0
     let actualPreviousValue = intermediateTree.set(key, value);
@@ -139,6 +149,10 @@ function merkleUpdateBatch(
  * This program represents a proof that we can go from OffchainStateCommitments A -> B
  */
 function OffchainStateRollup({
+  /**
+   * Whether the offchain state has counters, whose increments add to the current value of their key.
+   */
+  hasCounters = false,
   /**
    * the constraints used in one batch proof with a height-31 tree are:
    *
@@ -150,10 +164,19 @@ function OffchainStateRollup({
    * that the main loop which is independent of U dominates.
    *
    * Targeting ~50k constraints, to leave room for recursive verification, yields A=22.
+   *
+   * With counters, every action also reads the current value of its key. Reading a key costs less than
+   * setting it, which dominates the main loop, so the main loop costs less than 2*1967 per action.
+   * Targeting the same ~50k constraints yields A=11.
    */
-  maxActionsPerProof = 22,
+  maxActionsPerProof = hasCounters ? 11 : 22,
   maxActionsPerUpdate = 4,
   logTotalCapacity = 30,
+}: {
+  hasCounters?: boolean;
+  maxActionsPerProof?: number;
+  maxActionsPerUpdate?: number;
+  logTotalCapacity?: number;
 } = {}) {
   class IndexedMerkleMapN extends IndexedMerkleMap(logTotalCapacity + 1) {}
 
@@ -175,7 +198,7 @@ function OffchainStateRollup({
           tree: IndexedMerkleMapN
         ): Promise<OffchainStateCommitments> {
           return merkleUpdateBatch(
-            { maxActionsPerProof, maxActionsPerUpdate },
+            { maxActionsPerProof, maxActionsPerUpdate, hasCounters },
             stateA,
             actions,
             tree
@@ -215,7 +238,7 @@ function OffchainStateRollup({
           let stateB = recursiveProof.publicOutput;
 
           return merkleUpdateBatch(
-            { maxActionsPerProof, maxActionsPerUpdate },
+            { maxActionsPerProof, maxActionsPerUpdate, hasCounters },
             stateB,
             actions,
             tree
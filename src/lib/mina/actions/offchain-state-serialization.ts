@@ -33,18 +33,24 @@ import {
 export {
   toKeyHash,
   toAction,
+  toIncrementAction,
   fromActionWithoutHashes,
   MerkleLeaf,
   LinearizedAction,
   LinearizedActionList,
   ActionList,
   fetchMerkleLeaves,
+  fetchContractActions,
   fetchMerkleMap,
+  toMerkleLeaves,
   updateMerkleMap,
+  applyActions,
   Actionable,
+  FetchedActions,
 };
 
 type Action = [...Field[], Field, Field];
+type FetchedActions = { hash: string; actions: string[][] }[];
 type Actionable<T, V = any> = ProvableHashable<T, V> & ProvablePure<T, V>;
 
 function toKeyHash<K, KeyType extends Actionable<K> | undefined>(
@@ -96,6 +102,16 @@ function toAction<K, V, KeyType extends Actionable<K> | undefined>({
   ];
 }
 
+/**
+ * An action which adds `delta` to the value stored at `keyHash`, instead of replacing it.
+ *
+ * The Merkle map stores the value itself rather than its hash, and increments never conflict with each other.
+ */
+function toIncrementAction(keyHash: Field, delta: Field): Action {
+  // increments don't use a previous value, and are marked by a previous value that other actions never have
+  return [delta, Field(0), Field(0), MerkleLeaf.INCREMENT, keyHash, delta];
+}
+
 function fromActionWithoutHashes<V>(
   valueType: Actionable<V>,
   action: Field[]
@@ -171,6 +187,19 @@ class MerkleLeaf extends Struct({
       action.value,
     ])[0];
   }
+
+  /**
+   * The previous value that marks an increment, which adds `value` to the existing value instead of replacing it.
+   *
+   * Other actions that don't use a previous value have a previous value of 0.
+   */
+  static INCREMENT = Field(1);
+
+  static isIncrement({ usesPreviousValue, previousValue }: MerkleLeaf) {
+    return usesPreviousValue
+      .not()
+      .and(previousValue.equals(MerkleLeaf.INCREMENT));
+  }
 }
 
 function pushAction(actionsHash: Field, action: MerkleLeaf) {
@@ -229,24 +258,44 @@ async function fetchMerkleLeaves(
     endActionState?: Field;
   }
 ): Promise<MerkleList<MerkleList<MerkleLeaf>>> {
-  class MerkleActions extends MerkleList.create(
-    ActionList.provable,
-    (hash: Field, actions: ActionList) =>
-      Actions.updateSequenceState(hash, actions.hash),
-    // if no "start" action hash was specified, this means we are fetching the entire history of actions, which started from the empty action state hash
-    // otherwise we are only fetching a part of the history, which starts at `fromActionState`
-    config?.fromActionState ?? Actions.emptyActionState()
-  ) {}
+  let result = await fetchContractActions(contract, config);
+  return toMerkleLeaves(result, config?.fromActionState);
+}
 
+async function fetchContractActions(
+  contract: { address: PublicKey; tokenId: Field },
+  config?: {
+    fromActionState?: Field;
+    endActionState?: Field;
+  }
+): Promise<FetchedActions> {
   let result = await Mina.fetchActions(
     contract.address,
     config,
     contract.tokenId
   );
   if ('error' in result) throw Error(JSON.stringify(result));
+  return result;
+}
+
+/**
+ * Convert fetched actions, which start at `fromActionState`, into a list of Merkle leaves.
+ */
+function toMerkleLeaves(
+  actions: FetchedActions,
+  fromActionState?: Field
+): MerkleList<MerkleList<MerkleLeaf>> {
+  class MerkleActions extends MerkleList.create(
+    ActionList.provable,
+    (hash: Field, actions: ActionList) =>
+      Actions.updateSequenceState(hash, actions.hash),
+    // if no "start" action hash was specified, this means we are fetching the entire history of actions, which started from the empty action state hash
+    // otherwise we are only fetching a part of the history, which starts at `fromActionState`
+    fromActionState ?? Actions.emptyActionState()
+  ) {}
 
   // convert string-Fields back into the original action type
-  let merkleLeafs = result.map((event) =>
+  let merkleLeafs = actions.map((event) =>
     event.actions.map((action) => MerkleLeaf.fromAction(action.map(Field)))
   );
   return MerkleActions.from(merkleLeafs.map((a) => ActionList.fromReverse(a)));
@@ -266,27 +315,32 @@ async function fetchMerkleMap(
   merkleMap: IndexedMerkleMapBase;
   valueMap: Map<bigint, Field[]>;
 }> {
-  let result = await Mina.fetchActions(
-    contract.address,
-    { endActionState },
-    contract.tokenId
-  );
-  if ('error' in result) throw Error(JSON.stringify(result));
-
-  let leaves = result.map((event) =>
-    event.actions
-      .map((action) => MerkleLeaf.fromAction(action.map(Field)))
-      .reverse()
-  );
+  let result = await fetchContractActions(contract, { endActionState });
 
   let merkleMap = new (IndexedMerkleMap(height))();
   let valueMap = new Map<bigint, Field[]>();
 
-  updateMerkleMap(leaves, merkleMap, valueMap);
+  applyActions(result, merkleMap, valueMap);
 
   return { merkleMap, valueMap };
 }
 
+/**
+ * Apply fetched actions to a Merkle tree and value map, skipping updates with unsatisfied preconditions.
+ */
+function applyActions(
+  actions: FetchedActions,
+  tree: IndexedMerkleMapBase,
+  valueMap?: Map<bigint, Field[]>
+) {
+  let leaves = actions.map((event) =>
+    event.actions
+      .map((action) => MerkleLeaf.fromAction(action.map(Field)))
+      .reverse()
+  );
+  updateMerkleMap(leaves, tree, valueMap);
+}
+
 function updateMerkleMap(
   updates: MerkleLeaf[][],
   tree: IndexedMerkleMapBase,
@@ -301,6 +355,7 @@ function updateMerkleMap(
     for (let leaf of leaves) {
       let { key, value, usesPreviousValue, previousValue, prefix } =
         MerkleLeaf.toValue(leaf);
+      let isIncrement = MerkleLeaf.isIncrement(leaf).toBoolean();
 
       // the update is invalid if there is an unsatisfied precondition
       let previous = intermediateTree.getOption(key).orElse(0n);
@@ -313,8 +368,13 @@ function updateMerkleMap(
       }
 
       // update the intermediate tree, save updates for final tree
-      intermediateTree.set(key, value);
-      updates.push({ key, fullValue: prefix.get() });
+      // increments store the value itself, so there is no full value to save
+      if (isIncrement) {
+        intermediateTree.set(key, previous.add(value));
+      } else {
+        intermediateTree.set(key, value);
+        updates.push({ key, fullValue: prefix.get() });
+      }
     }
 
     if (isValidUpdate) {
@@ -0,0 +1,193 @@
+/**
+ * A service which settles offchain state automatically, whenever new actions are dispatched to the contract.
+ */
+import { Field } from '../../provable/wrapped.js';
+import { PrivateKey } from '../../provable/crypto/signature.js';
+import { Proof } from '../../proof-system/zkprogram.js';
+import { SmartContract } from '../zkapp.js';
+import { State } from '../state.js';
+import { assert } from '../../provable/gadgets/common.js';
+import { FeePayerSpec } from '../mina-instance.js';
+import { type IncludedTransaction, transaction } from '../transaction.js';
+import { fetchContractActions } from './offchain-state-serialization.js';
+import type { OffchainState, OffchainStateKind } from './offchain-state.js';
+import type { OffchainStateCommitments } from './offchain-state-rollup.js';
+
+export { SettlementService, SettlementEvent };
+
+type SettlementEvent =
+  | { type: 'pending-actions'; actions: number }
+  | { type: 'proving'; attempt: number }
+  | { type: 'sending'; attempt: number }
+  | { type: 'conflict'; attempt: number; errors: string[] }
+  | { type: 'settled'; actionState: Field; transaction: IncludedTransaction }
+  | { type: 'failed'; error: unknown };
+
+type SettlementService = ReturnType<typeof SettlementService>;
+
+/**
+ * Creates a service which settles the offchain state of a contract.
+ *
+ * Every settlement creates a recursive settlement proof over all pending actions, with `offchainState.createSettlementProof()`,
+ * and submits a transaction which calls the contract method that settles the proof.
+ * If the transaction is rejected because the action state or the onchain commitments changed in the meantime,
+ * the settlement is retried with a fresh proof.
+ *
+ * ```ts
+ * let service = Experimental.SettlementService({
+ *   offchainState,
+ *   contract,
+ *   settle: (proof) => contract.settle(proof),
+ *   feePayer: { sender, fee: 0.1e9 },
+ *   signers: [senderKey],
+ * });
+ * service.on((event) => console.log(event.type));
+ * service.start();
+ * ```
+ */
+function SettlementService<
+  Config extends { [key: string]: OffchainStateKind }
+>({
+  offchainState,
+  contract,
+  settle,
+  feePayer,
+  signers,
+  interval = 30_000,
+  maxAttempts = 3,
+}: {
+  offchainState: OffchainState<Config>;
+  contract: SmartContract & { offchainState: State<OffchainStateCommitments> };
+  /**
+   * Calls the contract method that settles the proof, for example `(proof) => contract.settle(proof)`.
+   */
+  settle: (
+    proof: Proof<OffchainStateCommitments, OffchainStateCommitments>
+  ) => Promise<void>;
+  feePayer: FeePayerSpec;
+  signers: PrivateKey[];
+  /**
+   * Milliseconds between checks for new actions, when the service is started.
+   */
+  interval?: number;
+  /**
+   * How often a settlement is attempted, before giving up because of concurrent state changes.
+   */
+  maxAttempts?: number;
+}) {
+  let listeners = new Set<(event: SettlementEvent) => void>();
+  function emit(event: SettlementEvent) {
+    listeners.forEach((listener) => listener(event));
+  }
+
+  async function countPendingActions() {
+    let commitments = await contract.offchainState.fetch();
+    assert(commitments !== undefined, 'Could not fetch offchain state');
+    let actions = await fetchContractActions(contract, {
+      fromActionState: commitments.actionState,
+    });
+    return actions.length;
+  }
+
+  async function settleOnce(): Promise<IncludedTransaction | undefined> {
+    let pending = await countPendingActions();
+    if (pending === 0) return undefined;
+    emit({ type: 'pending-actions', actions: pending });
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      emit({ type: 'proving', attempt });
+      let proof = await offchainState.createSettlementProof();
+
+      emit({ type: 'sending', attempt });
+      let tx = await transaction(feePayer, () => settle(proof));
+      await tx.prove();
+      let sent = await tx.sign(signers).safeSend();
+      let result = sent.status === 'pending' ? await sent.safeWait() : sent;
+
+      if (result.status === 'included') {
+        let actionState = proof.publicOutput.actionState;
+        emit({ type: 'settled', actionState, transaction: result });
+        return result;
+      }
+      if (!isConflict(result.errors)) {
+        throw Error(
+          `SettlementService: settlement transaction failed with errors:\n- ${result.errors.join(
+            '\n- '
+          )}`
+        );
+      }
+      emit({ type: 'conflict', attempt, errors: result.errors });
+    }
+    throw Error(
+      `SettlementService: settlement failed after ${maxAttempts} attempts, because the action state or offchain state commitments kept changing.`
+    );
+  }
+
+  let isRunning = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let current: Promise<void> | undefined;
+
+  function schedule(delay: number) {
+    timer = setTimeout(() => {
+      current = settleOnce()
+        .then(
+          () => {},
+          (error) => emit({ type: 'failed', error })
+        )
+        .then(() => {
+          if (isRunning) schedule(interval);
+        });
+    }, delay);
+  }
+
+  return {
+    /**
+     * Settles all pending actions, if there are any.
+     *
+     * @returns The included settlement transaction, or `undefined` if there were no pending actions.
+     */
+    settleOnce,
+
+    /**
+     * Starts checking for new actions every `interval` milliseconds, and settles them.
+     *
+     * Errors don't stop the service, but are reported as `failed` events.
+     */
+    start() {
+      if (isRunning) return;
+      isRunning = true;
+      schedule(0);
+    },
+
+    /**
+     * Stops the service, and waits for a settlement in progress to finish.
+     */
+    async stop() {
+      isRunning = false;
+      clearTimeout(timer);
+      await current;
+    },
+
+    /**
+     * Subscribes to progress events.
+     *
+     * @returns A function which unsubscribes the listener.
+     */
+    on(listener: (event: SettlementEvent) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Whether a transaction was rejected because of state changes between proving and sending,
+ * in which case settling again with a fresh proof can succeed.
+ */
+function isConflict(errors: string[]) {
+  return errors.some((error) =>
+    /Account_(action_state|app_state_\d+)_precondition_unsatisfied/.test(error)
+  );
+}
@@ -0,0 +1,157 @@
+import {
+  SmartContract,
+  method,
+  Mina,
+  state,
+  PublicKey,
+  UInt64,
+  Field,
+  AccountUpdate,
+  Experimental,
+} from '../../../index.js';
+import assert from 'assert';
+
+const { OffchainState, SettlementService } = Experimental;
+
+const offchainState = OffchainState(
+  { accounts: OffchainState.Map(PublicKey, UInt64) },
+  { logTotalCapacity: 10 }
+);
+
+class StateProof extends offchainState.Proof {}
+
+class ExampleContract extends SmartContract {
+  @state(OffchainState.Commitments) offchainState = offchainState.commitments();
+
+  @method
+  async createAccount(address: PublicKey, amount: UInt64) {
+    offchainState.fields.accounts.update(address, {
+      from: undefined,
+      to: amount,
+    });
+  }
+
+  @method
+  async settle(proof: StateProof) {
+    await offchainState.settle(proof);
+  }
+}
+
+// setup
+
+const Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+
+let [sender, receiver, contractAccount, other] = Local.testAccounts;
+let contract = new ExampleContract(contractAccount);
+offchainState.setContractInstance(contract);
+
+await Mina.transaction(sender, () => contract.deploy())
+  .sign([sender.key, contractAccount.key])
+  .prove()
+  .send();
+
+async function createAccount(address: PublicKey, amount: number) {
+  await Mina.transaction(sender, () =>
+    contract.createAccount(address, UInt64.from(amount))
+  )
+    .sign([sender.key])
+    .prove()
+    .send();
+}
+
+// the callback runs more than once per transaction, so conflicts are simulated per attempt
+let conflictingAttempts = 0;
+let attempt = 0;
+let service = SettlementService({
+  offchainState,
+  contract,
+  async settle(proof) {
+    // simulate a conflicting action state on the first attempts
+    if (attempt <= conflictingAttempts) {
+      AccountUpdate.create(contractAccount).account.actionState.requireEquals(
+        Field(1)
+      );
+    }
+    await contract.settle(proof);
+  },
+  feePayer: sender,
+  signers: [sender.key],
+  interval: 10,
+});
+const events: Experimental.SettlementEvent[] = [];
+service.on((event) => {
+  if (event.type === 'sending') attempt = event.attempt;
+  events.push(event);
+});
+
+// nothing to settle
+
+assert.strictEqual(await service.settleOnce(), undefined);
+assert.strictEqual(events.length, 0);
+
+// all pending actions are settled
+
+await createAccount(sender, 1000);
+await createAccount(receiver, 500);
+
+let included = await service.settleOnce();
+assert.strictEqual(included?.status, 'included');
+assert.deepStrictEqual(
+  events.map((e) => e.type),
+  ['pending-actions', 'proving', 'sending', 'settled']
+);
+assert.deepStrictEqual(events[0], { type: 'pending-actions', actions: 2 });
+assert.deepStrictEqual(
+  contract.offchainState.get().actionState,
+  Local.getAccount(contractAccount).zkapp!.actionState[0]
+);
+assert.strictEqual(await service.settleOnce(), undefined);
+
+// settlement is retried on conflicts
+
+events.length = 0;
+conflictingAttempts = 1;
+await createAccount(other, 300);
+await service.settleOnce();
+assert.deepStrictEqual(
+  events.map((e) => e.type),
+  [
+    'pending-actions',
+    'proving',
+    'sending',
+    'conflict',
+    'proving',
+    'sending',
+    'settled',
+  ]
+);
+
+conflictingAttempts = 3;
+await createAccount(PublicKey.empty(), 1);
+await assert.rejects(() => service.settleOnce(), /after 3 attempts/);
+
+// the running service settles new actions
+
+conflictingAttempts = 0;
+events.length = 0;
+service.start();
+let deadline = Date.now() + 60_000;
+while (!events.some((e) => e.type === 'settled')) {
+  for (let event of events) {
+    if (event.type === 'failed') {
+      await service.stop();
+      throw event.error;
+    }
+  }
+  if (Date.now() > deadline) {
+    await service.stop();
+    throw Error('the running service did not settle in time');
+  }
+  await new Promise((resolve) => setTimeout(resolve, 10));
+}
+await service.stop();
+assert.deepStrictEqual(
+  contract.offchainState.get().actionState,
+  Local.getAccount(contractAccount).zkapp!.actionState[0]
+);
@@ -0,0 +1,124 @@
+/**
+ * Persistence of offchain state in a key-value store, so that it can be restored without replaying the entire action history.
+ */
+import { Field } from '../../provable/wrapped.js';
+import { PublicKey } from '../../provable/crypto/signature.js';
+import {
+  IndexedMerkleMap,
+  IndexedMerkleMapBase,
+} from '../../provable/merkle-tree-indexed.js';
+import { TokenId } from '../account-update.js';
+import type { KeyValueStore } from '../indexer/store.js';
+import type { FetchedActions } from './offchain-state-serialization.js';
+
+export { OffchainStateStorage, MerkleMaps };
+
+type Contract = { address: PublicKey; tokenId: Field };
+
+type MerkleMaps = {
+  merkleMap: IndexedMerkleMapBase;
+  valueMap: Map<bigint, Field[]>;
+};
+
+type MerkleMapsJson = {
+  actionState: string;
+  root: string;
+  // leaves of the indexed Merkle map, in the order they were inserted
+  leaves: [key: string, value: string][];
+  values: [key: string, fields: string[]][];
+};
+
+type PendingActionsJson = {
+  fromActionState: string;
+  actions: FetchedActions;
+};
+
+/**
+ * Stores the Merkle map and value map of an offchain state, together with the action state they correspond to,
+ * and the pending actions after the last settled action state.
+ */
+function OffchainStateStorage(store: KeyValueStore, height: number) {
+  function storeKey(contract: Contract, kind: 'merkle-map' | 'pending') {
+    return `offchain-state:${contract.address.toBase58()};${TokenId.toBase58(
+      contract.tokenId
+    )}:${kind}`;
+  }
+
+  return {
+    async loadMerkleMaps(
+      contract: Contract
+    ): Promise<(MerkleMaps & { actionState: Field }) | undefined> {
+      let json = await store.get(storeKey(contract, 'merkle-map'));
+      if (json === undefined) return undefined;
+      let stored: MerkleMapsJson = JSON.parse(json);
+
+      // inserting leaves in their original order recreates the same tree
+      let merkleMap = new (IndexedMerkleMap(height))();
+      for (let [key, value] of stored.leaves) {
+        merkleMap.set(BigInt(key), BigInt(value));
+      }
+      if (merkleMap.root.toBigInt() !== BigInt(stored.root)) {
+        throw Error(
+          `OffchainState: the stored Merkle map of ${contract.address.toBase58()} doesn't match its stored root.`
+        );
+      }
+      let valueMap = new Map(
+        stored.values.map(([key, fields]): [bigint, Field[]] => [
+          BigInt(key),
+          fields.map(Field),
+        ])
+      );
+      return { actionState: Field(stored.actionState), merkleMap, valueMap };
+    },
+
+    async saveMerkleMaps(
+      contract: Contract,
+      { actionState, merkleMap, valueMap }: MerkleMaps & { actionState: Field }
+    ) {
+      let leaves = [...merkleMap.data.get().sortedLeaves]
+        .sort((a, b) => a.index - b.index)
+        .map(({ key, value }): [string, string] => [
+          key.toString(),
+          value.toString(),
+        ]);
+      let stored: MerkleMapsJson = {
+        actionState: actionState.toString(),
+        root: merkleMap.root.toString(),
+        leaves,
+        values: [...valueMap].map(([key, fields]) => [
+          key.toString(),
+          fields.map(String),
+        ]),
+      };
+      await store.set(storeKey(contract, 'merkle-map'), JSON.stringify(stored));
+    },
+
+    async loadPendingActions(
+      contract: Contract
+    ): Promise<
+      { fromActionState: Field; actions: FetchedActions } | undefined
+    > {
+      let json = await store.get(storeKey(contract, 'pending'));
+      if (json === undefined) return undefined;
+      let stored: PendingActionsJson = JSON.parse(json);
+      return {
+        fromActionState: Field(stored.fromActionState),
+        actions: stored.actions,
+      };
+    },
+
+    async savePendingActions(
+      contract: Contract,
+      {
+        fromActionState,
+        actions,
+      }: { fromActionState: Field; actions: FetchedActions }
+    ) {
+      let stored: PendingActionsJson = {
+        fromActionState: fromActionState.toString(),
+        actions,
+      };
+      await store.set(storeKey(contract, 'pending'), JSON.stringify(stored));
+    },
+  };
+}
@@ -0,0 +1,145 @@
+import {
+  SmartContract,
+  method,
+  Mina,
+  state,
+  PublicKey,
+  UInt64,
+  Experimental,
+} from '../../../index.js';
+import assert from 'assert';
+import { OffchainStateStorage } from './offchain-state-storage.js';
+
+const { OffchainState } = Experimental;
+
+const logTotalCapacity = 10;
+const store = Mina.InMemoryStore();
+
+function createOffchainState() {
+  return OffchainState(
+    { accounts: OffchainState.Map(PublicKey, UInt64) },
+    { logTotalCapacity, storage: store }
+  );
+}
+
+// the offchain state is recreated below, to simulate a restart
+let offchainState = createOffchainState();
+class StateProof extends offchainState.Proof {}
+
+class ExampleContract extends SmartContract {
+  @state(OffchainState.Commitments) offchainState = offchainState.commitments();
+
+  @method
+  async createAccount(address: PublicKey, amount: UInt64) {
+    offchainState.fields.accounts.update(address, {
+      from: undefined,
+      to: amount,
+    });
+  }
+
+  @method.returns(UInt64)
+  async getBalance(address: PublicKey) {
+    return (await offchainState.fields.accounts.get(address)).orElse(0n);
+  }
+
+  @method
+  async settle(proof: StateProof) {
+    await offchainState.settle(proof);
+  }
+}
+
+// setup
+
+const Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+
+let [sender, receiver, contractAccount, other] = Local.testAccounts;
+let contract = new ExampleContract(contractAccount);
+offchainState.setContractInstance(contract);
+
+await Mina.transaction(sender, () => contract.deploy())
+  .sign([sender.key, contractAccount.key])
+  .prove()
+  .send();
+
+await Mina.transaction(sender, async () => {
+  await contract.createAccount(sender, UInt64.from(1000));
+  await contract.createAccount(receiver, UInt64.from(500));
+})
+  .sign([sender.key])
+  .prove()
+  .send();
+
+let proof = await offchainState.createSettlementProof();
+
+// the Merkle map of an unsettled proof is not persisted
+
+let storage = OffchainStateStorage(store, logTotalCapacity + 1);
+let stored = await storage.loadMerkleMaps(contract);
+assert.notDeepStrictEqual(stored?.actionState, proof.publicOutput.actionState);
+
+await Mina.transaction(sender, () => contract.settle(proof))
+  .sign([sender.key])
+  .prove()
+  .send();
+
+// the settled Merkle map is persisted when the state is next accessed
+
+assert.strictEqual((await contract.getBalance(sender)).toBigInt(), 1000n);
+stored = await storage.loadMerkleMaps(contract);
+assert(stored !== undefined, 'merkle map is stored');
+let commitments = contract.offchainState.get();
+assert.deepStrictEqual(stored.actionState, commitments.actionState);
+assert.deepStrictEqual(stored.merkleMap.root, commitments.root);
+assert.strictEqual(stored.valueMap.size, 2);
+
+// after a restart, the state is restored without replaying the action history
+
+Mina.setActiveInstance({
+  ...Local,
+  async fetchActions(publicKey, actionStates, tokenId) {
+    assert(
+      actionStates?.fromActionState !== undefined,
+      'action history is not replayed'
+    );
+    return Local.fetchActions(publicKey, actionStates, tokenId);
+  },
+});
+offchainState = createOffchainState();
+offchainState.setContractInstance(contract);
+
+assert.strictEqual((await contract.getBalance(sender)).toBigInt(), 1000n);
+assert.strictEqual((await contract.getBalance(receiver)).toBigInt(), 500n);
+
+// pending actions are fetched from the last settled action state
+
+await Mina.transaction(sender, () =>
+  contract.createAccount(other, UInt64.from(300))
+)
+  .sign([sender.key])
+  .prove()
+  .send();
+
+proof = await offchainState.createSettlementProof();
+assert.deepStrictEqual(proof.publicInput, commitments);
+assert.deepStrictEqual(
+  proof.publicOutput.actionState,
+  Local.getAccount(contractAccount).zkapp!.actionState[0]
+);
+
+// until the proof is settled, the state is read from the settled maps, without replaying the action history
+
+assert.strictEqual((await contract.getBalance(other)).toBigInt(), 0n);
+stored = await storage.loadMerkleMaps(contract);
+assert.deepStrictEqual(stored!.merkleMap.root, commitments.root);
+assert.strictEqual(stored!.valueMap.size, 2);
+
+await Mina.transaction(sender, () => contract.settle(proof))
+  .sign([sender.key])
+  .prove()
+  .send();
+
+assert.strictEqual((await contract.getBalance(other)).toBigInt(), 300n);
+stored = await storage.loadMerkleMaps(contract);
+assert.deepStrictEqual(stored!.merkleMap.root, proof.publicOutput.root);
+assert.strictEqual(stored!.valueMap.size, 3);
@@ -1,12 +1,18 @@
-import { InferProvable } from '../../provable/types/struct.js';
+import { InferProvable, provableTuple } from '../../provable/types/struct.js';
 import {
   Actionable,
-  fetchMerkleLeaves,
+  FetchedActions,
+  applyActions,
+  fetchContractActions,
   fetchMerkleMap,
   fromActionWithoutHashes,
   toAction,
+  toIncrementAction,
   toKeyHash,
+  toMerkleLeaves,
 } from './offchain-state-serialization.js';
+import { MerkleMaps, OffchainStateStorage } from './offchain-state-storage.js';
+import type { KeyValueStore } from '../indexer/store.js';
 import { Field } from '../../provable/wrapped.js';
 import { Proof } from '../../proof-system/zkprogram.js';
 import {
@@ -24,7 +30,7 @@ import { Poseidon } from '../../provable/crypto/poseidon.js';
 import { smartContractContext } from '../smart-contract-context.js';
 import { IndexedMerkleMap } from '../../provable/merkle-tree-indexed.js';
 
-export { OffchainState, OffchainStateCommitments };
+export { OffchainState, OffchainStateCommitments, type OffchainStateKind };
 
 type OffchainState<Config extends { [key: string]: OffchainStateKind }> = {
   /**
@@ -161,7 +167,22 @@ function OffchainState<
      * Note: When increasing this, consider decreasing `maxActionsPerProof` or `logTotalCapacity` in order to not exceed the circuit size limit.
      */
     maxActionsPerUpdate?: number;
+    /**
+     * The maximum number of offchain state actions that are processed in a single settlement proof.
+     * More actions are processed by several recursive proofs.
+     *
+     * The default is 22, or 11 if the offchain state has counters, because every counter increment also reads the current value.
+     */
     maxActionsPerProof?: number;
+    /**
+     * A key-value store in which the Merkle map, the last settled action state and pending actions are persisted,
+     * for example `Mina.JsonFileStore('offchain-state.json')`.
+     *
+     * With a store, the offchain state can be restored after a restart without replaying the entire action history,
+     * and several processes can share the same state: the state is reloaded from the store whenever the
+     * onchain action state has moved on.
+     */
+    storage?: KeyValueStore;
   }
 ): OffchainState<Config> {
   // read options
@@ -169,15 +190,22 @@ function OffchainState<
     logTotalCapacity = 30,
     maxActionsPerUpdate = 4,
     maxActionsPerProof,
+    storage: store,
   } = options ?? {};
   const height = logTotalCapacity + 1;
   class IndexedMerkleMapN extends IndexedMerkleMap(height) {}
+  let storage =
+    store === undefined ? undefined : OffchainStateStorage(store, height);
 
   // setup internal state of this "class"
   let internal = {
     _contract: undefined as OffchainStateContract | undefined,
     _merkleMap: undefined as IndexedMerkleMapN | undefined,
     _valueMap: undefined as Map<bigint, Field[]> | undefined,
+    // the action state that the cached maps correspond to
+    _actionState: undefined as Field | undefined,
+    // maps after the last settlement proof, which become current once the proof is settled
+    _provedMaps: undefined as (MerkleMaps & { actionState: Field }) | undefined,
 
     get contract() {
       assert(
@@ -194,25 +222,103 @@ function OffchainState<
     return actionState;
   };
 
+  const setMerkleMaps = async (
+    actionState: Field,
+    { merkleMap, valueMap }: MerkleMaps
+  ) => {
+    internal._merkleMap = merkleMap;
+    internal._valueMap = valueMap;
+    internal._actionState = actionState;
+    await storage?.saveMerkleMaps(internal.contract, {
+      actionState,
+      merkleMap,
+      valueMap,
+    });
+  };
+
   const merkleMaps = async () => {
-    if (internal._merkleMap !== undefined && internal._valueMap !== undefined) {
+    // the cached maps are outdated if the onchain state moved on
+    let actionState = await onchainActionState();
+    if (
+      internal._merkleMap !== undefined &&
+      internal._valueMap !== undefined &&
+      internal._actionState?.equals(actionState).toBoolean()
+    ) {
       return { merkleMap: internal._merkleMap, valueMap: internal._valueMap };
     }
-    let actionState = await onchainActionState();
-    let { merkleMap, valueMap } = await fetchMerkleMap(
-      height,
-      internal.contract,
-      actionState
-    );
-    internal._merkleMap = merkleMap;
-    internal._valueMap = valueMap;
-    return { merkleMap, valueMap };
+    // the last settlement proof was settled
+    let proved = internal._provedMaps;
+    if (proved?.actionState.equals(actionState).toBoolean()) {
+      internal._provedMaps = undefined;
+      await setMerkleMaps(actionState, proved);
+      await storage?.savePendingActions(internal.contract, {
+        fromActionState: actionState,
+        actions: [],
+      });
+      return { merkleMap: proved.merkleMap, valueMap: proved.valueMap };
+    }
+    let maps =
+      (await loadMerkleMaps(actionState)) ??
+      (await fetchMerkleMap(height, internal.contract, actionState));
+    await setMerkleMaps(actionState, maps);
+    return maps;
+  };
+
+  /**
+   * Load the maps from storage, and catch up with the onchain action state if the stored maps are behind.
+   */
+  const loadMerkleMaps = async (
+    actionState: Field
+  ): Promise<MerkleMaps | undefined> => {
+    let stored = await storage?.loadMerkleMaps(internal.contract);
+    if (stored === undefined) return undefined;
+    if (stored.actionState.equals(actionState).toBoolean()) return stored;
+
+    let actions: FetchedActions;
+    try {
+      actions = await fetchContractActions(internal.contract, {
+        fromActionState: stored.actionState,
+        endActionState: actionState,
+      });
+    } catch {
+      // the stored action state is unknown, e.g. because the stored maps are ahead of the onchain state
+      return undefined;
+    }
+    if (actions[actions.length - 1]?.hash !== actionState.toString()) {
+      return undefined;
+    }
+    applyActions(actions, stored.merkleMap, stored.valueMap);
+    return stored;
+  };
+
+  /**
+   * Fetch the actions after the given action state. With storage, only actions that are not stored yet are fetched.
+   */
+  const pendingActions = async (actionState: Field) => {
+    let stored = await storage?.loadPendingActions(internal.contract);
+    let actions: FetchedActions = [];
+    if (stored?.fromActionState.equals(actionState).toBoolean()) {
+      actions = stored.actions;
+    }
+    let latest = actions[actions.length - 1]?.hash;
+    let newActions = await fetchContractActions(internal.contract, {
+      fromActionState: latest === undefined ? actionState : Field(latest),
+    });
+    actions = [...actions, ...newActions];
+    await storage?.savePendingActions(internal.contract, {
+      fromActionState: actionState,
+      actions,
+    });
+    return actions;
   };
 
   let rollup = OffchainStateRollup({
     logTotalCapacity,
     maxActionsPerProof,
     maxActionsPerUpdate,
+    hasCounters: Object.values(config).some(
+      (kind) => kind.kind === 'offchain-counter'
+    ),
   });
 
   function contract() {
@@ -231,16 +337,31 @@ function OffchainState<
   /**
    * generic get which works for both fields and maps
    */
-  async function get<V, VValue>(key: Field, valueType: Actionable<V, VValue>) {
+  /**
+   * witness the merkle map & anchor against the onchain root
+   */
+  async function witnessMerkleMap() {
     // get onchain merkle root
     let stateRoot = contract().offchainState.getAndRequireEquals().root;
 
-    // witness the merkle map & anchor against the onchain root
     let map = await Provable.witnessAsync(
       IndexedMerkleMapN.provable,
       async () => (await merkleMaps()).merkleMap
     );
     map.root.assertEquals(stateRoot, 'root mismatch');
+    return map;
+  }
+
+  /**
+   * push an action on the account update of the contract
+   */
+  function pushAction(action: Field[]) {
+    let update = contract().self;
+    update.body.actions = Actions.pushEvent(update.body.actions, action);
+  }
+
+  async function get<V, VValue>(key: Field, valueType: Actionable<V, VValue>) {
+    let map = await witnessMerkleMap();
 
     // get the value hash
     let valueHash = map.getOption(key);
@@ -285,9 +406,7 @@ function OffchainState<
           value: type.fromValue(value),
         });
 
-        // push action on account update
-        let update = contract().self;
-        update.body.actions = Actions.pushEvent(update.body.actions, action);
+        pushAction(action);
       },
 
       update({ from, to }) {
@@ -301,9 +420,7 @@ function OffchainState<
           previousValue: optionType.fromValue(from),
         });
 
-        // push action on account update
-        let update = contract().self;
-        update.body.actions = Actions.pushEvent(update.body.actions, action);
+        pushAction(action);
       },
 
       async get() {
@@ -332,9 +449,7 @@ function OffchainState<
           value: valueType.fromValue(value),
         });
 
-        // push action on account update
-        let update = contract().self;
-        update.body.actions = Actions.pushEvent(update.body.actions, action);
+        pushAction(action);
       },
 
       update(key, { from, to }) {
@@ -348,9 +463,7 @@ function OffchainState<
           previousValue: optionType.fromValue(from),
         });
 
-        // push action on account update
-        let update = contract().self;
-        update.body.actions = Actions.pushEvent(update.body.actions, action);
+        pushAction(action);
       },
 
       async get(key) {
@@ -360,6 +473,103 @@ function OffchainState<
     };
   }
 
+  function counter(index: number): OffchainCounter {
+    const key = toKeyHash(Field(index), undefined, undefined);
+
+    return {
+      increment(delta) {
+        pushAction(toIncrementAction(key, Field(delta)));
+      },
+
+      decrement(delta) {
+        pushAction(toIncrementAction(key, Field(delta).neg()));
+      },
+
+      async get() {
+        let map = await witnessMerkleMap();
+        return map.getOption(key).orElse(0n);
+      },
+    };
+  }
+
+  function list<T, TValue>(
+    index: number,
+    type: Actionable<T, TValue>
+  ): OffchainList<T, TValue> {
+    const prefix = Field(index);
+    // the length is stored like a field, elements are stored like map entries keyed by their index
+    const lengthKey = toKeyHash(prefix, undefined, undefined);
+
+    return {
+      async push(value) {
+        let lengthOption = await get(lengthKey, Field);
+        let length = lengthOption.orElse(0n);
+
+        pushAction(
+          toAction({
+            prefix,
+            keyType: Field,
+            valueType: type,
+            key: length,
+            value: type.fromValue(value),
+          })
+        );
+        // the push only succeeds if no other push happened in the meantime
+        pushAction(
+          toAction({
+            prefix,
+            keyType: undefined,
+            valueType: Field,
+            key: undefined,
+            value: length.add(1),
+            previousValue: lengthOption,
+          })
+        );
+      },
+
+      async get(index) {
+        let keyHash = toKeyHash(prefix, Field, Field(index));
+        return await get(keyHash, type);
+      },
+
+      async length() {
+        return (await get(lengthKey, Field)).orElse(0n);
+      },
+    };
+  }
+
+  function nestedMap<K1, K2, V, VValue>(
+    index: number,
+    keyType1: Actionable<K1>,
+    keyType2: Actionable<K2>,
+    valueType: Actionable<V, VValue>
+  ): OffchainNestedMap<K1, K2, V, VValue> {
+    // a map with keys of both levels combined into one
+    const keyType = provableTuple([keyType1, keyType2]) as Actionable<[K1, K2]>;
+    const inner = map(index, keyType, valueType);
+
+    return {
+      get: (key1, key2) => inner.get([key1, key2]),
+      update: (key1, key2, update) => inner.update([key1, key2], update),
+      overwrite: (key1, key2, value) => inner.overwrite([key1, key2], value),
+    };
+  }
+
+  function fromKind(kind: OffchainStateKind, i: number) {
+    switch (kind.kind) {
+      case 'offchain-field':
+        return field(i, kind.type);
+      case 'offchain-map':
+        return map(i, kind.keyType, kind.valueType);
+      case 'offchain-counter':
+        return counter(i);
+      case 'offchain-list':
+        return list(i, kind.type);
+      case 'offchain-nested-map':
+        return nestedMap(i, kind.keyType1, kind.keyType2, kind.valueType);
+    }
+  }
+
   return {
     setContractInstance(contract) {
       internal._contract = contract;
@@ -370,24 +580,29 @@ function OffchainState<
     },
 
     async createSettlementProof() {
-      let { merkleMap } = await merkleMaps();
+      let { merkleMap, valueMap } = await merkleMaps();
 
       // fetch pending actions
       let actionState = await onchainActionState();
-      let actions = await fetchMerkleLeaves(internal.contract, {
-        fromActionState: actionState,
-      });
+      let actions = await pendingActions(actionState);
+
+      let result = await rollup.prove(
+        merkleMap,
+        toMerkleLeaves(actions, actionState)
+      );
 
-      let result = await rollup.prove(merkleMap, actions);
+      // compute the merkle maps after settlement as well, by applying the pending actions.
+      // they are kept aside until the onchain action state has moved to the proved one
+      let newMerkleMap = merkleMap.clone();
+      let newValueMap = new Map(valueMap);
+      applyActions(actions, newMerkleMap, newValueMap);
 
-      // update internal merkle maps as well
-      // TODO make this not insanely recompute everything
-      // - take new tree from `result`
-      // - update value map in `prove()`, or separately based on `actions`
-      let { merkleMap: newMerkleMap, valueMap: newValueMap } =
-        await fetchMerkleMap(height, internal.contract);
-      internal._merkleMap = newMerkleMap;
-      internal._valueMap = newValueMap;
+      let latest = actions[actions.length - 1]?.hash;
+      internal._provedMaps = {
+        actionState: latest === undefined ? actionState : Field(latest),
+        merkleMap: newMerkleMap,
+        valueMap: newValueMap,
+      };
 
       return result.proof;
     },
@@ -412,12 +627,7 @@ function OffchainState<
     },
 
     fields: Object.fromEntries(
-      Object.entries(config).map(([key, kind], i) => [
-        key,
-        kind.kind === 'offchain-field'
-          ? field(i, kind.type)
-          : map(i, kind.keyType, kind.valueType),
-      ])
+      Object.entries(config).map(([key, kind], i) => [key, fromKind(kind, i)])
     ) as any,
 
     commitments() {
@@ -428,6 +638,9 @@ function OffchainState<
 
 OffchainState.Map = OffchainMap;
 OffchainState.Field = OffchainField;
+OffchainState.Counter = OffchainCounter;
+OffchainState.List = OffchainList;
+OffchainState.NestedMap = OffchainNestedMap;
 OffchainState.Commitments = OffchainStateCommitments;
 
 // type helpers
@@ -495,9 +708,102 @@ type OffchainMap<K, V, VValue> = {
   overwrite(key: K, value: V | VValue): void;
 };
 
+function OffchainCounter() {
+  return { kind: 'offchain-counter' as const };
+}
+type OffchainCounter = {
+  /**
+   * Get the value of the counter, which is 0 if it was never changed.
+   */
+  get(): Promise<Field>;
+
+  /**
+   * Add `delta` to the counter.
+   *
+   * Unlike `update()` on fields, increments never conflict: concurrent increments (between one call to `settle()` and the next)
+   * are all applied.
+   */
+  increment(delta: Field | bigint | number): void;
+
+  /**
+   * Subtract `delta` from the counter. Like increments, decrements never conflict.
+   *
+   * **Warning**: the counter is a field element, so it wraps around instead of becoming negative.
+   */
+  decrement(delta: Field | bigint | number): void;
+};
+
+function OffchainList<T extends Any>(type: T) {
+  return { kind: 'offchain-list' as const, type };
+}
+type OffchainList<T, TValue> = {
+  /**
+   * Get the element at the given index, or none if the list is not that long.
+   */
+  get(index: Field | bigint | number): Promise<Option<T, TValue>>;
+
+  /**
+   * Get the length of the list.
+   */
+  length(): Promise<Field>;
+
+  /**
+   * Append an element to the list.
+   *
+   * The element is stored at the index that equals the current length. Therefore, if the list is pushed to by
+   * multiple zkapp calls concurrently (between one call to `settle()` and the next), only the first push is applied.
+   */
+  push(value: T | TValue): Promise<void>;
+};
+
+function OffchainNestedMap<K1 extends Any, K2 extends Any, V extends Any>(
+  key1: K1,
+  key2: K2,
+  value: V
+) {
+  return {
+    kind: 'offchain-nested-map' as const,
+    keyType1: key1,
+    keyType2: key2,
+    valueType: value,
+  };
+}
+type OffchainNestedMap<K1, K2, V, VValue> = {
+  /**
+   * Get the value for these keys, or none if it doesn't exist.
+   */
+  get(key1: K1, key2: K2): Promise<Option<V, VValue>>;
+
+  /**
+   * Update the value for these keys, while requiring a specific previous value.
+   *
+   * If the previous value does not match, the update will not be applied.
+   */
+  update(
+    key1: K1,
+    key2: K2,
+    update: { from: OptionOrValue<V, VValue>; to: V | VValue }
+  ): void;
+
+  /**
+   * Set the value for these keys to the given value, without taking into account the previous value.
+   *
+   * **Warning**: see `OffchainState.Map` for the risks of using `overwrite()`.
+   */
+  overwrite(key1: K1, key2: K2, value: V | VValue): void;
+};
+
 type OffchainStateKind =
   | { kind: 'offchain-field'; type: Any }
-  | { kind: 'offchain-map'; keyType: Any; valueType: Any };
+  | { kind: 'offchain-map'; keyType: Any; valueType: Any }
+  | { kind: 'offchain-counter' }
+  | { kind: 'offchain-list'; type: Any }
+  | {
+      kind: 'offchain-nested-map';
+      keyType1: Any;
+      keyType2: Any;
+      valueType: Any;
+    };
 
 type OffchainStateIntf<Kind extends OffchainStateKind> = Kind extends {
   kind: 'offchain-field';
@@ -510,4 +816,20 @@ type OffchainStateIntf<Kind extends OffchainStateKind> = Kind extends {
       valueType: infer V;
     }
   ? OffchainMap<InferProvable<K>, InferProvable<V>, InferValue<V>>
+  : Kind extends { kind: 'offchain-counter' }
+  ? OffchainCounter
+  : Kind extends { kind: 'offchain-list'; type: infer T }
+  ? OffchainList<InferProvable<T>, InferValue<T>>
+  : Kind extends {
+      kind: 'offchain-nested-map';
+      keyType1: infer K1;
+      keyType2: infer K2;
+      valueType: infer V;
+    }
+  ? OffchainNestedMap<
+      InferProvable<K1>,
+      InferProvable<K2>,
+      InferProvable<V>,
+      InferValue<V>
+    >
   : never;
@@ -0,0 +1,132 @@
+/**
+ * Fee estimation for zkApp commands, based on their weight and on the fees of recent transactions.
+ */
+import type { ZkappCommand } from './account-update.js';
+import { UInt64 } from '../provable/int.js';
+import { activeInstance } from './mina-instance.js';
+import { TransactionCost, TransactionLimits } from './constants.js';
+import { transactionCost } from './transaction-validation.js';
+
+export { estimateFee, FeeEstimate, LimitUsage, minimumFeePerAccountUpdate };
+
+/**
+ * The minimum fee per account update, as assumed by `mina-signer`: 0.001 MINA.
+ */
+const minimumFeePerAccountUpdate = 1_000_000n;
+
+/**
+ * How much of a protocol limit a transaction uses.
+ */
+type LimitUsage = {
+  used: number;
+  limit: number;
+  isWithinLimit: boolean;
+};
+
+type FeeEstimate = {
+  /**
+   * The number of account updates, excluding the fee payer.
+   */
+  accountUpdates: number;
+  /**
+   * The account updates (including the fee payer), grouped into the segments that snark workers prove.
+   */
+  segments: { proof: number; signedPair: number; signedSingle: number };
+  /**
+   * The proving cost of all segments, which limits the number and kind of account updates in a transaction.
+   */
+  cost: LimitUsage;
+  /**
+   * Number of field elements in events.
+   */
+  events: LimitUsage;
+  /**
+   * Number of field elements in actions.
+   */
+  actions: LimitUsage;
+  /**
+   * The minimum fee of the transaction, 0.001 MINA per account update.
+   */
+  minimumFee: UInt64;
+  /**
+   * The suggested fee, based on the fees paid per account update in recent blocks.
+   * Never less than `minimumFee`.
+   */
+  suggestedFee: UInt64;
+  /**
+   * - `'network'`: the suggested fee is based on recent blocks
+   * - `'minimum'`: there were no recent transactions (e.g. on a `LocalBlockchain`), or they couldn't be fetched,
+   *   so the minimum fee is suggested
+   */
+  source: 'network' | 'minimum';
+};
+
+/**
+ * Estimates the fee of a zkApp command, and reports how close it is to the protocol limits.
+ *
+ * The suggested fee is the median fee per account update of transactions in the last `blockLength` blocks,
+ * multiplied by the number of account updates.
+ */
+async function estimateFee(
+  transaction: ZkappCommand,
+  { blockLength = 10 }: { blockLength?: number } = {}
+): Promise<FeeEstimate> {
+  let { authTypes, totalTimeRequired, eventElements } =
+    transactionCost(transaction);
+  let accountUpdates = transaction.accountUpdates.length;
+  let weight = BigInt(Math.max(1, accountUpdates));
+  let minimumFee = minimumFeePerAccountUpdate * weight;
+
+  let recentFees = await fetchRecentFees(blockLength);
+  let feeRates = recentFees
+    .map(
+      ({ fee, accountUpdates }) =>
+        fee.toBigInt() / BigInt(Math.max(1, accountUpdates))
+    )
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  let medianRate = feeRates[Math.floor(feeRates.length / 2)];
+  let suggestedFee =
+    medianRate === undefined
+      ? minimumFee
+      : bigIntMax(minimumFee, medianRate * weight);
+
+  return {
+    accountUpdates,
+    segments: authTypes,
+    cost: {
+      used: totalTimeRequired,
+      limit: TransactionCost.COST_LIMIT,
+      isWithinLimit: totalTimeRequired < TransactionCost.COST_LIMIT,
+    },
+    events: {
+      used: eventElements.events,
+      limit: TransactionLimits.MAX_EVENT_ELEMENTS,
+      isWithinLimit:
+        eventElements.events <= TransactionLimits.MAX_EVENT_ELEMENTS,
+    },
+    actions: {
+      used: eventElements.actions,
+      limit: TransactionLimits.MAX_ACTION_ELEMENTS,
+      isWithinLimit:
+        eventElements.actions <= TransactionLimits.MAX_ACTION_ELEMENTS,
+    },
+    minimumFee: UInt64.from(minimumFee),
+    suggestedFee: UInt64.from(suggestedFee),
+    source: medianRate === undefined ? 'minimum' : 'network',
+  };
+}
+
+/**
+ * The fees of recent transactions, or none if the active instance can't provide them, so that the minimum fee is suggested.
+ */
+async function fetchRecentFees(blockLength: number) {
+  try {
+    return (await activeInstance.fetchRecentFees?.(blockLength)) ?? [];
+  } catch {
+    return [];
+  }
+}
+
+function bigIntMax(a: bigint, b: bigint) {
+  return a > b ? a : b;
+}
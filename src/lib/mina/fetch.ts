@@ -26,6 +26,7 @@ import {
   type SendZkAppResponse,
   type FetchedAccountResponse,
   type CurrentSlotResponse,
+  type RecentFeesQueryResponse,
   sendZkappQuery,
   lastBlockQuery,
   lastBlockQueryFailureCheck,
@@ -35,6 +36,7 @@ import {
   genesisConstantsQuery,
   accountQuery,
   currentSlotQuery,
+  recentFeesQuery,
 } from './graphql.js';
 
 export {
@@ -42,6 +44,7 @@ export {
   fetchLastBlock,
   fetchGenesisConstants,
   fetchCurrentSlot,
+  fetchRecentFees,
   checkZkappTransaction,
   parseFetchedAccount,
   markAccountToBeFetched,
@@ -486,6 +489,44 @@ async function fetchCurrentSlot(graphqlEndpoint = networkConfig.minaEndpoint) {
   return bestChain[0].protocolState.consensusState.slot;
 }
 
+/**
+ * Fetches the fees of transactions included in the last blocks, together with their number of account updates.
+ * Payments and delegations count as a single account update.
+ */
+async function fetchRecentFees(
+  blockLength = 10,
+  graphqlEndpoint = networkConfig.minaEndpoint
+) {
+  let [resp, error] = await makeGraphqlRequest<RecentFeesQueryResponse>(
+    recentFeesQuery(blockLength),
+    graphqlEndpoint,
+    networkConfig.minaFallbackEndpoints
+  );
+  if (error) throw Error(`Error making GraphQL request: ${error.statusText}`);
+  let bestChain = resp?.data?.bestChain;
+  if (bestChain === undefined) {
+    throw Error(
+      'Failed to fetch recent transaction fees. The response data is undefined.'
+    );
+  }
+  return bestChain.flatMap(({ transactions }) => [
+    ...transactions.zkappCommands.flatMap(({ zkappCommand }) =>
+      zkappCommand === undefined
+        ? []
+        : [
+            {
+              fee: UInt64.from(zkappCommand.feePayer.body.fee),
+              accountUpdates: zkappCommand.accountUpdates.length,
+            },
+          ]
+    ),
+    ...(transactions.userCommands ?? []).map(({ fee }) => ({
+      fee: UInt64.from(fee),
+      accountUpdates: 1,
+    })),
+  ]);
+}
+
 async function fetchLatestBlockZkappStatus(
   blockLength: number,
   graphqlEndpoint = networkConfig.minaEndpoint
@@ -19,6 +19,7 @@ export {
   type FetchedAccount,
   type FetchedAccountResponse,
   type CurrentSlotResponse,
+  type RecentFeesQueryResponse,
   getEventsQuery,
   getActionsQuery,
   sendZkappQuery,
@@ -28,6 +29,7 @@ export {
   currentSlotQuery,
   genesisConstantsQuery,
   lastBlockQuery,
+  recentFeesQuery,
   removeJsonQuotes,
 };
 
@@ -136,6 +138,20 @@ type LastBlockQueryFailureCheckResponse = {
   }[];
 };
 
+type RecentFeesQueryResponse = {
+  bestChain: {
+    transactions: {
+      zkappCommands: {
+        zkappCommand?: {
+          feePayer: { body: { fee: string } };
+          accountUpdates: unknown[];
+        };
+      }[];
+      userCommands?: { fee: string }[];
+    };
+  }[];
+};
+
 type FetchedBlock = {
   protocolState: {
     blockchainState: {
@@ -418,6 +434,30 @@ const lastBlockQueryFailureCheck = (length: number) => `{
   }
 }`;
 
+const recentFeesQuery = (length: number) => `{
+  bestChain(maxLength: ${length}) {
+    transactions {
+      zkappCommands {
+        zkappCommand {
+          feePayer {
+            body {
+              fee
+            }
+          }
+          accountUpdates {
+            body {
+              publicKey
+            }
+          }
+        }
+      }
+      userCommands {
+        fee
+      }
+    }
+  }
+}`;
+
 // TODO: Decide an appropriate response structure.
 function sendZkappQuery(json: string) {
   return `mutation {
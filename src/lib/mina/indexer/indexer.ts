@@ -0,0 +1,326 @@
+/**
+ * A local index of the actions and events of a set of zkApps, which doesn't depend on an archive node being available
+ * for every query.
+ */
+import { Field } from '../../provable/wrapped.js';
+import { UInt32 } from '../../provable/int.js';
+import { PublicKey } from '../../provable/crypto/signature.js';
+import { Actions, TokenId } from '../account-update.js';
+import type { ActionStates, Mina } from '../mina-instance.js';
+import type { EventActionFilterOptions } from '../graphql.js';
+import type * as Fetch from '../fetch.js';
+import { type KeyValueStore, InMemoryStore } from './store.js';
+
+export { Indexer };
+
+type FetchedEvents = Awaited<ReturnType<typeof Fetch.fetchEvents>>;
+type StoredActions = { hash: string; actions: string[][] };
+type StoredEvents = Omit<
+  FetchedEvents[number],
+  'blockHeight' | 'globalSlot'
+> & {
+  blockHeight: string;
+  globalSlot: string;
+};
+
+type AccountIndex = { actions: StoredActions[]; events: StoredEvents[] };
+type AccountId = { publicKey: PublicKey; tokenId: Field };
+
+type Indexer = Awaited<ReturnType<typeof Indexer>>;
+
+/**
+ * Creates an indexer which syncs the actions and events of the given accounts from `source` into `store`,
+ * and serves them locally.
+ *
+ * Syncing is incremental: only actions after the latest synced action state, and events of recent blocks, are fetched.
+ * Chain reorganizations are detected by re-fetching the last `reorgDepth` action states and blocks: if they changed,
+ * the index is rolled back to the last known action state before applying the new data.
+ *
+ * ```ts
+ * let indexer = await Indexer({ source: Network, accounts: [zkappAddress], store: JsonFileStore('index.json') });
+ * await indexer.sync();
+ *
+ * // serve `Reducer.fetchActions()` and `SmartContract.fetchEvents()` from the index
+ * Mina.setActiveInstance(indexer.wrap(Network));
+ * ```
+ */
+async function Indexer({
+  source,
+  accounts,
+  store = InMemoryStore(),
+  reorgDepth = 10,
+}: {
+  /**
+   * The Mina instance to fetch actions and events from.
+   */
+  source: Mina;
+  accounts: (PublicKey | { publicKey: PublicKey; tokenId?: Field })[];
+  store?: KeyValueStore;
+  /**
+   * How many action states and blocks are re-fetched on every sync, to detect reorganizations.
+   */
+  reorgDepth?: number;
+}) {
+  let ids: AccountId[] = accounts.map((account) =>
+    account instanceof PublicKey
+      ? { publicKey: account, tokenId: TokenId.default }
+      : {
+          publicKey: account.publicKey,
+          tokenId: account.tokenId ?? TokenId.default,
+        }
+  );
+
+  // the index is kept in memory, and persisted to the store after every change
+  let indexes = new Map<string, AccountIndex>();
+  for (let id of ids) {
+    let json = await store.get(storeKey(id));
+    indexes.set(
+      storeKey(id),
+      json === undefined ? { actions: [], events: [] } : JSON.parse(json)
+    );
+  }
+
+  function getIndex(publicKey: PublicKey, tokenId: Field) {
+    let index = indexes.get(storeKey({ publicKey, tokenId }));
+    if (index === undefined) {
+      throw Error(
+        `Indexer: account ${publicKey.toBase58()} with token id ${TokenId.toBase58(
+          tokenId
+        )} is not indexed.`
+      );
+    }
+    return index;
+  }
+
+  async function save(id: AccountId) {
+    let index = indexes.get(storeKey(id))!;
+    await store.set(storeKey(id), JSON.stringify(index));
+  }
+
+  async function fetchActionsFrom(
+    { publicKey, tokenId }: AccountId,
+    fromActionState?: string
+  ): Promise<StoredActions[]> {
+    let result = await source.fetchActions(
+      publicKey,
+      fromActionState === undefined
+        ? undefined
+        : { fromActionState: Field(fromActionState) },
+      tokenId
+    );
+    if ('error' in result) {
+      throw Error(
+        `Indexer: Failed to fetch actions: ${result.error.statusText}`
+      );
+    }
+    return result;
+  }
+
+  async function syncActions(id: AccountId) {
+    let index = indexes.get(storeKey(id))!;
+    let stored = index.actions;
+
+    // re-fetch the last `reorgDepth` action states, starting from an anchor which is assumed to be final
+    let anchor = Math.max(-1, stored.length - 1 - reorgDepth);
+    let fetched: StoredActions[] | undefined;
+    if (anchor >= 0) {
+      // if the source doesn't know the anchor, the reorganization is deeper than expected
+      fetched = await fetchActionsFrom(id, stored[anchor].hash).catch(
+        () => undefined
+      );
+      if (fetched?.length === 0 && stored.length > anchor + 1) {
+        fetched = undefined;
+      }
+    }
+    if (fetched === undefined) {
+      // start over from the beginning. errors are not caught here: treating a failed fetch as an empty chain
+      // would roll back the entire index
+      anchor = -1;
+      fetched = await fetchActionsFrom(id);
+    }
+
+    // keep stored actions until they diverge from the fetched ones
+    let common = anchor + 1;
+    while (
+      common < stored.length &&
+      common - anchor - 1 < fetched.length &&
+      stored[common].hash === fetched[common - anchor - 1].hash
+    ) {
+      common++;
+    }
+    let rolledBack = stored.length - common;
+    let added = fetched.slice(common - anchor - 1);
+    index.actions = [...stored.slice(0, common), ...added];
+    return { rolledBack, added: added.length };
+  }
+
+  async function syncEvents(id: AccountId) {
+    let index = indexes.get(storeKey(id))!;
+    let lastHeight = Math.max(0, ...index.events.map((e) => +e.blockHeight));
+    let from = Math.max(0, lastHeight - reorgDepth);
+
+    // events of the last `reorgDepth` blocks are replaced, in case they changed
+    let fetched = (
+      await source.fetchEvents(id.publicKey, id.tokenId, {
+        from: UInt32.from(from),
+      })
+    )
+      .filter((e) => Number(e.blockHeight.toBigint()) >= from)
+      .map(
+        (e): StoredEvents => ({
+          ...e,
+          blockHeight: e.blockHeight.toString(),
+          globalSlot: e.globalSlot.toString(),
+        })
+      );
+    index.events = [
+      ...index.events.filter((e) => +e.blockHeight < from),
+      // sorting is stable, so events of the same block keep their order
+      ...fetched.sort((a, b) => +a.blockHeight - +b.blockHeight),
+    ];
+  }
+
+  return {
+    /**
+     * Fetches new actions and events of all indexed accounts from the source, and persists them.
+     *
+     * @returns for every account, how many action lists were added and how many were rolled back because of a reorganization
+     * @throws if fetching from the source fails, in which case the persisted index is left unchanged
+     */
+    async sync() {
+      let results: {
+        publicKey: PublicKey;
+        tokenId: Field;
+        added: number;
+        rolledBack: number;
+      }[] = [];
+      for (let id of ids) {
+        let result = await syncActions(id);
+        await syncEvents(id);
+        await save(id);
+        results.push({ ...id, ...result });
+      }
+      return results;
+    },
+
+    /**
+     * The action state up to which actions of an account are synced.
+     */
+    latestActionState(
+      publicKey: PublicKey,
+      tokenId: Field = TokenId.default
+    ): Field {
+      let { actions } = getIndex(publicKey, tokenId);
+      let latest = actions[actions.length - 1]?.hash;
+      return latest === undefined ? Actions.emptyActionState() : Field(latest);
+    },
+
+    /**
+     * Removes all actions of an account after the given action state. The next `sync()` fetches them again.
+     */
+    async rollback(
+      publicKey: PublicKey,
+      actionState: Field,
+      tokenId: Field = TokenId.default
+    ) {
+      let index = getIndex(publicKey, tokenId);
+      let length = isEmpty(actionState)
+        ? 0
+        : index.actions.findIndex((a) => a.hash === actionState.toString()) + 1;
+      if (length === 0 && !isEmpty(actionState)) {
+        throw Error(
+          `Indexer.rollback: action state ${actionState} is not known.`
+        );
+      }
+      index.actions = index.actions.slice(0, length);
+      await save({ publicKey, tokenId });
+    },
+
+    /**
+     * Returns indexed actions, with the same semantics as `Mina.fetchActions()`.
+     */
+    getActions(
+      publicKey: PublicKey,
+      actionStates?: ActionStates,
+      tokenId: Field = TokenId.default
+    ): StoredActions[] {
+      let { actions } = getIndex(publicKey, tokenId);
+      let { fromActionState, endActionState } = actionStates ?? {};
+
+      let start = 0;
+      if (fromActionState !== undefined && !isEmpty(fromActionState)) {
+        let i = actions.findIndex(
+          (a) => a.hash === fromActionState!.toString()
+        );
+        if (i === -1) throw Error(`getActions: fromActionState not found.`);
+        start = i + 1;
+      }
+      let end = actions.length;
+      if (endActionState !== undefined) {
+        if (isEmpty(endActionState)) return [];
+        let i = actions.findIndex((a) => a.hash === endActionState!.toString());
+        if (i === -1) throw Error(`getActions: endActionState not found.`);
+        end = i + 1;
+      }
+      return actions.slice(start, end);
+    },
+
+    /**
+     * Returns indexed events, with the same semantics as `Mina.fetchEvents()`, ordered by block height.
+     */
+    getEvents(
+      publicKey: PublicKey,
+      tokenId: Field = TokenId.default,
+      { from, to }: EventActionFilterOptions = {}
+    ): FetchedEvents {
+      return getIndex(publicKey, tokenId)
+        .events.filter(
+          (e) =>
+            (from === undefined || from.toBigint() <= BigInt(e.blockHeight)) &&
+            (to === undefined || BigInt(e.blockHeight) <= to.toBigint())
+        )
+        .map((e) => ({
+          ...e,
+          blockHeight: UInt32.from(e.blockHeight),
+          globalSlot: UInt32.from(e.globalSlot),
+        }));
+    },
+
+    /**
+     * Returns a Mina instance which behaves like `instance`, except that actions and events of indexed accounts
+     * are served from the index. This makes `Reducer.fetchActions()` and `SmartContract.fetchEvents()` use the index
+     * when the returned instance is active.
+     */
+    wrap(instance: Mina = source): Mina {
+      let indexer = this;
+      let isIndexed = (publicKey: PublicKey, tokenId = TokenId.default) =>
+        indexes.has(storeKey({ publicKey, tokenId }));
+      return {
+        ...instance,
+        async fetchActions(publicKey, actionStates, tokenId) {
+          if (!isIndexed(publicKey, tokenId))
+            return instance.fetchActions(publicKey, actionStates, tokenId);
+          return indexer.getActions(publicKey, actionStates, tokenId);
+        },
+        getActions(publicKey, actionStates, tokenId) {
+          if (!isIndexed(publicKey, tokenId))
+            return instance.getActions(publicKey, actionStates, tokenId);
+          return indexer.getActions(publicKey, actionStates, tokenId);
+        },
+        async fetchEvents(publicKey, tokenId, filterOptions) {
+          if (!isIndexed(publicKey, tokenId))
+            return instance.fetchEvents(publicKey, tokenId, filterOptions);
+          return indexer.getEvents(publicKey, tokenId, filterOptions);
+        },
+      };
+    },
+  };
+}
+
+function storeKey({ publicKey, tokenId }: AccountId) {
+  return `${publicKey.toBase58()};${TokenId.toBase58(tokenId)}`;
+}
+
+function isEmpty(actionState: Field) {
+  return actionState.equals(Actions.emptyActionState()).toBoolean();
+}
@@ -0,0 +1,65 @@
+/**
+ * Key-value stores in which the indexer persists actions, events and sync progress.
+ */
+import { readFileSync, writeFileSync } from '../../util/fs.js';
+
+export { KeyValueStore, InMemoryStore, JsonFileStore };
+
+/**
+ * A minimal asynchronous key-value interface.
+ *
+ * Implement it to persist indexed data in any database, for example a SQLite table with `key` and `value` columns.
+ */
+type KeyValueStore = {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+};
+
+/**
+ * A store which keeps all data in memory.
+ */
+function InMemoryStore(): KeyValueStore {
+  let entries = new Map<string, string>();
+  return {
+    async get(key) {
+      return entries.get(key);
+    },
+    async set(key, value) {
+      entries.set(key, value);
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * A store which keeps all data in a single JSON file, which is rewritten on every change.
+ *
+ * The file is created on the first write if it doesn't exist.
+ */
+function JsonFileStore(path: string): KeyValueStore {
+  let entries: Record<string, string> = {};
+  try {
+    entries = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err: any) {
+    if (err?.code !== 'ENOENT') throw err;
+  }
+  function write() {
+    writeFileSync(path, JSON.stringify(entries), 'utf8');
+  }
+  return {
+    async get(key) {
+      return entries[key];
+    },
+    async set(key, value) {
+      entries[key] = value;
+      write();
+    },
+    async delete(key) {
+      delete entries[key];
+      write();
+    },
+  };
+}
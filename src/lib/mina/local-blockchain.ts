@@ -3,7 +3,10 @@ import { Ml } from '../ml/conversion.js';
 import { transactionCommitments } from '../../mina-signer/src/sign-zkapp-command.js';
 import { Ledger, Test, initializeBindings } from '../../snarky.js';
 import { Field } from '../provable/wrapped.js';
+import { provable } from '../provable/types/provable-derivers.js';
+import type { InferJson } from '../provable/types/provable-derivers.js';
 import { UInt32, UInt64 } from '../provable/int.js';
+import { Poseidon } from '../provable/crypto/poseidon.js';
 import { PrivateKey, PublicKey } from '../provable/crypto/signature.js';
 import { Account } from './account.js';
 import {
@@ -42,8 +45,16 @@ import {
   verifyAccountUpdate,
 } from './transaction-validation.js';
 import { prettifyStacktrace } from '../util/errors.js';
+import { readFileSync, writeFileSync } from '../util/fs.js';
+import type { NetworkValue } from './precondition.js';
 
-export { LocalBlockchain, TestPublicKey };
+export {
+  LocalBlockchain,
+  TestPublicKey,
+  LocalBlockchainState,
+  NetworkState,
+  slotsPerEpoch,
+};
 
 type TestPublicKey = PublicKey & {
   key: PrivateKey;
@@ -62,47 +73,541 @@ namespace TestPublicKey {
   }
 }
 
+let EpochData = provable({
+  ledger: { hash: Field, totalCurrency: UInt64 },
+  seed: Field,
+  startCheckpoint: Field,
+  lockCheckpoint: Field,
+  epochLength: UInt32,
+});
+
+/**
+ * Provable type of the network state, used to (de)serialize {@link NetworkValue}.
+ */
+const NetworkState = provable({
+  snarkedLedgerHash: Field,
+  blockchainLength: UInt32,
+  minWindowDensity: UInt32,
+  totalCurrency: UInt64,
+  globalSlotSinceGenesis: UInt32,
+  stakingEpochData: EpochData,
+  nextEpochData: EpochData,
+});
+type NetworkState = NetworkValue;
+
+/**
+ * An operation that modified the ledger of a {@link LocalBlockchain}.
+ *
+ * The underlying ledger can't be cloned or enumerated, so its state is captured
+ * by the list of operations that produced it, and restored by replaying them.
+ */
+type LedgerOperation =
+  | { type: 'addAccount'; publicKey: string; balance: string }
+  | {
+      type: 'transaction';
+      transaction: string;
+      networkState: string;
+      // failed transactions still charge the fee payer, so they are replayed as well
+      failed?: true;
+    };
+
+type StoredEvents = {
+  events: {
+    data: string[];
+    transactionInfo: {
+      transactionHash: string;
+      transactionStatus: string;
+      transactionMemo: string;
+    };
+  }[];
+  blockHeight: string;
+  globalSlot: string;
+  blockHash: string;
+  parentBlockHash: string;
+  chainStatus: string;
+};
+type StoredActions = { actions: string[][]; hash: string };
+type StoredBlock = {
+  stateHash: string;
+  parentHash: string;
+  networkState: InferJson<typeof NetworkState>;
+  transactions: string[];
+};
+
+type LocalEvents = {
+  events: {
+    data: Field[];
+    transactionInfo: StoredEvents['events'][number]['transactionInfo'];
+  }[];
+  blockHeight: UInt32;
+  globalSlot: UInt32;
+  blockHash: string;
+  parentBlockHash: string;
+  chainStatus: string;
+};
+
+/**
+ * The full state of a {@link LocalBlockchain}, in a JSON-serializable format.
+ *
+ * Can be obtained with `Local.exportState()` and restored with `LocalBlockchain({ state })`
+ * or `Local.importState(state)`.
+ */
+type LocalBlockchainState = {
+  version: typeof localBlockchainStateVersion;
+  genesisTimestamp: string;
+  blockHash: string;
+  networkState: InferJson<typeof NetworkState>;
+  ledger: LedgerOperation[];
+  testAccounts: string[];
+  events: Record<string, Record<string, StoredEvents[]>>;
+  actions: Record<string, Record<string, StoredActions[]>>;
+  blocks: StoredBlock[];
+};
+// version 2 added the block hash, version 3 added blocks and failed transactions
+const localBlockchainStateVersion = 3;
+
+/**
+ * How transactions sent to a {@link LocalBlockchain} are included in the ledger:
+ * - `'instant'`: every transaction is applied immediately, and the network state only changes when set explicitly
+ * - `'manual'`: transactions are collected in a mempool, and applied in a new block when `produceBlock()` is called
+ * - `{ transactionsPerBlock }`: like `'manual'`, but a block is also produced automatically once the mempool holds `transactionsPerBlock` transactions
+ */
+type BlockProduction = 'instant' | 'manual' | { transactionsPerBlock: number };
+
+const slotsPerEpoch = 7140n;
+
+type LocalBlock = {
+  stateHash: Field;
+  parentHash: Field;
+  networkState: NetworkValue;
+  transactions: string[];
+};
+
 /**
  * A mock Mina blockchain running locally and useful for testing.
+ *
+ * Pass in a `state` previously returned by `exportState()` to resume from it,
+ * instead of starting from a fresh ledger with 10 new test accounts.
+ *
+ * By default, transactions are applied as soon as they are sent. Pass in `blockProduction: 'manual'`
+ * to simulate a mempool and blocks instead, see {@link BlockProduction}.
  */
 async function LocalBlockchain({
   proofsEnabled = true,
   enforceTransactionLimits = true,
+  state,
+  blockProduction = 'instant',
+}: {
+  proofsEnabled?: boolean;
+  enforceTransactionLimits?: boolean;
+  state?: LocalBlockchainState;
+  blockProduction?: BlockProduction;
 } = {}) {
   await initializeBindings();
   const slotTime = 3 * 60 * 1000;
-  const startTime = Date.now();
-  const genesisTimestamp = UInt64.from(startTime);
-  const ledger = Ledger.create();
+  let startTime = Date.now();
+  let genesisTimestamp = UInt64.from(startTime);
+  let ledger = Ledger.create();
+  let ledgerLog: LedgerOperation[] = [];
   let networkState = defaultNetworkState();
 
+  let events: Record<string, Record<string, LocalEvents[]>> = {};
+  let actions: Record<string, Record<string, StoredActions[]>> = {};
+
+  let blockHash = Field(0);
+  let mempool: {
+    hash: string;
+    transaction: ZkappCommand;
+    zkappCommandJson: Types.Json.ZkappCommand;
+    commitment: Field;
+  }[] = [];
+  // results of transactions that were applied, by transaction hash
+  let transactionResults = new Map<
+    string,
+    { errors: string[]; failures: string[][][] }
+  >();
+  let blocks: LocalBlock[] = [];
+
+  let snapshots = new Map<number, LocalBlockchainState>();
+  let nextSnapshotId = 0;
+
   function addAccount(publicKey: PublicKey, balance: string) {
+    applyLedgerOperation({
+      type: 'addAccount',
+      publicKey: publicKey.toBase58(),
+      balance,
+    });
+  }
+
+  /**
+   * Applies an operation to a ledger, by default the current one, and records it in the ledger's log.
+   */
+  function applyLedgerOperation(
+    operation: LedgerOperation,
+    target = { ledger, log: ledgerLog }
+  ) {
     try {
-      ledger.addAccount(Ml.fromPublicKey(publicKey), balance);
+      if (operation.type === 'addAccount') {
+        let publicKey = PublicKey.fromBase58(operation.publicKey);
+        target.ledger.addAccount(
+          Ml.fromPublicKey(publicKey),
+          operation.balance
+        );
+      } else {
+        target.ledger.applyJsonTransaction(
+          operation.transaction,
+          defaultNetworkConstants.accountCreationFee.toString(),
+          operation.networkState
+        );
+      }
     } catch (error) {
+      if (operation.type === 'transaction') {
+        target.log.push({ ...operation, failed: true });
+      }
       throw prettifyStacktrace(error);
     }
+    target.log.push(operation);
   }
 
-  let testAccounts = [] as never as TupleN<TestPublicKey, 10>;
+  /**
+   * Applies a transaction to the ledger and stores its events and actions.
+   *
+   * Returns the errors that caused the transaction to fail, if any.
+   */
+  function applyTransaction(
+    hash: string,
+    transaction: ZkappCommand,
+    zkappCommandJson: Types.Json.ZkappCommand,
+    stateView: NetworkValue,
+    blockHeight: UInt32
+  ): string[] {
+    const errors: string[] = [];
+    let failures: string[][][] = [];
+    try {
+      applyLedgerOperation({
+        type: 'transaction',
+        transaction: JSON.stringify(zkappCommandJson),
+        networkState: JSON.stringify(stateView),
+      });
+    } catch (err: any) {
+      try {
+        const errorMessages = JSON.parse(err.message);
+        failures = structuredClone(errorMessages);
+        const formattedError = invalidTransactionError(
+          transaction,
+          errorMessages,
+          {
+            accountCreationFee:
+              defaultNetworkConstants.accountCreationFee.toString(),
+          }
+        );
+        errors.push(formattedError);
+      } catch (parseError: any) {
+        const fallbackErrorMessage =
+          err.message || parseError.message || 'Unknown error occurred';
+        errors.push(fallbackErrorMessage);
+      }
+    }
+
+    // fetches all events from the transaction and stores them
+    // events are identified and associated with a publicKey and tokenId
+    transaction.accountUpdates.forEach((p, i) => {
+      let pJson = zkappCommandJson.accountUpdates[i];
+      let addr = pJson.body.publicKey;
+      let tokenId = pJson.body.tokenId;
+      events[addr] ??= {};
+      if (p.body.events.data.length > 0) {
+        events[addr][tokenId] ??= [];
+        let updatedEvents = p.body.events.data.map((data) => {
+          return {
+            data,
+            transactionInfo: {
+              transactionHash: '',
+              transactionStatus: '',
+              transactionMemo: '',
+            },
+          };
+        });
+        events[addr][tokenId].push({
+          events: updatedEvents,
+          blockHeight,
+          globalSlot: stateView.globalSlotSinceGenesis,
+          // The following fields are fetched from the Mina network. For now, we mock these values out
+          // since networkState does not contain these fields.
+          blockHash: '',
+          parentBlockHash: '',
+          chainStatus: '',
+        });
+      }
+
+      // actions/sequencing events
+
+      // most recent action state
+      let storedActions = actions[addr]?.[tokenId];
+      let latestActionState_ = storedActions?.[storedActions.length - 1]?.hash;
+      // if there exists no hash, this means we initialize our latest hash with the empty state
+      let latestActionState =
+        latestActionState_ !== undefined
+          ? Field(latestActionState_)
+          : Actions.emptyActionState();
 
-  for (let i = 0; i < 10; ++i) {
-    let MINA = 10n ** 9n;
-    const largeValue = 1000n * MINA;
-    const testAccount = TestPublicKey.random();
-    addAccount(testAccount, largeValue.toString());
-    testAccounts.push(testAccount);
+      actions[addr] ??= {};
+      if (p.body.actions.data.length > 0) {
+        let newActionState = Actions.updateSequenceState(
+          latestActionState,
+          p.body.actions.hash
+        );
+        actions[addr][tokenId] ??= [];
+        actions[addr][tokenId].push({
+          actions: pJson.body.actions,
+          hash: newActionState.toString(),
+        });
+      }
+    });
+
+    transactionResults.set(hash, { errors, failures });
+    return errors;
   }
 
-  const events: Record<string, any> = {};
-  const actions: Record<
-    string,
-    Record<string, { actions: string[][]; hash: string }[]>
-  > = {};
+  /**
+   * Applies all transactions in the mempool in a new block, and advances the network state.
+   */
+  function produceBlock({ slots = 1 }: { slots?: number } = {}) {
+    if (slots < 1) {
+      throw Error(`produceBlock(): Expected slots >= 1, got ${slots}.`);
+    }
+    let parentState = networkState;
+    let globalSlot = parentState.globalSlotSinceGenesis.add(slots);
+    let blockchainLength = parentState.blockchainLength.add(1);
+
+    // transactions are checked against the state of the parent block, except for the global slot
+    let stateView = { ...parentState, globalSlotSinceGenesis: globalSlot };
+    let transactions = mempool.splice(0, mempool.length).map((tx) => {
+      let errors = applyTransaction(
+        tx.hash,
+        tx.transaction,
+        tx.zkappCommandJson,
+        stateView,
+        blockchainLength
+      );
+      return { hash: tx.hash, commitment: tx.commitment, errors };
+    });
+
+    // we can't compute the actual ledger hash, so we commit to the ledger by chaining the applied transactions
+    let snarkedLedgerHash = Poseidon.hash([
+      parentState.snarkedLedgerHash,
+      ...transactions.map((tx) => tx.commitment),
+    ]);
+    let parentBlockHash = blockHash;
+    blockHash = Poseidon.hash([
+      parentBlockHash,
+      snarkedLedgerHash,
+      blockchainLength.value,
+      globalSlot.value,
+    ]);
+
+    let stakingEpochData = parentState.stakingEpochData;
+    let nextEpochData = { ...parentState.nextEpochData };
+    let epoch = globalSlot.toBigint() / slotsPerEpoch;
+    let parentEpoch =
+      parentState.globalSlotSinceGenesis.toBigint() / slotsPerEpoch;
+
+    if (epoch > parentEpoch) {
+      // epoch transition: the next epoch becomes the staking epoch
+      stakingEpochData = nextEpochData;
+      nextEpochData = {
+        ledger: {
+          hash: parentState.snarkedLedgerHash,
+          totalCurrency: parentState.totalCurrency,
+        },
+        seed: stakingEpochData.seed,
+        startCheckpoint: parentBlockHash,
+        lockCheckpoint: stakingEpochData.lockCheckpoint,
+        epochLength: UInt32.one,
+      };
+    } else {
+      nextEpochData.epochLength = nextEpochData.epochLength.add(1);
+    }
+    // the seed is updated in the first 2/3 of each epoch, after which it is locked
+    if ((globalSlot.toBigint() % slotsPerEpoch) * 3n < slotsPerEpoch * 2n) {
+      nextEpochData.seed = Poseidon.hash([nextEpochData.seed, blockHash]);
+      nextEpochData.lockCheckpoint = parentBlockHash;
+    }
+
+    networkState = {
+      ...parentState,
+      snarkedLedgerHash,
+      blockchainLength,
+      globalSlotSinceGenesis: globalSlot,
+      stakingEpochData,
+      nextEpochData,
+    };
+    blocks.push({
+      stateHash: blockHash,
+      parentHash: parentBlockHash,
+      networkState,
+      transactions: transactions.map((tx) => tx.hash),
+    });
+
+    return {
+      blockchainLength,
+      globalSlot,
+      blockHash,
+      transactions: transactions.map(({ hash, errors }) => ({
+        hash,
+        status:
+          errors.length === 0 ? ('included' as const) : ('rejected' as const),
+        errors,
+      })),
+    };
+  }
+
+  /**
+   * Like a Mina node, infers the fee payer nonce from the sender's transactions in the mempool,
+   * so that several transactions from the same sender can be included in one block.
+   */
+  function withInferredNonce(feePayer: FeePayerSpec): FeePayerSpec {
+    let spec = feePayer instanceof PublicKey ? { sender: feePayer } : feePayer;
+    if (spec === undefined || spec.nonce !== undefined) return feePayer;
+    let { sender } = spec;
+    let pendingNonces = mempool
+      .map((tx) => tx.transaction.feePayer.body)
+      .filter((body) => body.publicKey.equals(sender).toBoolean())
+      .map((body) => body.nonce.toBigint());
+    if (pendingNonces.length === 0) return feePayer;
+    let nonce = pendingNonces.reduce((a, b) => (a > b ? a : b)) + 1n;
+    return { ...spec, nonce: Number(nonce) };
+  }
+
+  function exportState(): LocalBlockchainState {
+    let exportedEvents: LocalBlockchainState['events'] = {};
+    for (let [address, byToken] of Object.entries(events)) {
+      exportedEvents[address] = {};
+      for (let [tokenId, stored] of Object.entries(byToken)) {
+        exportedEvents[address][tokenId] = stored.map((e) => ({
+          ...e,
+          events: e.events.map((event) => ({
+            ...event,
+            data: event.data.map((x) => x.toString()),
+          })),
+          blockHeight: e.blockHeight.toString(),
+          globalSlot: e.globalSlot.toString(),
+        }));
+      }
+    }
+    return {
+      version: localBlockchainStateVersion,
+      genesisTimestamp: genesisTimestamp.toString(),
+      blockHash: blockHash.toString(),
+      networkState: NetworkState.toJSON(networkState),
+      ledger: [...ledgerLog],
+      testAccounts: testAccounts.map((account) => account.key.toBase58()),
+      events: exportedEvents,
+      actions: structuredClone(actions),
+      blocks: blocks.map((block) => ({
+        stateHash: block.stateHash.toString(),
+        parentHash: block.parentHash.toString(),
+        networkState: NetworkState.toJSON(block.networkState),
+        transactions: [...block.transactions],
+      })),
+    };
+  }
+
+  function importState(state: LocalBlockchainState) {
+    if (state.version !== localBlockchainStateVersion) {
+      throw Error(
+        `LocalBlockchain: Unsupported state version ${state.version}, expected ${localBlockchainStateVersion}.`
+      );
+    }
+
+    // replay all operations on a fresh ledger.
+    // transactions that failed originally are expected to fail again, with the same effect on the ledger
+    let replayed = { ledger: Ledger.create(), log: [] as LedgerOperation[] };
+    state.ledger.forEach((operation, i) => {
+      let error: unknown;
+      try {
+        applyLedgerOperation(operation, replayed);
+      } catch (err) {
+        error = err;
+      }
+      let expectFailure = operation.type === 'transaction' && operation.failed;
+      if (expectFailure && error === undefined) {
+        throw Error(
+          `LocalBlockchain: Failed to import state, transaction ${i} of the ledger succeeded but originally failed.`
+        );
+      }
+      if (!expectFailure && error !== undefined) {
+        let message = error instanceof Error ? error.message : String(error);
+        throw Error(
+          `LocalBlockchain: Failed to import state, ledger operation ${i} (${operation.type}) failed:\n${message}`
+        );
+      }
+    });
+
+    let importedEvents: typeof events = {};
+    for (let [address, byToken] of Object.entries(state.events)) {
+      importedEvents[address] = {};
+      for (let [tokenId, stored] of Object.entries(byToken)) {
+        importedEvents[address][tokenId] = stored.map((e) => ({
+          ...e,
+          events: e.events.map((event) => ({
+            ...event,
+            data: event.data.map((x) => Field(x)),
+          })),
+          blockHeight: UInt32.from(e.blockHeight),
+          globalSlot: UInt32.from(e.globalSlot),
+        }));
+      }
+    }
+    let importedBlocks = state.blocks.map((block) => ({
+      stateHash: Field(block.stateHash),
+      parentHash: Field(block.parentHash),
+      networkState: NetworkState.fromJSON(block.networkState),
+      transactions: [...block.transactions],
+    }));
+    let importedTestAccounts = state.testAccounts.map((key) =>
+      TestPublicKey(PrivateKey.fromBase58(key))
+    );
+    let importedNetworkState = NetworkState.fromJSON(state.networkState);
+    let importedGenesisTimestamp = UInt64.from(state.genesisTimestamp);
+    let importedBlockHash = Field(state.blockHash);
+
+    // only replace the current state once the imported one is complete, so that a failed import changes nothing
+    startTime = Number(state.genesisTimestamp);
+    genesisTimestamp = importedGenesisTimestamp;
+    networkState = importedNetworkState;
+    blockHash = importedBlockHash;
+    mempool = [];
+    transactionResults = new Map();
+    blocks = importedBlocks;
+    ledger = replayed.ledger;
+    ledgerLog = replayed.log;
+    testAccounts.splice(0, testAccounts.length, ...importedTestAccounts);
+    events = importedEvents;
+    actions = structuredClone(state.actions);
+  }
+
+  let testAccounts = [] as never as TupleN<TestPublicKey, 10>;
+
+  if (state !== undefined) {
+    importState(state);
+  } else {
+    for (let i = 0; i < 10; ++i) {
+      let MINA = 10n ** 9n;
+      const largeValue = 1000n * MINA;
+      const testAccount = TestPublicKey.random();
+      addAccount(testAccount, largeValue.toString());
+      testAccounts.push(testAccount);
+    }
+  }
 
   return {
     getNetworkId: () => 'testnet' as NetworkId,
     proofsEnabled,
+    /**
+     * How transactions are included in the ledger, see {@link BlockProduction}.
+     */
+    blockProduction,
     getNetworkConstants() {
       return {
         ...defaultNetworkConstants,
@@ -110,6 +615,9 @@ async function LocalBlockchain({
       };
     },
     currentSlot() {
+      if (blockProduction !== 'instant') {
+        return networkState.globalSlotSinceGenesis;
+      }
       return UInt32.from(
         Math.ceil((new Date().valueOf() - startTime) / slotTime)
       );
@@ -194,93 +702,35 @@ async function LocalBlockchain({
           }
         }
 
+        let test = await Test();
+        const hash = test.transactionHash.hashZkAppCommand(txn.toJSON());
+
         let status: PendingTransactionStatus = 'pending';
-        const errors: string[] = [];
-        try {
-          ledger.applyJsonTransaction(
-            JSON.stringify(zkappCommandJson),
-            defaultNetworkConstants.accountCreationFee.toString(),
-            JSON.stringify(networkState)
+        let errors: string[] = [];
+        if (blockProduction === 'instant') {
+          errors = applyTransaction(
+            hash,
+            txn.transaction,
+            zkappCommandJson,
+            networkState,
+            networkState.blockchainLength
           );
-        } catch (err: any) {
-          status = 'rejected';
-          try {
-            const errorMessages = JSON.parse(err.message);
-            const formattedError = invalidTransactionError(
-              txn.transaction,
-              errorMessages,
-              {
-                accountCreationFee:
-                  defaultNetworkConstants.accountCreationFee.toString(),
-              }
-            );
-            errors.push(formattedError);
-          } catch (parseError: any) {
-            const fallbackErrorMessage =
-              err.message || parseError.message || 'Unknown error occurred';
-            errors.push(fallbackErrorMessage);
+          if (errors.length > 0) status = 'rejected';
+        } else {
+          mempool.push({
+            hash,
+            transaction: txn.transaction,
+            zkappCommandJson,
+            commitment: Field(commitments.fullCommitment),
+          });
+          if (
+            typeof blockProduction === 'object' &&
+            mempool.length >= blockProduction.transactionsPerBlock
+          ) {
+            produceBlock();
           }
         }
 
-        // fetches all events from the transaction and stores them
-        // events are identified and associated with a publicKey and tokenId
-        txn.transaction.accountUpdates.forEach((p, i) => {
-          let pJson = zkappCommandJson.accountUpdates[i];
-          let addr = pJson.body.publicKey;
-          let tokenId = pJson.body.tokenId;
-          events[addr] ??= {};
-          if (p.body.events.data.length > 0) {
-            events[addr][tokenId] ??= [];
-            let updatedEvents = p.body.events.data.map((data) => {
-              return {
-                data,
-                transactionInfo: {
-                  transactionHash: '',
-                  transactionStatus: '',
-                  transactionMemo: '',
-                },
-              };
-            });
-            events[addr][tokenId].push({
-              events: updatedEvents,
-              blockHeight: networkState.blockchainLength,
-              globalSlot: networkState.globalSlotSinceGenesis,
-              // The following fields are fetched from the Mina network. For now, we mock these values out
-              // since networkState does not contain these fields.
-              blockHash: '',
-              parentBlockHash: '',
-              chainStatus: '',
-            });
-          }
-
-          // actions/sequencing events
-
-          // most recent action state
-          let storedActions = actions[addr]?.[tokenId];
-          let latestActionState_ =
-            storedActions?.[storedActions.length - 1]?.hash;
-          // if there exists no hash, this means we initialize our latest hash with the empty state
-          let latestActionState =
-            latestActionState_ !== undefined
-              ? Field(latestActionState_)
-              : Actions.emptyActionState();
-
-          actions[addr] ??= {};
-          if (p.body.actions.data.length > 0) {
-            let newActionState = Actions.updateSequenceState(
-              latestActionState,
-              p.body.actions.hash
-            );
-            actions[addr][tokenId] ??= [];
-            actions[addr][tokenId].push({
-              actions: pJson.body.actions,
-              hash: newActionState.toString(),
-            });
-          }
-        });
-
-        let test = await Test();
-        const hash = test.transactionHash.hashZkAppCommand(txn.toJSON());
         const pendingTransaction: Omit<
           PendingTransaction,
           'wait' | 'safeWait'
@@ -318,6 +768,14 @@ async function LocalBlockchain({
               pendingTransaction.errors
             );
           }
+          if (blockProduction !== 'instant') {
+            // like a block producer eventually would, include the transaction if it is still in the mempool
+            if (!transactionResults.has(hash)) produceBlock();
+            let blockErrors = transactionResults.get(hash)?.errors ?? [];
+            if (blockErrors.length > 0) {
+              return createRejectedTransaction(pendingTransaction, blockErrors);
+            }
+          }
           return createIncludedTransaction(pendingTransaction);
         };
 
@@ -330,6 +788,7 @@ async function LocalBlockchain({
     },
     transaction(sender: FeePayerSpec, f: () => Promise<void>) {
       return toTransactionPromise(async () => {
+        sender = withInferredNonce(sender);
         // TODO we run the transaction twice to match the behavior of `Network.transaction`
         let tx = await createTransaction(sender, f, 0, {
           isFinalRunOutsideCircuit: false,
@@ -346,18 +805,29 @@ async function LocalBlockchain({
       });
     },
     applyJsonTransaction(json: string) {
-      return ledger.applyJsonTransaction(
-        json,
-        defaultNetworkConstants.accountCreationFee.toString(),
-        JSON.stringify(networkState)
-      );
+      return applyLedgerOperation({
+        type: 'transaction',
+        transaction: json,
+        networkState: JSON.stringify(networkState),
+      });
     },
     async fetchEvents(publicKey: PublicKey, tokenId: Field = TokenId.default) {
       // Return events in reverse chronological order (latest events at the beginning)
-      const reversedEvents = (
-        events?.[publicKey.toBase58()]?.[TokenId.toBase58(tokenId)] ?? []
-      ).reverse();
-      return reversedEvents;
+      const reversedEvents = [
+        ...(events?.[publicKey.toBase58()]?.[TokenId.toBase58(tokenId)] ?? []),
+      ].reverse();
+      // return events in the same format as an archive node
+      return reversedEvents.map(({ events, ...block }) => ({
+        ...block,
+        events: events.map(({ data, transactionInfo }) => ({
+          data: data.map((x) => x.toString()),
+          transactionInfo: {
+            hash: transactionInfo.transactionHash,
+            memo: transactionInfo.transactionMemo,
+            status: transactionInfo.transactionStatus,
+          },
+        })),
+      }));
     },
     async fetchActions(
       publicKey: PublicKey,
@@ -366,6 +836,12 @@ async function LocalBlockchain({
     ) {
       return this.getActions(publicKey, actionStates, tokenId);
     },
+    /**
+     * There is no fee market on a local blockchain, so no recent fees are reported.
+     */
+    async fetchRecentFees() {
+      return [];
+    },
     getActions(
       publicKey: PublicKey,
       actionStates?: ActionStates,
@@ -419,6 +895,116 @@ async function LocalBlockchain({
     setProofsEnabled(newProofsEnabled: boolean) {
       this.proofsEnabled = newProofsEnabled;
     },
+    /**
+     * Produces a new block which includes all transactions in the mempool,
+     * and advances the blockchain length, global slot, epoch data and ledger hash.
+     *
+     * Only available with `blockProduction` other than `'instant'`.
+     *
+     * @param options.slots the number of slots between the last block and the new one, defaults to 1
+     */
+    produceBlock(options?: { slots?: number }) {
+      if (blockProduction === 'instant') {
+        throw Error(
+          `produceBlock(): Not available when transactions are applied instantly. Use \`LocalBlockchain({ blockProduction: 'manual' })\`.`
+        );
+      }
+      return produceBlock(options);
+    },
+    /**
+     * Returns the hashes of transactions in the mempool, which will be included in the next block.
+     */
+    getMempool() {
+      return mempool.map((tx) => tx.hash);
+    },
+    /**
+     * Returns all blocks produced so far, oldest first.
+     */
+    getBlocks() {
+      return [...blocks];
+    },
+    /**
+     * Returns the status of a transaction sent to this blockchain, by transaction hash.
+     *
+     * For rejected transactions, `failures` contains the raw failure reasons for the fee payer and each account update.
+     */
+    getTransactionResult(hash: string):
+      | { status: 'pending' }
+      | {
+          status: 'included' | 'rejected';
+          errors: string[];
+          failures: string[][][];
+        }
+      | undefined {
+      if (mempool.some((tx) => tx.hash === hash)) return { status: 'pending' };
+      let result = transactionResults.get(hash);
+      if (result === undefined) return undefined;
+      return {
+        status: result.errors.length === 0 ? 'included' : 'rejected',
+        ...result,
+      };
+    },
+    /**
+     * Returns the full state of the blockchain (ledger, network state, test accounts, events, actions and blocks)
+     * as a JSON-serializable object.
+     *
+     * Transactions in the mempool are not part of the exported state, but all produced blocks are.
+     *
+     * The state can be restored with `importState()`, or passed to `LocalBlockchain({ state })`.
+     */
+    exportState,
+    /**
+     * Replaces the full state of the blockchain by one previously returned from `exportState()`.
+     *
+     * @throws if replaying the ledger of the state doesn't reproduce the original outcome of every operation,
+     * which means the state is corrupt or was created by an incompatible version of o1js.
+     */
+    importState,
+    /**
+     * Writes the full state of the blockchain to a JSON file.
+     */
+    saveState(path: string) {
+      writeFileSync(path, JSON.stringify(exportState()), 'utf8');
+    },
+    /**
+     * Restores the full state of the blockchain from a JSON file written by `saveState()`.
+     */
+    loadState(path: string) {
+      importState(JSON.parse(readFileSync(path, 'utf8')));
+    },
+    /**
+     * Takes an in-memory snapshot of the current state of the blockchain,
+     * and returns an id which can be passed to `revert()`.
+     *
+     * @example
+     * ```ts
+     * // deploy contracts once
+     * let snapshot = Local.snapshot();
+     *
+     * // in each test case
+     * Local.revert(snapshot);
+     * ```
+     */
+    snapshot() {
+      let id = nextSnapshotId++;
+      snapshots.set(id, exportState());
+      return id;
+    },
+    /**
+     * Reverts the blockchain to the state at the time `snapshot()` returned the given id.
+     *
+     * The snapshot can be reverted to again later. Snapshots taken after it are discarded.
+     */
+    revert(id: number) {
+      let state = snapshots.get(id);
+      if (state === undefined) {
+        throw Error(`LocalBlockchain.revert(): Snapshot ${id} not found.`);
+      }
+      importState(state);
+      for (let laterId of snapshots.keys()) {
+        if (laterId > id) snapshots.delete(laterId);
+      }
+    },
   };
 }
 // assert type compatibility without preventing LocalBlockchain to return additional properties / methods
@@ -0,0 +1,504 @@
+/**
+ * A GraphQL server which emulates a Mina node and archive node, backed by a {@link LocalBlockchain}.
+ *
+ * It answers the queries that `graphql.ts` emits, so that the `Mina.Network` code path can be tested offline.
+ */
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Field } from '../provable/wrapped.js';
+import { PublicKey } from '../provable/crypto/signature.js';
+import { Types } from '../../bindings/mina-transaction/types.js';
+import { Actions, TokenId, ZkappCommand } from './account-update.js';
+import {
+  LedgerHash,
+  EpochSeed,
+  ReceiptChainHash,
+  StateHash,
+} from './base58-encodings.js';
+import { newTransaction } from './transaction.js';
+import type { NetworkValue } from './precondition.js';
+import type {
+  ActionQueryResponse,
+  EpochData,
+  EventQueryResponse,
+  FetchedAccount,
+  FetchedBlock,
+  FailureReasonResponse,
+  GenesisConstantsResponse,
+  TransactionStatus,
+  TransactionStatusQueryResponse,
+} from './graphql.js';
+import { LocalBlockchain, slotsPerEpoch } from './local-blockchain.js';
+
+export { LocalGraphqlServer, handleGraphqlQuery };
+
+type Local = Awaited<ReturnType<typeof LocalBlockchain>>;
+
+type GraphqlData =
+  | { sendZkapp: Awaited<ReturnType<typeof sendZkapp>> }
+  | { account: FetchedAccount | null }
+  | { bestChain: ReturnType<typeof bestChain> }
+  | GenesisConstantsResponse
+  | TransactionStatusQueryResponse
+  | EventQueryResponse
+  | ActionQueryResponse;
+
+type GraphqlResponse = { data?: GraphqlData; errors?: { message: string }[] };
+
+type Block = {
+  stateHash: Field;
+  parentHash: Field;
+  networkState: NetworkValue;
+  transactions: string[];
+};
+
+/**
+ * Starts a GraphQL server which emulates a Mina node and archive node on top of a {@link LocalBlockchain}.
+ *
+ * The same endpoint serves both node and archive queries.
+ *
+ * @example
+ * ```ts
+ * let Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+ * let server = await Mina.LocalGraphqlServer(Local, { port: 8080 });
+ *
+ * Mina.setActiveInstance(
+ *   Mina.Network({ mina: server.endpoint, archive: server.endpoint })
+ * );
+ * // ...
+ * await server.close();
+ * ```
+ *
+ * @param options.port the port to listen on, defaults to a random free port
+ * @param options.blockInterval if the blockchain uses block production, produce a block every `blockInterval` milliseconds
+ *
+ * @throws if `blockInterval` is set, but the blockchain applies transactions instantly
+ */
+async function LocalGraphqlServer(
+  local: Local,
+  { port = 0, blockInterval }: { port?: number; blockInterval?: number } = {}
+) {
+  if (blockInterval !== undefined && local.blockProduction === 'instant') {
+    throw Error(
+      `LocalGraphqlServer: \`blockInterval\` requires block production, use \`LocalBlockchain({ blockProduction: 'manual' })\`.`
+    );
+  }
+  let submitted: string[] = [];
+
+  let server = createServer((request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+    response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204).end();
+      return;
+    }
+    if (request.method !== 'POST') {
+      response.writeHead(405).end();
+      return;
+    }
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', async () => {
+      let result: GraphqlResponse;
+      try {
+        let { query } = JSON.parse(body);
+        result = await handleGraphqlQuery(local, query, submitted);
+      } catch (error: any) {
+        result = { errors: [{ message: error?.message ?? String(error) }] };
+      }
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(result));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  let actualPort = (server.address() as AddressInfo).port;
+
+  let timer =
+    blockInterval !== undefined
+      ? setInterval(() => local.produceBlock(), blockInterval)
+      : undefined;
+
+  return {
+    port: actualPort,
+    endpoint: `http://localhost:${actualPort}/graphql`,
+    /**
+     * Stops the server.
+     */
+    close() {
+      clearInterval(timer);
+      return new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+}
+
+/**
+ * Answers a GraphQL query, as sent by `fetch.ts`, from the state of a {@link LocalBlockchain}.
+ *
+ * Only the root field and its arguments are interpreted: the response always contains all fields which o1js queries.
+ *
+ * @param submitted hashes of transactions submitted through `sendZkapp`, which are reported in the best chain
+ */
+async function handleGraphqlQuery(
+  local: Local,
+  query: string,
+  submitted: string[] = []
+): Promise<GraphqlResponse> {
+  let match: RegExpMatchArray | null;
+  try {
+    if ((match = query.match(/sendZkapp\s*\(\s*input\s*:/)) !== null) {
+      let start = query.indexOf(
+        '{',
+        query.indexOf('zkappCommand', match.index)
+      );
+      let json = JSON.parse(addJsonQuotes(extractObject(query, start)));
+      return { data: { sendZkapp: await sendZkapp(local, json, submitted) } };
+    }
+    if (
+      (match = query.match(
+        /account\s*\(\s*publicKey\s*:\s*"([^"]*)"\s*,\s*token\s*:\s*"([^"]*)"\s*\)/
+      )) !== null
+    ) {
+      return { data: { account: getAccount(local, match[1], match[2]) } };
+    }
+    if ((match = query.match(/bestChain\s*\(\s*maxLength\s*:\s*(\d+)\s*\)/))) {
+      return { data: { bestChain: bestChain(local, +match[1], submitted) } };
+    }
+    if (/genesisConstants/.test(query)) {
+      return genesisConstants(local);
+    }
+    if (
+      (match = query.match(
+        /transactionStatus\s*\(\s*zkappTransaction\s*:\s*"([^"]*)"\s*\)/
+      )) !== null
+    ) {
+      let result = local.getTransactionResult(match[1]);
+      let transactionStatus: TransactionStatus =
+        result === undefined
+          ? 'UNKNOWN'
+          : result.status === 'pending'
+          ? 'PENDING'
+          : 'INCLUDED';
+      return { data: { transactionStatus } };
+    }
+    if ((match = query.match(/events\s*\(\s*input\s*:\s*\{([^}]*)\}/))) {
+      return { data: { events: await getEvents(local, parseInput(match[1])) } };
+    }
+    if ((match = query.match(/actions\s*\(\s*input\s*:\s*\{([^}]*)\}/))) {
+      return { data: { actions: getActions(local, parseInput(match[1])) } };
+    }
+  } catch (error: any) {
+    return { errors: [{ message: error?.message ?? String(error) }] };
+  }
+  return { errors: [{ message: `Unsupported query: ${query}` }] };
+}
+
+// query handlers
+
+async function sendZkapp(
+  local: Local,
+  json: Types.Json.ZkappCommand,
+  submitted: string[]
+) {
+  let transaction = newTransaction(
+    ZkappCommand.fromJSON(json),
+    local.proofsEnabled
+  );
+  let pending = await local.sendTransaction(transaction);
+  submitted.push(pending.hash);
+  return {
+    zkapp: {
+      hash: pending.hash,
+      id: pending.hash,
+      failureReason: null,
+      zkappCommand: json,
+    },
+  };
+}
+
+function getAccount(
+  local: Local,
+  publicKeyBase58: string,
+  tokenBase58: string
+): FetchedAccount | null {
+  let publicKey = PublicKey.fromBase58(publicKeyBase58);
+  let tokenId = TokenId.fromBase58(tokenBase58);
+  if (!local.hasAccount(publicKey, tokenId)) return null;
+  let fullAccount = local.getAccount(publicKey, tokenId);
+  let account = Types.Account.toJSON(fullAccount);
+  let { timing, zkapp } = account;
+  return {
+    publicKey: account.publicKey,
+    token: account.tokenId,
+    nonce: account.nonce,
+    balance: { total: account.balance },
+    tokenSymbol: account.tokenSymbol,
+    receiptChainHash: ReceiptChainHash.toBase58(fullAccount.receiptChainHash),
+    timing: timing.isTimed
+      ? {
+          initialMinimumBalance: timing.initialMinimumBalance,
+          cliffTime: timing.cliffTime,
+          cliffAmount: timing.cliffAmount,
+          vestingPeriod: timing.vestingPeriod,
+          vestingIncrement: timing.vestingIncrement,
+        }
+      : {
+          initialMinimumBalance: null,
+          cliffTime: null,
+          cliffAmount: null,
+          vestingPeriod: null,
+          vestingIncrement: null,
+        },
+    permissions: account.permissions,
+    delegateAccount:
+      account.delegate !== null ? { publicKey: account.delegate } : null,
+    votingFor: account.votingFor,
+    zkappState: zkapp?.appState ?? null,
+    verificationKey:
+      zkapp?.verificationKey != null
+        ? {
+            verificationKey: zkapp.verificationKey.data,
+            hash: zkapp.verificationKey.hash,
+          }
+        : null,
+    actionState: zkapp?.actionState ?? null,
+    provedState: zkapp?.provedState ?? null,
+    zkappUri: zkapp?.zkappUri ?? null,
+  };
+}
+
+function bestChain(local: Local, maxLength: number, submitted: string[]) {
+  let blocks: Block[] = local.getBlocks();
+  if (blocks.length === 0) {
+    // transactions are applied instantly, so we report them all in a single block
+    blocks = [
+      {
+        stateHash: Field(0),
+        parentHash: Field(0),
+        networkState: local.getNetworkState(),
+        transactions: submitted,
+      },
+    ];
+  }
+  return blocks
+    .slice(-maxLength)
+    .reverse()
+    .map((block) => ({
+      stateHash: StateHash.toBase58(block.stateHash),
+      ...toFetchedBlock(block),
+      transactions: {
+        zkappCommands: block.transactions.map((hash) => ({
+          hash,
+          failureReason: failureReason(local, hash),
+        })),
+      },
+    }));
+}
+
+function genesisConstants(local: Local): GraphqlResponse {
+  let { genesisTimestamp, slotTime, accountCreationFee } =
+    local.getNetworkConstants();
+  return {
+    data: {
+      genesisConstants: {
+        genesisTimestamp: new Date(
+          Number(genesisTimestamp.toBigInt())
+        ).toISOString(),
+        coinbase: '720000000000',
+        accountCreationFee: accountCreationFee.toString(),
+      },
+      daemonStatus: {
+        consensusConfiguration: {
+          epochDuration: (slotTime.toBigInt() * slotsPerEpoch).toString(),
+          k: '290',
+          slotDuration: slotTime.toString(),
+          slotsPerEpoch: slotsPerEpoch.toString(),
+        },
+      },
+    },
+  };
+}
+
+async function getEvents(local: Local, input: Record<string, string>) {
+  let publicKey = PublicKey.fromBase58(input.address);
+  let tokenId = TokenId.fromBase58(input.tokenId);
+  let from = input.from !== undefined ? BigInt(input.from) : undefined;
+  let to = input.to !== undefined ? BigInt(input.to) : undefined;
+  let height = local.getNetworkState().blockchainLength.toBigint();
+
+  // events are returned latest first, the archive node returns them in chronological order
+  let stored = (await local.fetchEvents(publicKey, tokenId)).reverse();
+  return stored
+    .filter(({ blockHeight }) => {
+      let h = blockHeight.toBigint();
+      return (from === undefined || h >= from) && (to === undefined || h <= to);
+    })
+    .map((event): EventQueryResponse['events'][number] => ({
+      blockInfo: {
+        distanceFromMaxBlockHeight: Number(
+          height - event.blockHeight.toBigint()
+        ),
+        height: Number(event.blockHeight.toBigint()),
+        globalSlotSinceGenesis: Number(event.globalSlot.toBigint()),
+        stateHash: event.blockHash,
+        parentHash: event.parentBlockHash,
+        chainStatus: event.chainStatus,
+      },
+      eventData: event.events,
+    }));
+}
+
+function getActions(local: Local, input: Record<string, string>) {
+  let publicKey = PublicKey.fromBase58(input.address);
+  let tokenId = TokenId.fromBase58(input.tokenId);
+  let fromActionState =
+    input.fromActionState !== undefined
+      ? Field(input.fromActionState)
+      : undefined;
+  let endActionState =
+    input.endActionState !== undefined
+      ? Field(input.endActionState)
+      : undefined;
+
+  let actions = local.getActions(
+    publicKey,
+    { fromActionState, endActionState },
+    tokenId
+  );
+  let previousState = (
+    fromActionState ?? Actions.emptyActionState()
+  ).toString();
+
+  // every account update with actions is reported like a separate block
+  return actions.map(({ actions, hash }, i) => {
+    let actionState = { actionStateOne: hash, actionStateTwo: previousState };
+    previousState = hash;
+    return {
+      blockInfo: { distanceFromMaxBlockHeight: 0 },
+      actionState,
+      actionData: actions.map((data) => ({ accountUpdateId: `${i}`, data })),
+    };
+  });
+}
+
+// helpers
+
+function toFetchedBlock({ parentHash, networkState }: Block): FetchedBlock {
+  let slot = networkState.globalSlotSinceGenesis.toBigint();
+  let date = String(Date.now());
+  return {
+    protocolState: {
+      blockchainState: {
+        snarkedLedgerHash: LedgerHash.toBase58(networkState.snarkedLedgerHash),
+        stagedLedgerHash: LedgerHash.toBase58(networkState.snarkedLedgerHash),
+        date,
+        utcDate: date,
+        stagedLedgerProofEmitted: false,
+      },
+      previousStateHash: StateHash.toBase58(parentHash),
+      consensusState: {
+        blockHeight: networkState.blockchainLength.toString(),
+        slotSinceGenesis: slot.toString(),
+        slot: (slot % slotsPerEpoch).toString(),
+        nextEpochData: toEpochData(networkState.nextEpochData),
+        stakingEpochData: toEpochData(networkState.stakingEpochData),
+        epochCount: (slot / slotsPerEpoch).toString(),
+        minWindowDensity: networkState.minWindowDensity.toString(),
+        totalCurrency: networkState.totalCurrency.toString(),
+        epoch: (slot / slotsPerEpoch).toString(),
+      },
+    },
+  };
+}
+
+function toEpochData(epochData: NetworkValue['nextEpochData']): EpochData {
+  return {
+    ledger: {
+      hash: LedgerHash.toBase58(epochData.ledger.hash),
+      totalCurrency: epochData.ledger.totalCurrency.toString(),
+    },
+    seed: EpochSeed.toBase58(epochData.seed),
+    startCheckpoint: StateHash.toBase58(epochData.startCheckpoint),
+    lockCheckpoint: StateHash.toBase58(epochData.lockCheckpoint),
+    epochLength: epochData.epochLength.toString(),
+  };
+}
+
+/**
+ * Converts local failures (fee payer first, then one entry per account update)
+ * to the format of the Mina node, which omits the fee payer and lists account updates in reverse order.
+ */
+function failureReason(
+  local: Local,
+  hash: string
+): FailureReasonResponse | null {
+  let result = local.getTransactionResult(hash);
+  if (result === undefined || result.status !== 'rejected') return null;
+  return result.failures
+    .map((failures, index) => ({ index, failures: failures.flat() }))
+    .slice(1)
+    .reverse();
+}
+
+/**
+ * Parses the arguments of an `input: { ... }` object, like `address: "B62...", to: 10`.
+ */
+function parseInput(input: string) {
+  let result: Record<string, string> = {};
+  for (let [, key, quoted, bare] of input.matchAll(
+    /(\w+)\s*:\s*(?:"([^"]*)"|([^,\s]+))/g
+  )) {
+    result[key] = quoted ?? bare;
+  }
+  return result;
+}
+
+/**
+ * Returns the object literal starting at the `{` at index `start`, taking strings into account.
+ */
+function extractObject(query: string, start: number) {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < query.length; i++) {
+    let char = query[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) return query.slice(start, i + 1);
+  }
+  throw Error('Malformed query: unbalanced braces');
+}
+
+/**
+ * Inverse of `removeJsonQuotes()` in `graphql.ts`: adds quotes to the keys of a JSON-like object literal.
+ */
+function addJsonQuotes(literal: string) {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < literal.length; i++) {
+    let char = literal[i];
+    if (inString) {
+      result += char;
+      if (char === '\\') result += literal[++i];
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+      result += char;
+      continue;
+    }
+    let key = literal.slice(i).match(/^([A-Za-z_]\w*)\s*:/);
+    if (key !== null) {
+      result += `"${key[1]}":`;
+      i += key[0].length - 1;
+      continue;
+    }
+    result += char;
+  }
+  return result;
+}
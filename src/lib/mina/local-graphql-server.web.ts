@@ -0,0 +1,9 @@
+export { LocalGraphqlServer, handleGraphqlQuery };
+
+function LocalGraphqlServer(..._: any[]): never {
+  throw Error('LocalGraphqlServer: Not available in the browser.');
+}
+
+function handleGraphqlQuery(..._: any[]): never {
+  throw Error('handleGraphqlQuery: Not available in the browser.');
+}
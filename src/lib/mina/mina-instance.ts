@@ -101,6 +101,9 @@ type Mina = {
     actionStates?: ActionStates,
     tokenId?: Field
   ) => { hash: string; actions: string[][] }[];
+  fetchRecentFees?: (
+    blockLength?: number
+  ) => ReturnType<typeof Fetch.fetchRecentFees>;
   proofsEnabled: boolean;
   getNetworkId(): NetworkId;
 };
@@ -51,9 +51,21 @@ import {
   filterGroups,
 } from './transaction-validation.js';
 import { LocalBlockchain, TestPublicKey } from './local-blockchain.js';
+import { LocalGraphqlServer } from './local-graphql-server.js';
+import {
+  batchTransactions,
+  sendTransactionBatch,
+} from './transaction-batch.js';
+import { Indexer } from './indexer/indexer.js';
+import {
+  type KeyValueStore,
+  InMemoryStore,
+  JsonFileStore,
+} from './indexer/store.js';
 
 export {
   LocalBlockchain,
+  LocalGraphqlServer,
   Network,
   currentTransaction,
   Transaction,
@@ -66,6 +78,12 @@ export {
   activeInstance,
   setActiveInstance,
   transaction,
+  batchTransactions,
+  sendTransactionBatch,
+  Indexer,
+  KeyValueStore,
+  InMemoryStore,
+  JsonFileStore,
   sender,
   currentSlot,
   getAccount,
@@ -424,6 +442,9 @@ function Network(
         archiveEndpoint
       );
     },
+    async fetchRecentFees(blockLength?: number) {
+      return Fetch.fetchRecentFees(blockLength, minaGraphqlEndpoint);
+    },
     getActions(
       publicKey: PublicKey,
       actionStates?: ActionStates,
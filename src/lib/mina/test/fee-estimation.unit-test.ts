@@ -0,0 +1,73 @@
+/**
+ * Tests `tx.estimateFee()`.
+ */
+import assert from 'node:assert';
+import { AccountUpdate, Mina, UInt64 } from '../../../index.js';
+import { TransactionLimits } from '../constants.js';
+
+let Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+let [sender, receiver] = Local.testAccounts;
+
+let tx = await Mina.transaction(sender, async () => {
+  AccountUpdate.createSigned(sender).send({
+    to: receiver,
+    amount: UInt64.from(1e9),
+  });
+});
+
+// without recent fees, the minimum fee is suggested
+let estimate = await tx.estimateFee();
+assert.strictEqual(estimate.accountUpdates, 2);
+assert.strictEqual(estimate.source, 'minimum');
+assert.deepStrictEqual(estimate.minimumFee, UInt64.from(2e6));
+assert.deepStrictEqual(estimate.suggestedFee, estimate.minimumFee);
+assert(estimate.cost.isWithinLimit);
+assert(estimate.cost.used > 0);
+assert.deepStrictEqual(estimate.events, {
+  used: 0,
+  limit: TransactionLimits.MAX_EVENT_ELEMENTS,
+  isWithinLimit: true,
+});
+
+// with recent fees, the median fee per account update is used
+Mina.setActiveInstance({
+  ...Local,
+  async fetchRecentFees() {
+    return [
+      { fee: UInt64.from(1e7), accountUpdates: 1 },
+      { fee: UInt64.from(3e7), accountUpdates: 3 },
+      { fee: UInt64.from(1e8), accountUpdates: 2 },
+      { fee: UInt64.from(1e6), accountUpdates: 1 },
+    ];
+  },
+});
+estimate = await tx.estimateFee();
+assert.strictEqual(estimate.source, 'network');
+assert.deepStrictEqual(estimate.suggestedFee, UInt64.from(2e7));
+
+// if recent fees can't be fetched, the minimum fee is suggested
+Mina.setActiveInstance({
+  ...Local,
+  async fetchRecentFees() {
+    throw Error('Error making GraphQL request: Bad Gateway');
+  },
+});
+estimate = await tx.estimateFee();
+assert.strictEqual(estimate.source, 'minimum');
+assert.deepStrictEqual(estimate.suggestedFee, estimate.minimumFee);
+
+Mina.setActiveInstance({ ...Local, fetchRecentFees: undefined });
+estimate = await tx.estimateFee();
+assert.strictEqual(estimate.source, 'minimum');
+
+// a transaction with too many account updates exceeds the cost limit
+Mina.setActiveInstance(Local);
+let bigTx = await Mina.transaction(sender, async () => {
+  for (let i = 0; i < 10; i++) {
+    AccountUpdate.createSigned(sender).send({ to: receiver, amount: 1 });
+  }
+});
+let bigEstimate = await bigTx.estimateFee();
+assert.strictEqual(bigEstimate.cost.isWithinLimit, false);
+assert.deepStrictEqual(bigEstimate.minimumFee, UInt64.from(2e7));
@@ -0,0 +1,159 @@
+/**
+ * Tests syncing actions and events into a local index, and serving them from it.
+ */
+import assert from 'node:assert';
+import {
+  Field,
+  Mina,
+  Reducer,
+  SmartContract,
+  UInt32,
+  method,
+} from '../../../index.js';
+
+class Dispatcher extends SmartContract {
+  reducer = Reducer({ actionType: Field });
+  events = { dispatched: Field };
+
+  @method
+  async dispatch(value: Field) {
+    this.reducer.dispatch(value);
+    this.emitEvent('dispatched', value);
+  }
+}
+
+let Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+
+let [sender, zkappAccount] = Local.testAccounts;
+let zkapp = new Dispatcher(zkappAccount);
+
+let deployTx = await Mina.transaction(sender, () => zkapp.deploy());
+await deployTx.sign([sender.key, zkappAccount.key]).send();
+
+// every action is dispatched in its own block
+async function dispatch(value: number) {
+  Local.setBlockchainLength(UInt32.from(value));
+  let tx = await Mina.transaction(sender, () => zkapp.dispatch(Field(value)));
+  await tx.prove();
+  await tx.sign([sender.key]).send();
+}
+for (let i = 1; i <= 3; i++) await dispatch(i);
+
+let store = Mina.InMemoryStore();
+let indexer = await Mina.Indexer({
+  source: Local,
+  accounts: [zkappAccount],
+  store,
+});
+
+// the first sync fetches all actions and events
+let [result] = await indexer.sync();
+assert.strictEqual(result.added, 3);
+assert.strictEqual(result.rolledBack, 0);
+assert.deepStrictEqual(
+  indexer.latestActionState(zkappAccount),
+  Local.getAccount(zkappAccount).zkapp!.actionState[0]
+);
+assert.strictEqual(indexer.getEvents(zkappAccount).length, 3);
+
+// the wrapped instance serves actions, and events ordered by block height, from the index
+let expectedActions = await zkapp.reducer.fetchActions();
+let expectedEvents = await zkapp.fetchEvents();
+Mina.setActiveInstance(indexer.wrap(Local));
+assert.deepStrictEqual(await zkapp.reducer.fetchActions(), expectedActions);
+assert.deepStrictEqual(
+  (await zkapp.fetchEvents()).map((e) => e.event.data),
+  expectedEvents.map((e) => e.event.data).reverse()
+);
+
+// later syncs only fetch new actions
+await dispatch(4);
+[result] = await indexer.sync();
+assert.strictEqual(result.added, 1);
+assert.strictEqual(indexer.getActions(zkappAccount).length, 4);
+assert.strictEqual(indexer.getEvents(zkappAccount).length, 4);
+
+// a new indexer picks up the persisted index
+let restored = await Mina.Indexer({
+  source: Local,
+  accounts: [zkappAccount],
+  store,
+});
+assert.deepStrictEqual(
+  restored.latestActionState(zkappAccount),
+  indexer.latestActionState(zkappAccount)
+);
+assert.deepStrictEqual(
+  restored.getActions(zkappAccount),
+  indexer.getActions(zkappAccount)
+);
+
+// rolling back to a known action state drops later actions, which are fetched again by the next sync
+let actionStates = indexer.getActions(zkappAccount).map((a) => Field(a.hash));
+await indexer.rollback(zkappAccount, actionStates[1]);
+assert.deepStrictEqual(
+  indexer.latestActionState(zkappAccount),
+  actionStates[1]
+);
+[result] = await indexer.sync();
+assert.strictEqual(result.added, 2);
+assert.deepStrictEqual(
+  indexer.latestActionState(zkappAccount),
+  actionStates[3]
+);
+
+await assert.rejects(() => indexer.rollback(zkappAccount, Field(123)));
+
+// a failed fetch is not mistaken for an empty chain
+let failing = await Mina.Indexer({
+  source: {
+    ...Local,
+    async fetchActions() {
+      throw Error('archive node unavailable');
+    },
+  },
+  accounts: [zkappAccount],
+  store,
+});
+await assert.rejects(() => failing.sync(), /archive node unavailable/);
+assert.deepStrictEqual(
+  failing.getActions(zkappAccount),
+  indexer.getActions(zkappAccount)
+);
+let persisted = await Mina.Indexer({
+  source: Local,
+  accounts: [zkappAccount],
+  store,
+});
+assert.deepStrictEqual(
+  persisted.getActions(zkappAccount),
+  indexer.getActions(zkappAccount)
+);
+
+// a reorganization which replaces the latest action is detected and rolled back
+let reorged = await Mina.Indexer({
+  source: {
+    ...Local,
+    async fetchActions(publicKey, actionStates, tokenId) {
+      let actions = Local.getActions(publicKey, undefined, tokenId);
+      let forked = [
+        ...actions.slice(0, -1),
+        { hash: '1', actions: [['1']] },
+        { hash: '2', actions: [['2']] },
+      ];
+      let from = actionStates?.fromActionState?.toString();
+      let start = forked.findIndex((a) => a.hash === from) + 1;
+      return forked.slice(start);
+    },
+  },
+  accounts: [zkappAccount],
+  store,
+});
+[result] = await reorged.sync();
+assert.strictEqual(result.rolledBack, 1);
+assert.strictEqual(result.added, 2);
+assert.deepStrictEqual(
+  reorged.getActions(zkappAccount).map((a) => a.hash),
+  [...actionStates.slice(0, 3).map(String), '1', '2']
+);
@@ -0,0 +1,133 @@
+/**
+ * Tests block production and the mempool of a `LocalBlockchain`.
+ */
+import assert from 'node:assert';
+import {
+  AccountUpdate,
+  Field,
+  Mina,
+  Reducer,
+  SmartContract,
+  UInt32,
+  UInt64,
+  method,
+} from '../../../index.js';
+
+class Dispatcher extends SmartContract {
+  reducer = Reducer({ actionType: Field });
+
+  @method
+  async dispatch(value: Field) {
+    this.reducer.dispatch(value);
+  }
+
+  @method
+  async requireLength(length: UInt32) {
+    this.network.blockchainLength.requireEquals(length);
+  }
+}
+
+let Local = await Mina.LocalBlockchain({
+  proofsEnabled: false,
+  blockProduction: 'manual',
+});
+Mina.setActiveInstance(Local);
+
+let [sender] = Local.testAccounts;
+let zkappAccount = Mina.TestPublicKey.random();
+let zkapp = new Dispatcher(zkappAccount);
+
+let deployTx = await Mina.transaction(sender, async () => {
+  AccountUpdate.fundNewAccount(sender);
+  await zkapp.deploy();
+});
+let pendingDeploy = await deployTx.sign([sender.key, zkappAccount.key]).send();
+
+// nothing is applied before a block is produced
+assert.deepStrictEqual(Local.getMempool(), [pendingDeploy.hash]);
+assert.strictEqual(Mina.hasAccount(zkappAccount), false);
+
+let block = Local.produceBlock();
+assert.strictEqual(block.transactions[0].status, 'included');
+assert.deepStrictEqual(Local.getMempool(), []);
+assert.strictEqual(Mina.hasAccount(zkappAccount), true);
+assert.deepStrictEqual(Mina.getNetworkState().blockchainLength, UInt32.from(1));
+assert.deepStrictEqual(Mina.currentSlot(), UInt32.from(1));
+
+// the ledger hash and epoch data advance with every block
+let networkState = Mina.getNetworkState();
+Local.produceBlock({ slots: 10 });
+assert.deepStrictEqual(Mina.currentSlot(), UInt32.from(11));
+assert.notDeepStrictEqual(
+  Mina.getNetworkState().snarkedLedgerHash,
+  networkState.snarkedLedgerHash
+);
+assert.deepStrictEqual(
+  Mina.getNetworkState().nextEpochData.epochLength,
+  networkState.nextEpochData.epochLength.add(1)
+);
+
+// actions dispatched in separate blocks are ordered by block
+for (let value of [1, 2]) {
+  let tx = await Mina.transaction(sender, () => zkapp.dispatch(Field(value)));
+  await tx.prove();
+  let pending = await tx.sign([sender.key]).send();
+  // waiting on a transaction in the mempool produces a block
+  await pending.wait();
+}
+let actions = Local.getActions(zkappAccount);
+assert.deepStrictEqual(
+  actions.map((a) => a.actions[0][0]),
+  ['1', '2']
+);
+assert.deepStrictEqual(Mina.getNetworkState().blockchainLength, UInt32.from(4));
+
+// network preconditions are checked against the state of the parent block
+let tx = await Mina.transaction(sender, () =>
+  zkapp.requireLength(UInt32.from(3))
+);
+await tx.prove();
+let pending = await tx.sign([sender.key]).send();
+let rejected = await pending.safeWait();
+assert.strictEqual(rejected.status, 'rejected');
+
+// the nonce of a sender with pending transactions is inferred from the mempool,
+// so that several of their transactions can be included in the same block
+let Batched = await Mina.LocalBlockchain({
+  proofsEnabled: false,
+  blockProduction: { transactionsPerBlock: 2 },
+});
+Mina.setActiveInstance(Batched);
+let [batchSender, receiver] = Batched.testAccounts;
+let balanceBefore = Mina.getBalance(receiver);
+
+let hashes: string[] = [];
+for (let i = 0; i < 2; i++) {
+  let tx = await Mina.transaction(batchSender, async () => {
+    AccountUpdate.createSigned(batchSender).send({
+      to: receiver,
+      amount: UInt64.from(1e9),
+    });
+  });
+  hashes.push((await tx.sign([batchSender.key]).send()).hash);
+}
+let [batchBlock] = Batched.getBlocks();
+assert.deepStrictEqual(batchBlock.transactions, hashes);
+for (let hash of hashes) {
+  assert.strictEqual(Batched.getTransactionResult(hash)?.status, 'included');
+}
+assert.deepStrictEqual(
+  Mina.getBalance(receiver).toBigInt(),
+  balanceBefore.toBigInt() + 2n * BigInt(1e9)
+);
+assert.deepStrictEqual(Mina.getAccount(batchSender).nonce, UInt32.from(2));
+
+// produced blocks are part of the exported state
+let snapshot = Batched.snapshot();
+Batched.produceBlock();
+assert.strictEqual(Batched.getBlocks().length, 2);
+Batched.revert(snapshot);
+assert.deepStrictEqual(
+  Batched.getBlocks().map((b) => [b.stateHash.toString(), b.transactions]),
+  [[batchBlock.stateHash.toString(), hashes]]
+);
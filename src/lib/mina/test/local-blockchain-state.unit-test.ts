@@ -0,0 +1,127 @@
+/**
+ * Tests exporting, importing, snapshotting and reverting the state of a `LocalBlockchain`.
+ */
+import assert from 'node:assert';
+import {
+  AccountUpdate,
+  Field,
+  Mina,
+  Reducer,
+  SmartContract,
+  State,
+  UInt64,
+  method,
+  state,
+} from '../../../index.js';
+
+class Counter extends SmartContract {
+  @state(Field) count = State<Field>();
+
+  events = { incremented: Field };
+  reducer = Reducer({ actionType: Field });
+
+  @method
+  async increment() {
+    let count = this.count.getAndRequireEquals();
+    this.count.set(count.add(1));
+    this.emitEvent('incremented', count.add(1));
+    this.reducer.dispatch(count);
+  }
+}
+
+let Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+
+let [sender, receiver, zkappAccount] = Local.testAccounts;
+let zkapp = new Counter(zkappAccount);
+
+async function increment() {
+  let tx = await Mina.transaction(sender, () => zkapp.increment());
+  await tx.prove();
+  await tx.sign([sender.key]).send();
+}
+
+let deployTx = await Mina.transaction(sender, async () => {
+  await zkapp.deploy();
+});
+await deployTx.sign([sender.key, zkappAccount.key]).send();
+await increment();
+
+// snapshot and revert
+
+let snapshot = Local.snapshot();
+let balanceBefore = Mina.getBalance(receiver);
+
+let paymentTx = await Mina.transaction(sender, async () => {
+  AccountUpdate.createSigned(sender).send({
+    to: receiver,
+    amount: UInt64.from(1e9),
+  });
+});
+await paymentTx.sign([sender.key]).send();
+await increment();
+
+assert.deepStrictEqual(
+  Mina.getBalance(receiver).toBigInt(),
+  balanceBefore.toBigInt() + BigInt(1e9)
+);
+assert.deepStrictEqual(zkapp.count.get().toBigInt(), 2n);
+
+Local.revert(snapshot);
+
+assert.deepStrictEqual(
+  Mina.getBalance(receiver).toBigInt(),
+  balanceBefore.toBigInt()
+);
+assert.deepStrictEqual(zkapp.count.get().toBigInt(), 1n);
+assert.strictEqual((await zkapp.fetchEvents()).length, 1);
+assert.strictEqual(Local.getActions(zkappAccount).length, 1);
+
+// the same snapshot can be reverted to again
+await increment();
+Local.revert(snapshot);
+assert.deepStrictEqual(zkapp.count.get().toBigInt(), 1n);
+
+// export and import
+
+let exported = Local.exportState();
+let Imported = await Mina.LocalBlockchain({
+  proofsEnabled: false,
+  state: JSON.parse(JSON.stringify(exported)),
+});
+Mina.setActiveInstance(Imported);
+
+assert.deepStrictEqual(
+  Imported.testAccounts.map((a) => a.toBase58()),
+  Local.testAccounts.map((a) => a.toBase58())
+);
+assert.deepStrictEqual(zkapp.count.get().toBigInt(), 1n);
+assert.strictEqual((await zkapp.fetchEvents()).length, 1);
+assert.deepStrictEqual(
+  Imported.getActions(zkappAccount),
+  Local.getActions(zkappAccount)
+);
+
+// the imported blockchain can be used as usual
+await increment();
+assert.deepStrictEqual(zkapp.count.get().toBigInt(), 2n);
+
+// a state which doesn't replay to the same ledger is rejected
+let corrupt: typeof exported = JSON.parse(JSON.stringify(exported));
+let lastOperation = corrupt.ledger[corrupt.ledger.length - 1];
+assert(lastOperation.type === 'transaction');
+lastOperation.transaction = '{}';
+await assert.rejects(
+  () => Mina.LocalBlockchain({ proofsEnabled: false, state: corrupt }),
+  /Failed to import state, ledger operation \d+ \(transaction\) failed/
+);
+
+// a failed import leaves the current state untouched
+assert.throws(
+  () => Imported.importState(corrupt),
+  /Failed to import state, ledger operation \d+ \(transaction\) failed/
+);
+assert.deepStrictEqual(zkapp.count.get().toBigInt(), 2n);
+assert.strictEqual((await zkapp.fetchEvents()).length, 2);
+await increment();
+assert.deepStrictEqual(zkapp.count.get().toBigInt(), 3n);
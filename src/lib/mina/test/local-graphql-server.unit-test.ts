@@ -0,0 +1,67 @@
+/**
+ * Tests the `Mina.Network` code path end-to-end, against a local GraphQL server backed by a `LocalBlockchain`.
+ */
+import assert from 'node:assert';
+import {
+  AccountUpdate,
+  Mina,
+  UInt64,
+  fetchAccount,
+  fetchLastBlock,
+} from '../../../index.js';
+
+let Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+let [sender, receiver] = Local.testAccounts;
+
+let server = await Mina.LocalGraphqlServer(Local);
+try {
+  let Network = Mina.Network({
+    mina: server.endpoint,
+    archive: server.endpoint,
+  });
+  Mina.setActiveInstance(Network);
+
+  // accounts
+  let { account, error } = await fetchAccount({ publicKey: receiver });
+  assert.strictEqual(error, undefined);
+  assert.deepStrictEqual(account?.balance, Local.getAccount(receiver).balance);
+
+  let missing = await fetchAccount({ publicKey: Mina.TestPublicKey.random() });
+  assert.strictEqual(missing.account, undefined);
+
+  // network state
+  let network = await fetchLastBlock(server.endpoint);
+  assert.deepStrictEqual(
+    network.blockchainLength,
+    Local.getNetworkState().blockchainLength
+  );
+
+  // transactions
+  let balanceBefore = Local.getAccount(receiver).balance;
+  let tx = await Mina.transaction(sender, async () => {
+    AccountUpdate.createSigned(sender).send({
+      to: receiver,
+      amount: UInt64.from(1e9),
+    });
+  });
+  let pending = await tx.sign([sender.key]).send();
+  assert.strictEqual(pending.status, 'pending');
+  let included = await pending.wait();
+  assert.strictEqual(included.status, 'included');
+  assert.deepStrictEqual(
+    Local.getAccount(receiver).balance,
+    balanceBefore.add(1e9)
+  );
+
+  // actions of an account without any
+  let actions = await Mina.fetchActions(receiver);
+  assert.deepStrictEqual(actions, []);
+} finally {
+  await server.close();
+}
+
+// blocks can't be produced on a blockchain which applies transactions instantly
+await assert.rejects(
+  () => Mina.LocalGraphqlServer(Local, { blockInterval: 1000 }),
+  /`blockInterval` requires block production/
+);
@@ -0,0 +1,97 @@
+/**
+ * Tests splitting of contract calls into several transactions that satisfy the protocol limits.
+ */
+import assert from 'node:assert';
+import { AccountUpdate, Field, Mina, UInt64 } from '../../../index.js';
+import { Events } from '../account-update.js';
+import { TransactionLimits } from '../constants.js';
+import { isWithinTransactionLimits } from '../transaction-batch.js';
+import { transactionCost } from '../transaction-validation.js';
+
+let Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+let [sender, receiver] = Local.testAccounts;
+
+let payments = Array.from({ length: 12 }, () => async () => {
+  AccountUpdate.createSigned(sender).send({
+    to: receiver,
+    amount: UInt64.from(1e9),
+  });
+});
+
+// all payments together exceed the limits
+let single = await Mina.transaction(sender, async () => {
+  for (let payment of payments) await payment();
+});
+assert.strictEqual(isWithinTransactionLimits(single.transaction), false);
+
+// batches satisfy the limits, preserve all account updates and use consecutive nonces
+let nonce = Local.getAccount(sender).nonce;
+let txs = await Mina.batchTransactions(sender, payments);
+assert(txs.length > 1);
+assert(txs.every((tx) => isWithinTransactionLimits(tx.transaction)));
+assert.strictEqual(
+  txs.reduce((n, tx) => n + tx.transaction.accountUpdates.length, 0),
+  2 * payments.length
+);
+txs.forEach((tx, k) =>
+  assert.deepStrictEqual(tx.transaction.feePayer.body.nonce, nonce.add(k))
+);
+
+// batches are full: merging any two consecutive ones exceeds the limits
+for (let k = 0; k + 1 < txs.length; k++) {
+  let accountUpdates = [
+    ...txs[k].transaction.accountUpdates,
+    ...txs[k + 1].transaction.accountUpdates,
+  ];
+  assert.strictEqual(isWithinTransactionLimits({ accountUpdates }), false);
+}
+
+// sending the batch applies all calls in order
+let balance = Local.getAccount(receiver).balance;
+let pending = await Mina.sendTransactionBatch(sender, payments, [sender.key]);
+assert.strictEqual(pending.length, txs.length);
+assert(pending.every((tx) => tx.status === 'pending'));
+assert.deepStrictEqual(
+  Local.getAccount(receiver).balance,
+  balance.add(UInt64.from(1e9).mul(payments.length))
+);
+
+// batches can land exactly on a limit: two calls emitting half of the maximum event elements fit together
+let halfEvents = TransactionLimits.MAX_EVENT_ELEMENTS / 2;
+let emitEvents = Array.from({ length: 4 }, () => async () => {
+  let update = AccountUpdate.create(receiver);
+  update.body.events = Events.pushEvent(
+    update.body.events,
+    Array.from({ length: halfEvents }, () => Field(0))
+  );
+});
+let eventTxs = await Mina.batchTransactions(sender, emitEvents);
+assert.strictEqual(eventTxs.length, 2);
+for (let tx of eventTxs) {
+  assert.strictEqual(tx.transaction.accountUpdates.length, 2);
+  assert.strictEqual(
+    transactionCost(tx.transaction).eventElements.events,
+    TransactionLimits.MAX_EVENT_ELEMENTS
+  );
+  assert(isWithinTransactionLimits(tx.transaction));
+}
+
+// calls that behave differently when run together are rejected:
+// each call emits one more event element if the transaction already updates the receiver
+let dependentCalls = Array.from({ length: 2 }, () => async () => {
+  let receiverUpdated = Mina.currentTransaction
+    .get()
+    .layout.toFlatList({ mutate: false })
+    .some((update) => update.publicKey.equals(receiver).toBoolean());
+  let n = receiverUpdated ? halfEvents + 1 : halfEvents;
+  let update = AccountUpdate.create(receiver);
+  update.body.events = Events.pushEvent(
+    update.body.events,
+    Array.from({ length: n }, () => Field(0))
+  );
+});
+await assert.rejects(
+  () => Mina.batchTransactions(sender, dependentCalls),
+  /calls 0, 1 exceed the transaction limits when run together/
+);
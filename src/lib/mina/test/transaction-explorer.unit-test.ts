@@ -0,0 +1,95 @@
+/**
+ * Tests the tree rendering of transactions and account updates.
+ */
+import assert from 'node:assert';
+import {
+  AccountUpdate,
+  Bool,
+  Int64,
+  Mina,
+  PrivateKey,
+  TokenId,
+  UInt64,
+  renderAccountUpdates,
+} from '../../../index.js';
+import { formatMina } from '../transaction-explorer.js';
+
+// amounts
+assert.strictEqual(formatMina(1_500_000_000n), '1.5 MINA');
+assert.strictEqual(formatMina(-2_000_000_000n), '-2 MINA');
+assert.strictEqual(formatMina(1n), '0.000000001 MINA');
+
+// call hierarchy, tokens and preconditions
+let owner = PrivateKey.random().toPublicKey();
+let holder = PrivateKey.random().toPublicKey();
+let tokenId = TokenId.derive(owner);
+
+let parent = AccountUpdate.create(owner);
+parent.label = 'Token.approve()';
+parent.account.balance.requireEquals(UInt64.from(0));
+
+let child = AccountUpdate.create(holder, tokenId);
+child.label = 'Transfer';
+child.body.callDepth = 1;
+child.body.balanceChange = Int64.from(100);
+child.body.mayUseToken = {
+  parentsOwnToken: Bool(true),
+  inheritFromParent: Bool(false),
+};
+
+let sibling = AccountUpdate.create(holder);
+sibling.label = 'Payment';
+sibling.body.balanceChange = Int64.from(-1_500_000_000);
+
+let updates = [parent, child, sibling];
+let text = renderAccountUpdates(updates, {
+  tokenSymbols: { [TokenId.toBase58(tokenId)]: 'TKN' },
+});
+let lines = text.split('\n');
+assert.match(lines[0], /^├─ Token\.approve\(\) B62q\.\.\w{4} \(MINA\)$/);
+assert(lines.includes('│  │ preconditions: account.balance'));
+assert(lines.some((l) => /^│  └─ Transfer .* \(TKN\)$/.test(l)));
+assert(lines.includes('│       balance: +100 TKN'));
+assert(lines.includes('│       mayUseToken: parentsOwnToken'));
+assert(lines.some((l) => /^└─ Payment /.test(l)));
+assert(lines.includes('     balance: -1.5 MINA'));
+
+// token ids without a known symbol are shortened
+let unresolved = renderAccountUpdates(updates);
+assert(unresolved.includes(`(token ..${TokenId.toBase58(tokenId).slice(-4)})`));
+
+// other formats
+let markdown = renderAccountUpdates(updates, { format: 'markdown' });
+assert(markdown.startsWith('- **Token.approve() B62q'));
+assert(markdown.includes('\n  - **Transfer '));
+assert(markdown.includes('  - balance: `-1.5 MINA`'));
+
+let html = renderAccountUpdates(updates, { format: 'html' });
+assert(
+  html.startsWith('<ul class="account-updates"><li><strong>Token.approve()')
+);
+assert(html.includes('<code>+100 token ..'));
+
+let terminal = renderAccountUpdates(updates, { format: 'terminal' });
+assert(terminal.includes('\x1b[31m-1.5 MINA\x1b[39m'));
+
+// transactions, including the fee payer
+let Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+let [sender, receiver] = Local.testAccounts;
+
+let tx = await Mina.transaction(
+  { sender, fee: 1e8, memo: 'hello' },
+  async () => {
+    AccountUpdate.createSigned(sender).send({
+      to: receiver,
+      amount: UInt64.from(1e9),
+    });
+  }
+);
+let txLines = tx.toPretty().split('\n');
+assert.match(txLines[0], /^├─ Fee payer B62q/);
+assert(txLines.includes('│    fee: 0.1 MINA'));
+assert(txLines.includes('│    memo: hello'));
+assert(txLines.some((l) => l.endsWith('balance: -1 MINA')));
+assert(txLines.some((l) => l.endsWith('balance: +1 MINA')));
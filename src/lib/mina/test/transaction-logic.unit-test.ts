@@ -0,0 +1,114 @@
+/**
+ * Tests the TypeScript transaction logic against the results of a `LocalBlockchain`.
+ */
+import assert from 'node:assert';
+import {
+  AccountUpdate,
+  Bool,
+  Field,
+  Mina,
+  PublicKey,
+  UInt64,
+} from '../../../index.js';
+import { SimpleLedger } from '../transaction-logic/ledger.js';
+import { applyAccountUpdate } from '../transaction-logic/apply.js';
+
+let Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+let [sender, receiver] = Local.testAccounts;
+
+function copyLedger(...publicKeys: PublicKey[]) {
+  let ledger = SimpleLedger.create();
+  for (let publicKey of publicKeys) ledger.store(Local.getAccount(publicKey));
+  return ledger;
+}
+
+function assertSameAccounts(ledger: SimpleLedger, ...publicKeys: PublicKey[]) {
+  for (let publicKey of publicKeys) {
+    let account = ledger.load({ publicKey });
+    let expected = Local.getAccount(publicKey);
+    assert.deepStrictEqual(account?.balance, expected.balance);
+    assert.deepStrictEqual(account?.nonce, expected.nonce);
+    assert.deepStrictEqual(
+      account?.receiptChainHash,
+      expected.receiptChainHash
+    );
+  }
+}
+
+// successful payment
+{
+  let ledger = copyLedger(sender, receiver);
+  let tx = await Mina.transaction({ sender, fee: 1e8 }, async () => {
+    AccountUpdate.createSigned(sender).send({
+      to: receiver,
+      amount: UInt64.from(1e9),
+    });
+  });
+  tx.sign([sender.key]);
+  let result = ledger.applyZkappCommand(tx.transaction, {
+    networkState: Local.getNetworkState(),
+  });
+  assert.strictEqual(result.status, 'applied');
+  assert.deepStrictEqual(result.failures, [[], [], []]);
+
+  let pending = await tx.send();
+  assert.strictEqual(pending.status, 'pending');
+  assertSameAccounts(ledger, sender, receiver);
+}
+
+// failing account update: the fee is charged, but nothing else is applied
+{
+  let ledger = copyLedger(sender, receiver);
+  let tx = await Mina.transaction({ sender, fee: 1e8 }, async () => {
+    let update = AccountUpdate.createSigned(receiver);
+    update.account.balance.requireEquals(UInt64.from(1));
+    update.send({ to: sender, amount: UInt64.from(1e9) });
+  });
+  tx.sign([sender.key, receiver.key]);
+  let result = ledger.applyZkappCommand(tx.transaction, {
+    networkState: Local.getNetworkState(),
+  });
+  assert.strictEqual(result.status, 'failed');
+  assert.deepStrictEqual(result.failures[1], [
+    'Account_balance_precondition_unsatisfied',
+  ]);
+
+  let rejected = await tx.safeSend();
+  assert.strictEqual(rejected.status, 'rejected');
+  assertSameAccounts(ledger, sender, receiver);
+}
+
+// invalid fee payer: nothing is applied
+{
+  let ledger = copyLedger(sender);
+  let tx = await Mina.transaction(
+    { sender, fee: 1e8, nonce: 1000 },
+    async () => {
+      AccountUpdate.createSigned(sender);
+    }
+  );
+  tx.sign([sender.key]);
+  let result = ledger.applyZkappCommand(tx.transaction, {
+    networkState: Local.getNetworkState(),
+  });
+  assert.strictEqual(result.status, 'rejected');
+  assert.deepStrictEqual(result.failures, [
+    ['Account_nonce_precondition_unsatisfied'],
+    [],
+  ]);
+  assertSameAccounts(ledger, sender);
+}
+
+// permissions are checked against the authorization kind
+{
+  let update = AccountUpdate.create(receiver);
+  update.body.update.appState[0] = { isSome: Bool(true), value: Field(1) };
+  let { failures } = applyAccountUpdate(Local.getAccount(receiver), update);
+  assert.deepStrictEqual(failures, ['Update_not_permitted_app_state']);
+
+  update.body.authorizationKind.isSigned = Bool(true);
+  update.body.useFullCommitment = Bool(true);
+  let { account } = applyAccountUpdate(Local.getAccount(receiver), update);
+  assert.deepStrictEqual(account.zkapp?.appState[0], Field(1));
+}
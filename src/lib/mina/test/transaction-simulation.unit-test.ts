@@ -0,0 +1,122 @@
+/**
+ * Tests `tx.simulate()`, which dry-runs a transaction against the current ledger.
+ */
+import assert from 'node:assert';
+import {
+  AccountUpdate,
+  Field,
+  Int64,
+  Mina,
+  Permissions,
+  Reducer,
+  SmartContract,
+  State,
+  UInt64,
+  method,
+  state,
+} from '../../../index.js';
+
+class Counter extends SmartContract {
+  @state(Field) count = State<Field>();
+
+  events = { incremented: Field };
+  reducer = Reducer({ actionType: Field });
+
+  @method
+  async increment() {
+    let count = this.count.getAndRequireEquals();
+    this.count.set(count.add(1));
+    this.emitEvent('incremented', count.add(1));
+    this.reducer.dispatch(Field(1));
+  }
+}
+
+let Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+
+let [sender, receiver, zkappAccount] = Local.testAccounts;
+let zkapp = new Counter(zkappAccount);
+
+// deploy: permissions change
+let deployTx = await Mina.transaction(sender, () => zkapp.deploy());
+deployTx.sign([sender.key, zkappAccount.key]);
+let deploy = await deployTx.simulate();
+assert.strictEqual(deploy.status, 'applied');
+let deployUpdate = deploy.accountUpdates.find((u) =>
+  u.publicKey.equals(zkappAccount).toBoolean()
+);
+assert.deepStrictEqual(
+  deployUpdate?.permissions?.after.editState,
+  Permissions.default().editState
+);
+await deployTx.send();
+
+// payment: balance changes, and nothing is applied by the simulation
+let paymentTx = await Mina.transaction({ sender, fee: 1e8 }, async () => {
+  AccountUpdate.createSigned(sender).send({
+    to: receiver,
+    amount: UInt64.from(1e9),
+  });
+});
+paymentTx.sign([sender.key]);
+let balanceBefore = Local.getAccount(receiver).balance;
+let payment = await paymentTx.simulate();
+assert.strictEqual(payment.status, 'applied');
+assert.deepStrictEqual(payment.feePayer.balance.change, Int64.from(-1e8));
+assert.deepStrictEqual(
+  payment.accountUpdates[0].balance.change,
+  Int64.from(-1e9)
+);
+assert.deepStrictEqual(payment.accountUpdates[1].balance, {
+  before: balanceBefore,
+  after: balanceBefore.add(1e9),
+  change: Int64.from(1e9),
+});
+assert.deepStrictEqual(Local.getAccount(receiver).balance, balanceBefore);
+
+// zkapp call: app state, events, actions and preconditions
+let incrementTx = await Mina.transaction(sender, () => zkapp.increment());
+await incrementTx.prove();
+incrementTx.sign([sender.key]);
+
+// a second transaction with the same precondition, to be simulated after the first one is sent
+let nonce = Number(Local.getAccount(sender).nonce.toBigint()) + 1;
+let staleTx = await Mina.transaction({ sender, nonce }, () =>
+  zkapp.increment()
+);
+await staleTx.prove();
+staleTx.sign([sender.key]);
+
+let increment = await incrementTx.simulate();
+assert.strictEqual(increment.status, 'applied');
+let [update] = increment.accountUpdates;
+assert.deepStrictEqual(update.appState, [
+  { index: 0, before: Field(0), after: Field(1) },
+]);
+assert.deepStrictEqual(update.events, [[Field(1)]]);
+assert.deepStrictEqual(update.actions, [[Field(1)]]);
+assert.deepStrictEqual(update.preconditions, ['account.state.0']);
+assert.deepStrictEqual(update.failures, []);
+
+// a failing precondition is reported without sending the transaction
+await incrementTx.send();
+let failing = await staleTx.simulate();
+assert.strictEqual(failing.status, 'failed');
+assert.deepStrictEqual(failing.accountUpdates[0].failures, [
+  'Account_app_state_0_precondition_unsatisfied',
+]);
+
+// account updates to the same account are authorized against the account as changed by the ones before them
+let permissionsTx = await Mina.transaction(sender, async () => {
+  let update = AccountUpdate.createSigned(receiver);
+  update.account.permissions.set({
+    ...Permissions.default(),
+    editState: Permissions.none(),
+  });
+  let stateUpdate = AccountUpdate.create(receiver);
+  AccountUpdate.setValue(stateUpdate.update.appState[0], Field(1));
+});
+permissionsTx.sign([sender.key, receiver.key]);
+let permissionsChange = await permissionsTx.simulate();
+assert.strictEqual(permissionsChange.status, 'applied');
+assert.deepStrictEqual(permissionsChange.accountUpdates[1].failures, []);
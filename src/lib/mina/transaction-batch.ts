@@ -0,0 +1,133 @@
+/**
+ * Splitting of independent contract calls into several transactions, when they don't fit into a single one.
+ */
+import type { AccountUpdate, ZkappCommand } from './account-update.js';
+import { type PrivateKey, PublicKey } from '../provable/crypto/signature.js';
+import { type FeePayerSpec } from './mina-instance.js';
+import { TransactionCost, TransactionLimits } from './constants.js';
+import { transactionCost } from './transaction-validation.js';
+import {
+  type Transaction,
+  type PendingTransaction,
+  transaction,
+} from './transaction.js';
+
+export { batchTransactions, sendTransactionBatch, isWithinTransactionLimits };
+
+/**
+ * Batches a list of contract calls into as few transactions as possible, such that every transaction
+ * satisfies the protocol limits on proving cost, events and actions.
+ *
+ * Consecutive calls are packed greedily, so the order of calls is preserved across transactions.
+ * The transactions use consecutive nonces of the fee payer, and are meant to be sent in order.
+ *
+ * The calls must be independent: every call is run once on its own to measure it, and once more within its batch.
+ * In particular, a call must not rely on state changes made by calls in other transactions of the batch.
+ *
+ * @throws if a single call exceeds the limits, or if a built transaction exceeds the limits because its calls
+ * behave differently when run together.
+ *
+ * ```ts
+ * let txs = await Mina.batchTransactions(sender, [
+ *   () => zkapp.airdrop(alice),
+ *   () => zkapp.airdrop(bob),
+ *   // ...
+ * ]);
+ * ```
+ */
+async function batchTransactions(
+  sender: FeePayerSpec,
+  calls: (() => Promise<void>)[]
+): Promise<Transaction<false, false>[]> {
+  if (sender === undefined) {
+    throw Error('batchTransactions: a fee payer is required.');
+  }
+  let feePayer = sender instanceof PublicKey ? { sender } : sender;
+
+  // measure the account updates created by every call on its own
+  let callUpdates: AccountUpdate[][] = [];
+  let firstNonce: number | undefined;
+  for (let [i, call] of calls.entries()) {
+    let tx = await transaction(feePayer, call);
+    if (!isWithinTransactionLimits(tx.transaction)) {
+      throw Error(
+        `batchTransactions: call ${i} exceeds the transaction limits on its own, and can't be batched.`
+      );
+    }
+    callUpdates.push(tx.transaction.accountUpdates);
+    firstNonce ??= Number(tx.transaction.feePayer.body.nonce.toBigint());
+  }
+  if (firstNonce === undefined) return [];
+
+  // pack consecutive calls into batches
+  let batches: number[][] = [];
+  let batch: number[] = [];
+  let batchUpdates: AccountUpdate[] = [];
+  callUpdates.forEach((updates, i) => {
+    let accountUpdates = [...batchUpdates, ...updates];
+    if (batch.length > 0 && !isWithinTransactionLimits({ accountUpdates })) {
+      batches.push(batch);
+      batch = [];
+      accountUpdates = updates;
+    }
+    batch.push(i);
+    batchUpdates = accountUpdates;
+  });
+  batches.push(batch);
+
+  // create one transaction per batch
+  let nonce = feePayer.nonce ?? firstNonce;
+  let transactions: Transaction<false, false>[] = [];
+  for (let [k, batch] of batches.entries()) {
+    let tx = await transaction({ ...feePayer, nonce: nonce + k }, async () => {
+      for (let i of batch) {
+        await calls[i]();
+      }
+    });
+    // batches were packed from calls measured on their own, so check that the built transaction still fits
+    if (!isWithinTransactionLimits(tx.transaction)) {
+      throw Error(
+        `batchTransactions: calls ${batch.join(
+          ', '
+        )} exceed the transaction limits when run together, although they fit on their own. ` +
+          'Make sure that the calls are independent.'
+      );
+    }
+    transactions.push(tx);
+  }
+  return transactions;
+}
+
+/**
+ * Batches contract calls into transactions with {@link batchTransactions}, then proves, signs and sends
+ * the transactions in order.
+ *
+ * @returns The pending transactions, in the order of the batches.
+ */
+async function sendTransactionBatch(
+  sender: FeePayerSpec,
+  calls: (() => Promise<void>)[],
+  signers: PrivateKey[]
+): Promise<PendingTransaction[]> {
+  let transactions = await batchTransactions(sender, calls);
+  let pending: PendingTransaction[] = [];
+  for (let tx of transactions) {
+    await tx.prove();
+    pending.push(await tx.sign(signers).send());
+  }
+  return pending;
+}
+
+/**
+ * Checks the same limits as `verifyTransactionLimits()`, but returns a boolean instead of throwing.
+ */
+function isWithinTransactionLimits(
+  command: Pick<ZkappCommand, 'accountUpdates'>
+) {
+  let { totalTimeRequired, eventElements } = transactionCost(command);
+  return (
+    totalTimeRequired < TransactionCost.COST_LIMIT &&
+    eventElements.events <= TransactionLimits.MAX_EVENT_ELEMENTS &&
+    eventElements.actions <= TransactionLimits.MAX_ACTION_ELEMENTS
+  );
+}
@@ -0,0 +1,362 @@
+/**
+ * Human-readable rendering of transactions, which shows the call hierarchy of account updates.
+ */
+import {
+  AccountUpdate,
+  AccountUpdateForest,
+  AccountUpdateTreeBase,
+  TokenId,
+  type ZkappCommand,
+} from './account-update.js';
+import { Int64 } from '../provable/int.js';
+import type { MerkleListBase } from '../provable/merkle-list.js';
+import { Field } from '../provable/wrapped.js';
+import { PublicKey } from '../provable/crypto/signature.js';
+import { activeInstance } from './mina-instance.js';
+import { checkedPreconditions } from './transaction-logic/simulate.js';
+import {
+  type CallForest,
+  accountUpdatesToCallForest,
+} from '../../mina-signer/src/sign-zkapp-command.js';
+
+export {
+  renderTransaction,
+  renderAccountUpdates,
+  RenderFormat,
+  RenderOptions,
+  formatMina,
+};
+
+/**
+ * - `'text'`: plain text tree
+ * - `'terminal'`: text tree with ANSI colors
+ * - `'markdown'`: nested Markdown list
+ * - `'html'`: nested HTML list
+ */
+type RenderFormat = 'text' | 'terminal' | 'markdown' | 'html';
+
+type RenderOptions = {
+  /**
+   * Output format, defaults to `'text'`.
+   */
+  format?: RenderFormat;
+  /**
+   * Symbols of custom tokens, by base58 token id.
+   *
+   * Symbols which are set in the transaction, or stored on token owner accounts known to the active Mina instance,
+   * are resolved automatically.
+   */
+  tokenSymbols?: Record<string, string>;
+};
+
+type Node = {
+  title: string;
+  details: [key: string, value: string][];
+  children: Node[];
+};
+
+/**
+ * Renders a transaction as a tree: the fee payer, followed by the account updates in their call hierarchy.
+ *
+ * ```ts
+ * console.log(renderTransaction(tx.transaction, { format: 'terminal' }));
+ * ```
+ */
+function renderTransaction(
+  { feePayer, accountUpdates, memo }: ZkappCommand,
+  options: RenderOptions = {}
+) {
+  let { body } = feePayer;
+  let details: Node['details'] = [
+    ['fee', formatMina(body.fee.toBigInt())],
+    ['nonce', body.nonce.toString()],
+  ];
+  if (body.validUntil !== undefined) {
+    details.push(['validUntil', body.validUntil.toString()]);
+  }
+  if (memo !== '') details.push(['memo', memo]);
+  let feePayerNode: Node = {
+    title: `Fee payer ${shortKey(body.publicKey)}`,
+    details,
+    children: [],
+  };
+  let tokenSymbol = tokenSymbolResolver(accountUpdates, options);
+  let nodes = toNodes(accountUpdatesToCallForest(accountUpdates), tokenSymbol);
+  return render([feePayerNode, ...nodes], options.format ?? 'text');
+}
+
+/**
+ * Renders account updates as a tree which shows their call hierarchy.
+ *
+ * Accepts either a flat list of account updates, where the hierarchy is determined by `callDepth`,
+ * or an {@link AccountUpdateForest}.
+ */
+function renderAccountUpdates(
+  updates: AccountUpdate[] | AccountUpdateForest,
+  options: RenderOptions = {}
+) {
+  let forest = Array.isArray(updates)
+    ? accountUpdatesToCallForest(updates)
+    : fromAccountUpdateForest(updates);
+  let tokenSymbol = tokenSymbolResolver(flatten(forest), options);
+  return render(toNodes(forest, tokenSymbol), options.format ?? 'text');
+}
+
+/**
+ * Formats an amount in nanomina as MINA, e.g. `1500000000n` => `'1.5 MINA'`.
+ */
+function formatMina(nanomina: bigint) {
+  let sign = nanomina < 0n ? '-' : '';
+  let abs = nanomina < 0n ? -nanomina : nanomina;
+  let whole = abs / 1_000_000_000n;
+  let fraction = (abs % 1_000_000_000n)
+    .toString()
+    .padStart(9, '0')
+    .replace(/0+$/, '');
+  return `${sign}${whole}${fraction === '' ? '' : `.${fraction}`} MINA`;
+}
+
+// account updates => nodes
+
+function toNodes(
+  forest: CallForest<AccountUpdate>,
+  tokenSymbol: (tokenId: Field) => string
+): Node[] {
+  return forest.map(({ accountUpdate, children }) => ({
+    ...toNode(accountUpdate, tokenSymbol),
+    children: toNodes(children, tokenSymbol),
+  }));
+}
+
+function toNode(
+  { label, body }: AccountUpdate,
+  tokenSymbol: (tokenId: Field) => string
+): Omit<Node, 'children'> {
+  let isDefaultToken = body.tokenId.equals(TokenId.default).toBoolean();
+  let symbol = tokenSymbol(body.tokenId);
+  let details: Node['details'] = [];
+
+  let balanceChange = BigInt(Int64.fromObject(body.balanceChange).toString());
+  if (balanceChange !== 0n) {
+    let sign = balanceChange > 0n ? '+' : '';
+    details.push([
+      'balance',
+      isDefaultToken
+        ? sign + formatMina(balanceChange)
+        : `${sign}${balanceChange} ${symbol}`,
+    ]);
+  }
+
+  let { isSigned, isProved } = body.authorizationKind;
+  details.push([
+    'authorization',
+    isProved.toBoolean()
+      ? `proof (vk hash ${shortField(
+          body.authorizationKind.verificationKeyHash
+        )})`
+      : isSigned.toBoolean()
+      ? 'signature'
+      : 'none',
+  ]);
+
+  let { parentsOwnToken, inheritFromParent } = body.mayUseToken;
+  if (parentsOwnToken.toBoolean()) {
+    details.push(['mayUseToken', 'parentsOwnToken']);
+  } else if (inheritFromParent.toBoolean()) {
+    details.push(['mayUseToken', 'inheritFromParent']);
+  }
+
+  let preconditions = checkedPreconditions(body.preconditions);
+  if (preconditions.length > 0) {
+    details.push(['preconditions', preconditions.join(', ')]);
+  }
+
+  let updates = Object.entries(body.update).flatMap(([key, value]) => {
+    if (!Array.isArray(value)) return value.isSome.toBoolean() ? [key] : [];
+    return value.flatMap(({ isSome }, i) =>
+      isSome.toBoolean() ? [`${key}[${i}]`] : []
+    );
+  });
+  if (updates.length > 0) details.push(['updates', updates.join(', ')]);
+
+  if (body.events.data.length > 0) {
+    details.push(['events', body.events.data.length.toString()]);
+  }
+  if (body.actions.data.length > 0) {
+    details.push(['actions', body.actions.data.length.toString()]);
+  }
+
+  let flags = (
+    [
+      'incrementNonce',
+      'useFullCommitment',
+      'implicitAccountCreationFee',
+    ] as const
+  ).filter((key) => body[key].toBoolean());
+  if (flags.length > 0) details.push(['flags', flags.join(', ')]);
+
+  return {
+    title: `${label || 'Unlabeled'} ${shortKey(body.publicKey)} (${symbol})`,
+    details,
+  };
+}
+
+function fromAccountUpdateForest(
+  forest: MerkleListBase<AccountUpdateTreeBase>
+): CallForest<AccountUpdate> {
+  return forest.data.get().map(({ element: tree }) => ({
+    accountUpdate: tree.accountUpdate.value.get(),
+    children: fromAccountUpdateForest(tree.children),
+  }));
+}
+
+function flatten(forest: CallForest<AccountUpdate>): AccountUpdate[] {
+  return forest.flatMap(({ accountUpdate, children }) => [
+    accountUpdate,
+    ...flatten(children),
+  ]);
+}
+
+function tokenSymbolResolver(
+  updates: AccountUpdate[],
+  { tokenSymbols = {} }: RenderOptions
+) {
+  let symbols = new Map<string, string>();
+  symbols.set(TokenId.toBase58(TokenId.default), 'MINA');
+
+  // token symbols of token owners which are part of the transaction
+  for (let { body } of updates) {
+    let tokenId = TokenId.toBase58(
+      TokenId.derive(body.publicKey, body.tokenId)
+    );
+    let { tokenSymbol } = body.update;
+    let symbol = tokenSymbol.isSome.toBoolean()
+      ? tokenSymbol.value.symbol
+      : tryGetTokenSymbol(body.publicKey, body.tokenId);
+    if (symbol) symbols.set(tokenId, symbol);
+  }
+  for (let [tokenId, symbol] of Object.entries(tokenSymbols)) {
+    symbols.set(tokenId, symbol);
+  }
+
+  return (tokenId: Field) => {
+    let base58 = TokenId.toBase58(tokenId);
+    return symbols.get(base58) ?? `token ..${base58.slice(-4)}`;
+  };
+}
+
+function tryGetTokenSymbol(publicKey: PublicKey, tokenId: Field) {
+  try {
+    if (!activeInstance.hasAccount(publicKey, tokenId)) return undefined;
+    return activeInstance.getAccount(publicKey, tokenId).tokenSymbol;
+  } catch {
+    // no active instance, or the account wasn't fetched
+    return undefined;
+  }
+}
+
+function shortKey(publicKey: PublicKey) {
+  let base58 = publicKey.toBase58();
+  return `${base58.slice(0, 4)}..${base58.slice(-4)}`;
+}
+
+function shortField(field: Field) {
+  return '..' + field.toString().slice(-6);
+}
+
+// nodes => string
+
+function render(nodes: Node[], format: RenderFormat) {
+  switch (format) {
+    case 'text':
+      return renderText(nodes, plain).join('\n');
+    case 'terminal':
+      return renderText(nodes, ansi).join('\n');
+    case 'markdown':
+      return renderMarkdown(nodes).join('\n');
+    case 'html':
+      return renderHtml(nodes);
+  }
+}
+
+type Style = {
+  title(s: string): string;
+  key(s: string): string;
+  value(key: string, s: string): string;
+};
+
+const plain: Style = {
+  title: (s) => s,
+  key: (s) => s,
+  value: (_, s) => s,
+};
+
+const ansi: Style = {
+  title: (s) => `\x1b[1m${s}\x1b[22m`,
+  key: (s) => `\x1b[2m${s}\x1b[22m`,
+  value(key, s) {
+    if (key === 'balance' || key === 'fee') {
+      let color = s.startsWith('+') ? 32 : s.startsWith('-') ? 31 : 33;
+      return `\x1b[${color}m${s}\x1b[39m`;
+    }
+    return s;
+  },
+};
+
+function renderText(nodes: Node[], style: Style, prefix = ''): string[] {
+  return nodes.flatMap((node, i) => {
+    let isLast = i === nodes.length - 1;
+    let childPrefix = prefix + (isLast ? '   ' : '│  ');
+    let detailPrefix = childPrefix + (node.children.length > 0 ? '│ ' : '  ');
+    return [
+      prefix + (isLast ? '└─ ' : '├─ ') + style.title(node.title),
+      ...node.details.map(
+        ([key, value]) =>
+          detailPrefix + style.key(`${key}: `) + style.value(key, value)
+      ),
+      ...renderText(node.children, style, childPrefix),
+    ];
+  });
+}
+
+function renderMarkdown(nodes: Node[], indent = ''): string[] {
+  return nodes.flatMap(({ title, details, children }) => [
+    `${indent}- **${escapeMarkdown(title)}**`,
+    ...details.map(
+      ([key, value]) => `${indent}  - ${key}: \`${value.replace(/`/g, "'")}\``
+    ),
+    ...renderMarkdown(children, indent + '  '),
+  ]);
+}
+
+function renderHtml(nodes: Node[]): string {
+  if (nodes.length === 0) return '';
+  let items = nodes.map(({ title, details, children }) => {
+    let detailList = details
+      .map(
+        ([key, value]) =>
+          `<li><span class="key">${escapeHtml(key)}</span>: ` +
+          `<code>${escapeHtml(value)}</code></li>`
+      )
+      .join('');
+    return (
+      `<li><strong>${escapeHtml(title)}</strong>` +
+      `<ul class="details">${detailList}</ul>` +
+      renderHtml(children) +
+      '</li>'
+    );
+  });
+  return `<ul class="account-updates">${items.join('')}</ul>`;
+}
+
+function escapeMarkdown(s: string) {
+  return s.replace(/([\\`*_[\]<>])/g, '\\$1');
+}
+
+function escapeHtml(s: string) {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
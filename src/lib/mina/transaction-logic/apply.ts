@@ -1,30 +1,607 @@
 /**
  * Apply transactions to a ledger of accounts.
+ *
+ * This mirrors the zkApp command logic of the Mina protocol, and reports failures with the protocol's error codes,
+ * like `Update_not_permitted_app_state` or `Account_balance_precondition_unsatisfied`.
+ *
+ * Authorizations themselves (signatures and proofs) are not verified here, see `verifyAccountUpdate()`.
+ * Only the authorization _kind_ is checked against the account's permissions.
+ */
+import {
+  TokenId,
+  Actions,
+  TransactionVersion,
+  ZkappCommand,
+} from '../account-update.js';
+import { Account, newAccount } from '../account.js';
+import {
+  Types,
+  TypesBigint,
+} from '../../../bindings/mina-transaction/types.js';
+import { Bool, Field } from '../../provable/wrapped.js';
+import { Int64, UInt32, UInt64 } from '../../provable/int.js';
+import { PublicKey } from '../../provable/crypto/signature.js';
+import { Poseidon } from '../../provable/crypto/poseidon.js';
+import type {
+  ClosedInterval,
+  NetworkValue,
+  OrIgnore,
+} from '../precondition.js';
+import { ZkappStateLength, defaultNetworkConstants } from '../mina-instance.js';
+import { transactionCommitments } from '../../../mina-signer/src/sign-zkapp-command.js';
+import type { NetworkId } from '../../../mina-signer/src/types.js';
+import type { SimpleLedger } from './ledger.js';
+
+export {
+  applyAccountUpdate,
+  applyZkappCommand,
+  AccountUpdateContext,
+  ZkappCommandResult,
+  ZkappCommandContext,
+};
+
+type Body = Types.AccountUpdate['body'];
+
+// same as Hash_prefix.receipt_chain_zkapp_command in OCaml, which is missing from the generated `prefixes`;
+// like all hash prefixes, it is padded with '*' to 20 characters
+const receiptChainZkappCommandPrefix = 'CodaReceiptUC*******';
+
+/**
+ * Context of an account update which is global to the transaction.
+ */
+type AccountUpdateContext = {
+  /**
+   * The network state to check preconditions against.
+   * If not provided, network and `validWhile` preconditions are not checked.
+   */
+  networkState?: NetworkValue;
+  accountCreationFee?: UInt64;
+  /**
+   * Whether the account is created by this account update.
+   */
+  isNew?: boolean;
+  /**
+   * The token which the account update is allowed to use, as determined by its parents and `mayUseToken`.
+   */
+  callerTokenId?: Field;
+  /**
+   * The commitments of the transaction, and the index of the account update in it, where the fee payer has index 0.
+   * If provided, the receipt chain hash of the account is updated for signed and proved account updates.
+   */
+  transaction?: {
+    commitment: Field;
+    fullCommitment: Field;
+    accountUpdateIndex: number;
+  };
+};
+
+/**
+ * Options for applying a zkApp command, see {@link AccountUpdateContext}.
+ *
+ * The `networkId` determines the transaction commitments that receipt chain hashes are updated with,
+ * it defaults to `'testnet'` like in a `LocalBlockchain`.
  */
-import { type AccountUpdate } from '../account-update.js';
-import { Account } from '../account.js';
+type ZkappCommandContext = Pick<
+  AccountUpdateContext,
+  'networkState' | 'accountCreationFee'
+> & { networkId?: NetworkId };
 
-export { applyAccountUpdate };
+/**
+ * Result of applying a zkApp command:
+ * - `'applied'`: all account updates were applied
+ * - `'failed'`: the fee was charged, but the account updates were not applied because at least one of them failed
+ * - `'rejected'`: the fee payer is invalid, nothing was applied
+ *
+ * `failures` contains the error codes for the fee payer, followed by one entry per account update.
+ * `accounts` contains the account touched by each of them, before and after it was applied, in the same order.
+ * `before` is undefined for accounts that didn't exist yet, and `after` is undefined if nothing was applied.
+ */
+type ZkappCommandResult = {
+  status: 'applied' | 'failed' | 'rejected';
+  failures: string[][];
+  accounts: { before?: Account; after?: Account }[];
+};
 
 /**
  * Apply a single account update to update an account.
  *
- * TODO:
- * - This must receive and return some context global to the transaction, to check validity
- * - Should operate on the value / bigint type, not the provable type
+ * Returns the updated account and the failures that occurred. Parts of the update that failed are not applied,
+ * so when `failures` is not empty, the returned account should usually be discarded.
  */
-function applyAccountUpdate(account: Account, update: AccountUpdate): Account {
-  account.publicKey.assertEquals(update.publicKey);
-  account.tokenId.assertEquals(update.tokenId, 'token id mismatch');
+function applyAccountUpdate(
+  account: Account,
+  update: { body: Body },
+  {
+    networkState,
+    accountCreationFee = defaultNetworkConstants.accountCreationFee,
+    isNew = false,
+    callerTokenId = TokenId.default,
+    transaction,
+  }: AccountUpdateContext = {}
+): { account: Account; failures: string[] } {
+  let { body } = update;
+  account.publicKey.assertEquals(body.publicKey);
+  account.tokenId.assertEquals(body.tokenId, 'token id mismatch');
 
   // clone account (TODO: do this efficiently)
   let json = Account.toJSON(account);
+  let original = account;
   account = Account.fromJSON(json);
 
-  // update permissions
-  if (update.update.permissions.isSome.toBoolean()) {
-    account.permissions = update.update.permissions.value;
+  let failures: string[] = [];
+  let isDefaultToken = body.tokenId.equals(TokenId.default).toBoolean();
+  let { isSigned, isProved } = body.authorizationKind;
+  let auth = { isSigned: isSigned.toBoolean(), isProved: isProved.toBoolean() };
+  let perm = original.permissions;
+
+  function checkPermission(required: Types.AuthRequired, failure: string) {
+    if (isAuthorized(required, auth)) return true;
+    failures.push(failure);
+    return false;
+  }
+
+  // token ownership
+  if (!isDefaultToken && !body.tokenId.equals(callerTokenId).toBoolean()) {
+    failures.push('Token_owner_not_caller');
+  }
+
+  // preconditions, checked against the account before this update
+  failures.push(...checkPreconditions(original, body, networkState, isNew));
+
+  // replay protection for signed account updates
+  let nonce = body.preconditions.account.nonce;
+  let hasConstantNonce =
+    nonce.isSome.toBoolean() &&
+    nonce.value.lower.equals(nonce.value.upper).toBoolean();
+  if (
+    auth.isSigned &&
+    !(body.incrementNonce.toBoolean() && hasConstantNonce) &&
+    !body.useFullCommitment.toBoolean()
+  ) {
+    failures.push('Zkapp_command_replay_check_failed');
+  }
+
+  checkPermission(perm.access, 'Update_not_permitted_access');
+
+  // balance change and account creation fee
+  let balanceChange = BigInt(Int64.fromObject(body.balanceChange).toString());
+  if (balanceChange < 0n) {
+    checkPermission(perm.send, 'Update_not_permitted_balance');
+  } else if (balanceChange > 0n) {
+    checkPermission(perm.receive, 'Update_not_permitted_balance');
   }
+  let balance = original.balance.toBigInt() + balanceChange;
+  let paysCreationFee = isNew && body.implicitAccountCreationFee.toBoolean();
+  if (paysCreationFee) {
+    if (!isDefaultToken) {
+      failures.push('Cannot_pay_creation_fee_in_token');
+    }
+    balance -= accountCreationFee.toBigInt();
+  }
+  if (balance < 0n) {
+    failures.push(
+      paysCreationFee ? 'Amount_insufficient_to_create_account' : 'Overflow'
+    );
+  } else if (balance >= 1n << 64n) {
+    failures.push('Overflow');
+  } else {
+    let globalSlot = networkState?.globalSlotSinceGenesis ?? UInt32.zero;
+    if (
+      balanceChange < 0n &&
+      balance < minimumBalance(original.timing, globalSlot.toBigint())
+    ) {
+      failures.push('Source_minimum_balance_violation');
+    } else {
+      account.balance = UInt64.from(balance);
+    }
+  }
+
+  // account fields
+  let { update: changes } = body;
+  let zkapp = () => (account.zkapp ??= emptyZkapp());
+
+  let appState = changes.appState.map(({ isSome }) => isSome.toBoolean());
+  let changesAppState = appState.some((isSome) => isSome);
+  if (
+    changesAppState &&
+    checkPermission(perm.editState, 'Update_not_permitted_app_state')
+  ) {
+    changes.appState.forEach(({ isSome, value }, i) => {
+      if (isSome.toBoolean()) zkapp().appState[i] = value;
+    });
+    // proved state tracks whether the entire app state was determined by proofs
+    let changesEntireAppState = appState.every((isSome) => isSome);
+    if (!auth.isProved) zkapp().provedState = Bool(false);
+    else if (changesEntireAppState) zkapp().provedState = Bool(true);
+  }
+
+  if (changes.delegate.isSome.toBoolean()) {
+    if (!isDefaultToken) failures.push('Update_not_permitted_delegate');
+    else if (checkPermission(perm.setDelegate, 'Update_not_permitted_delegate'))
+      account.delegate = changes.delegate.value;
+  }
+  // a verification key permission from an older transaction version falls back to requiring a signature.
+  // the zkApp version of the account itself is never changed by zkApp commands
+  if (
+    changes.verificationKey.isSome.toBoolean() &&
+    checkPermission(
+      verificationKeyAuth(perm.setVerificationKey),
+      'Update_not_permitted_verification_key'
+    )
+  ) {
+    zkapp().verificationKey = changes.verificationKey.value;
+  }
+  if (
+    changes.permissions.isSome.toBoolean() &&
+    checkPermission(perm.setPermissions, 'Update_not_permitted_permissions')
+  ) {
+    account.permissions = changes.permissions.value;
+  }
+  if (
+    changes.zkappUri.isSome.toBoolean() &&
+    checkPermission(perm.setZkappUri, 'Update_not_permitted_zkapp_uri')
+  ) {
+    zkapp().zkappUri = changes.zkappUri.value.data;
+  }
+  if (
+    changes.tokenSymbol.isSome.toBoolean() &&
+    checkPermission(perm.setTokenSymbol, 'Update_not_permitted_token_symbol')
+  ) {
+    account.tokenSymbol = changes.tokenSymbol.value.symbol;
+  }
+  if (
+    changes.timing.isSome.toBoolean() &&
+    checkPermission(perm.setTiming, 'Update_not_permitted_timing')
+  ) {
+    account.timing = { isTimed: Bool(true), ...changes.timing.value };
+  }
+  if (
+    changes.votingFor.isSome.toBoolean() &&
+    checkPermission(perm.setVotingFor, 'Update_not_permitted_voting_for')
+  ) {
+    account.votingFor = changes.votingFor.value;
+  }
+
+  // actions
+  if (
+    body.actions.data.length > 0 &&
+    checkPermission(perm.editActionState, 'Update_not_permitted_action_state')
+  ) {
+    let globalSlot = networkState?.globalSlotSinceGenesis ?? UInt32.zero;
+    let [s0, s1, s2, s3, s4] = zkapp().actionState;
+    let newState = Actions.updateSequenceState(s0, body.actions.hash);
+    // the older action states are shifted once per slot in which actions are dispatched
+    let isNewSlot = zkapp().lastActionSlot.lessThan(globalSlot).toBoolean();
+    zkapp().actionState = isNewSlot
+      ? [newState, s0, s1, s2, s3]
+      : [newState, s1, s2, s3, s4];
+    zkapp().lastActionSlot = globalSlot;
+  }
+
+  // nonce
+  if (
+    body.incrementNonce.toBoolean() &&
+    checkPermission(perm.incrementNonce, 'Update_not_permitted_nonce')
+  ) {
+    account.nonce = account.nonce.add(1);
+  }
+
+  // receipt chain hash
+  if (transaction !== undefined && (auth.isSigned || auth.isProved)) {
+    let commitment = body.useFullCommitment.toBoolean()
+      ? transaction.fullCommitment
+      : transaction.commitment;
+    account.receiptChainHash = Poseidon.hashWithPrefix(
+      receiptChainZkappCommandPrefix,
+      [
+        commitment,
+        account.receiptChainHash,
+        Field(transaction.accountUpdateIndex),
+      ]
+    );
+  }
+
+  return { account, failures };
+}
+
+/**
+ * Apply a zkApp command to a ledger.
+ *
+ * The fee is charged if the fee payer is valid. Account updates are applied atomically: if any of them fails,
+ * none of them are applied to the ledger.
+ */
+function applyZkappCommand(
+  ledger: SimpleLedger,
+  command: ZkappCommand,
+  {
+    networkState,
+    accountCreationFee = defaultNetworkConstants.accountCreationFee,
+    networkId = 'testnet',
+  }: ZkappCommandContext = {}
+): ZkappCommandResult {
+  let { feePayer, accountUpdates } = command;
+  let context = { networkState, accountCreationFee };
+  let commitments = transactionCommitments(
+    TypesBigint.ZkappCommand.fromJSON(ZkappCommand.toJSON(command)),
+    networkId
+  );
+  let transaction = (accountUpdateIndex: number) => ({
+    commitment: Field(commitments.commitment),
+    fullCommitment: Field(commitments.fullCommitment),
+    accountUpdateIndex,
+  });
+
+  // the fee payer is applied like an account update which pays the fee and increments the nonce
+  let feePayerBody = Types.AccountUpdate.empty().body;
+  feePayerBody.publicKey = feePayer.body.publicKey;
+  feePayerBody.balanceChange = Int64.fromUnsigned(feePayer.body.fee).neg();
+  feePayerBody.incrementNonce = Bool(true);
+  feePayerBody.useFullCommitment = Bool(true);
+  feePayerBody.authorizationKind.isSigned = Bool(true);
+  feePayerBody.preconditions.account.nonce = {
+    isSome: Bool(true),
+    value: { lower: feePayer.body.nonce, upper: feePayer.body.nonce },
+  };
+  if (feePayer.body.validUntil !== undefined) {
+    feePayerBody.preconditions.validWhile = {
+      isSome: Bool(true),
+      value: { lower: UInt32.zero, upper: feePayer.body.validUntil },
+    };
+  }
+  let feePayerAccount = ledger.load(feePayerBody);
+  let feePayerResult = applyAccountUpdate(
+    feePayerAccount ?? newAccount(feePayerBody),
+    { body: feePayerBody },
+    {
+      ...context,
+      isNew: feePayerAccount === undefined,
+      transaction: transaction(0),
+    }
+  );
+  if (feePayerResult.failures.length > 0) {
+    return {
+      status: 'rejected',
+      failures: [
+        feePayerResult.failures,
+        ...accountUpdates.map((): string[] => []),
+      ],
+      accounts: [
+        { before: feePayerAccount },
+        ...accountUpdates.map(({ body }) => ({ before: ledger.load(body) })),
+      ],
+    };
+  }
+  ledger.store(feePayerResult.account);
+
+  // account updates are applied to a copy of the accounts, which is only committed if all succeed
+  let updated = new Map<string, Account>();
+  let key = ({
+    publicKey,
+    tokenId,
+  }: {
+    publicKey: PublicKey;
+    tokenId: Field;
+  }) => `${publicKey.toBase58()};${tokenId}`;
+
+  // for every call depth, the token owned by the account update at that depth, and the token it may use
+  let parents: { ownTokenId: Field; callerTokenId: Field }[] = [];
+  let excess = 0n;
+  let accounts: ZkappCommandResult['accounts'] = [
+    { before: feePayerAccount, after: feePayerResult.account },
+  ];
+
+  let failures = accountUpdates.map(({ body }, i) => {
+    let depth = body.callDepth;
+    let parent = parents[depth - 1];
+    let { parentsOwnToken, inheritFromParent } = body.mayUseToken;
+    let callerTokenId =
+      parent === undefined
+        ? TokenId.default
+        : parentsOwnToken.toBoolean()
+        ? parent.ownTokenId
+        : inheritFromParent.toBoolean()
+        ? parent.callerTokenId
+        : TokenId.default;
+    parents[depth] = {
+      ownTokenId: TokenId.derive(body.publicKey, body.tokenId),
+      callerTokenId,
+    };
+    parents.length = depth + 1;
+
+    let stored = updated.get(key(body)) ?? ledger.load(body);
+    let isNew = stored === undefined;
+    let { account, failures } = applyAccountUpdate(
+      stored ?? newAccount(body),
+      { body },
+      { ...context, isNew, callerTokenId, transaction: transaction(i + 1) }
+    );
+    updated.set(key(body), account);
+    accounts.push({ before: stored, after: account });
+
+    // the MINA which is not paid to or from accounts must cover the creation fees of new accounts.
+    // like in the protocol, there is no such check for custom tokens, whose owners can mint and burn them
+    if (body.tokenId.equals(TokenId.default).toBoolean()) {
+      excess -= BigInt(Int64.fromObject(body.balanceChange).toString());
+      if (isNew && !body.implicitAccountCreationFee.toBoolean()) {
+        excess -= accountCreationFee.toBigInt();
+      }
+    }
+    return failures;
+  });
+
+  if (accountUpdates.length > 0 && excess !== 0n) {
+    failures[failures.length - 1].push('Invalid_fee_excess');
+  }
+
+  let failed = failures.some((f) => f.length > 0);
+  if (!failed) {
+    updated.forEach((account) => ledger.store(account));
+  }
+  return {
+    status: failed ? 'failed' : 'applied',
+    failures: [[], ...failures],
+    accounts,
+  };
+}
+
+// helpers
+
+function isAuthorized(
+  required: Types.AuthRequired,
+  { isSigned, isProved }: { isSigned: boolean; isProved: boolean }
+) {
+  switch (Types.AuthRequired.toJSON(required)) {
+    case 'None':
+      return true;
+    case 'Either':
+      return isSigned || isProved;
+    case 'Signature':
+      return isSigned;
+    case 'Proof':
+      return isProved;
+    case 'Impossible':
+      return false;
+  }
+}
+
+function verificationKeyAuth({
+  auth,
+  txnVersion,
+}: Account['permissions']['setVerificationKey']): Types.AuthRequired {
+  if (txnVersion.lessThan(TransactionVersion.current()).toBoolean()) {
+    let kind = Types.AuthRequired.toJSON(auth);
+    if (kind === 'Proof' || kind === 'Impossible') {
+      return Types.AuthRequired.fromJSON('Signature');
+    }
+  }
+  return auth;
+}
+
+function checkPreconditions(
+  account: Account,
+  body: Body,
+  networkState: NetworkValue | undefined,
+  isNew: boolean
+): string[] {
+  let failures: string[] = [];
+  let {
+    network,
+    account: accountPrecondition,
+    validWhile,
+  } = body.preconditions;
+
+  if (networkState !== undefined) {
+    if (!isSatisfied(network, networkState)) {
+      failures.push('Protocol_state_precondition_unsatisfied');
+    }
+    if (!isSatisfied(validWhile, networkState.globalSlotSinceGenesis)) {
+      failures.push('Valid_while_precondition_unsatisfied');
+    }
+  }
+
+  let { balance, nonce, receiptChainHash, delegate, state, actionState } =
+    accountPrecondition;
+  let zkapp = account.zkapp ?? emptyZkapp();
+
+  if (!isSatisfied(balance, account.balance))
+    failures.push('Account_balance_precondition_unsatisfied');
+  if (!isSatisfied(nonce, account.nonce))
+    failures.push('Account_nonce_precondition_unsatisfied');
+  if (!isSatisfied(receiptChainHash, account.receiptChainHash))
+    failures.push('Account_receipt_chain_hash_precondition_unsatisfied');
+  if (!isSatisfied(delegate, account.delegate ?? PublicKey.empty()))
+    failures.push('Account_delegate_precondition_unsatisfied');
+  state.forEach((precondition, i) => {
+    if (!isSatisfied(precondition, zkapp.appState[i]))
+      failures.push(`Account_app_state_${i}_precondition_unsatisfied`);
+  });
+  if (
+    actionState.isSome.toBoolean() &&
+    !zkapp.actionState.some((s) => s.equals(actionState.value).toBoolean())
+  ) {
+    failures.push('Account_action_state_precondition_unsatisfied');
+  }
+  if (!isSatisfied(accountPrecondition.provedState, zkapp.provedState))
+    failures.push('Account_proved_state_precondition_unsatisfied');
+  if (!isSatisfied(accountPrecondition.isNew, Bool(isNew)))
+    failures.push('Account_is_new_precondition_unsatisfied');
+
+  return failures;
+}
+
+/**
+ * The value a precondition is checked against: the type of an `OrIgnore` condition,
+ * or an object of the same shape for nested preconditions.
+ */
+type PreconditionValue<P> = P extends OrIgnore<ClosedInterval<infer T>>
+  ? T
+  : P extends OrIgnore<infer T>
+  ? T
+  : { [K in keyof P]: PreconditionValue<P[K]> };
+
+type Comparable = {
+  equals(y: Comparable): Bool;
+  lessThanOrEqual(y: Comparable): Bool;
+};
+type Condition = OrIgnore<Comparable | ClosedInterval<Comparable>>;
+
+function isCondition(precondition: object): precondition is Condition {
+  return 'isSome' in precondition && 'value' in precondition;
+}
+
+/**
+ * Checks a precondition, consisting of nested `OrIgnore` equality and range conditions, against a value.
+ */
+function isSatisfied<P extends object>(
+  precondition: P,
+  value: PreconditionValue<P>
+): boolean {
+  if (isCondition(precondition)) {
+    if (!precondition.isSome.toBoolean()) return true;
+    let expected = precondition.value;
+    let actual = value as Comparable;
+    if ('lower' in expected && 'upper' in expected) {
+      return (
+        expected.lower.lessThanOrEqual(actual).toBoolean() &&
+        actual.lessThanOrEqual(expected.upper).toBoolean()
+      );
+    }
+    return expected.equals(actual).toBoolean();
+  }
+  let nested = precondition as Record<string, object>;
+  let values = value as Record<string, PreconditionValue<object>>;
+  return Object.keys(nested).every((key) =>
+    isSatisfied(nested[key], values[key])
+  );
+}
+
+/**
+ * The minimum balance of a timed account at the given global slot.
+ */
+function minimumBalance(timing: Account['timing'], globalSlot: bigint) {
+  if (!timing.isTimed.toBoolean()) return 0n;
+  let initialMinimumBalance = timing.initialMinimumBalance.toBigInt();
+  let cliffTime = timing.cliffTime.toBigint();
+  if (globalSlot < cliffTime) return initialMinimumBalance;
+
+  let vestingPeriod = timing.vestingPeriod.toBigint();
+  let vested =
+    timing.cliffAmount.toBigInt() +
+    (vestingPeriod === 0n
+      ? initialMinimumBalance
+      : ((globalSlot - cliffTime) / vestingPeriod) *
+        timing.vestingIncrement.toBigInt());
+  return vested >= initialMinimumBalance ? 0n : initialMinimumBalance - vested;
+}
 
-  return account;
+function emptyZkapp(): NonNullable<Account['zkapp']> {
+  return {
+    appState: Array.from({ length: ZkappStateLength }, () => Field(0)),
+    verificationKey: undefined,
+    zkappVersion: UInt32.zero,
+    actionState: Array.from({ length: 5 }, () => Actions.emptyActionState()),
+    lastActionSlot: UInt32.zero,
+    provedState: Bool(false),
+    zkappUri: '',
+  };
 }
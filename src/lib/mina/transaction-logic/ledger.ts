@@ -2,10 +2,16 @@
  * A ledger of accounts - simple model of a local blockchain.
  */
 import { PublicKey } from '../../provable/crypto/signature.js';
-import type { AccountUpdate } from '../account-update.js';
+import type { AccountUpdate, ZkappCommand } from '../account-update.js';
 import { Account, newAccount } from '../account.js';
 import { Field } from '../../provable/field.js';
-import { applyAccountUpdate } from './apply.js';
+import {
+  applyAccountUpdate,
+  applyZkappCommand,
+  type AccountUpdateContext,
+  type ZkappCommandContext,
+  type ZkappCommandResult,
+} from './apply.js';
 import { Types } from '../../../bindings/mina-transaction/types.js';
 
 export { SimpleLedger };
@@ -41,13 +47,32 @@ class SimpleLedger {
     return account;
   }
 
-  apply(update: AccountUpdate): void {
+  /**
+   * Apply a single account update, and return the failures that occurred.
+   * Parts of the update which failed are not applied to the account.
+   */
+  apply(update: AccountUpdate, context: AccountUpdateContext = {}): string[] {
     let id = accountId(update.body);
     let account = this.accounts.get(id);
+    let isNew = account === undefined;
     account ??= newAccount(update.body);
 
-    let updated = applyAccountUpdate(account, update);
+    let { account: updated, failures } = applyAccountUpdate(account, update, {
+      isNew,
+      ...context,
+    });
     this.accounts.set(id, updated);
+    return failures;
+  }
+
+  /**
+   * Apply a zkApp command, including the fee payer.
+   */
+  applyZkappCommand(
+    command: ZkappCommand,
+    context: ZkappCommandContext = {}
+  ): ZkappCommandResult {
+    return applyZkappCommand(this, command, context);
   }
 }
 
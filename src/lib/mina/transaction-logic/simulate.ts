@@ -0,0 +1,222 @@
+/**
+ * Dry-run a zkApp command against a ledger and describe its effect on every account.
+ */
+import { ZkappCommand } from '../account-update.js';
+import { Account, newAccount } from '../account.js';
+import {
+  Types,
+  TypesBigint,
+} from '../../../bindings/mina-transaction/types.js';
+import { Field } from '../../provable/wrapped.js';
+import { Int64, UInt32, UInt64 } from '../../provable/int.js';
+import { PublicKey } from '../../provable/crypto/signature.js';
+import type { NetworkValue, OrIgnore, Preconditions } from '../precondition.js';
+import { transactionCommitments } from '../../../mina-signer/src/sign-zkapp-command.js';
+import type { NetworkId } from '../../../mina-signer/src/types.js';
+import { verifyAccountUpdate } from '../transaction-validation.js';
+import { applyZkappCommand } from './apply.js';
+import type { SimpleLedger } from './ledger.js';
+
+export {
+  simulateZkappCommand,
+  checkedPreconditions,
+  TransactionSimulation,
+  AccountUpdateDiff,
+};
+
+/**
+ * The result of simulating a transaction.
+ *
+ * `status` is the status the transaction would have if it was applied to the ledger:
+ * - `'applied'`: all account updates would be applied
+ * - `'failed'`: the fee would be charged, but at least one account update fails
+ * - `'rejected'`: the fee payer or an authorization is invalid
+ */
+type TransactionSimulation = {
+  status: 'applied' | 'failed' | 'rejected';
+  feePayer: AccountUpdateDiff;
+  accountUpdates: AccountUpdateDiff[];
+};
+
+/**
+ * The effect of a single account update on its account.
+ *
+ * For account updates which fail, the diff shows the changes that would have been made by the parts
+ * of the update that succeeded, but none of them are applied to the ledger.
+ */
+type AccountUpdateDiff = {
+  label: string;
+  publicKey: PublicKey;
+  tokenId: Field;
+  /**
+   * Whether the account is created by this account update.
+   */
+  isNew: boolean;
+  balance: { before: UInt64; after: UInt64; change: Int64 };
+  nonce: { before: UInt32; after: UInt32 };
+  /**
+   * The app state fields that were changed.
+   */
+  appState: { index: number; before: Field; after: Field }[];
+  /**
+   * Only defined if the permissions were changed.
+   */
+  permissions?: {
+    before: Account['permissions'];
+    after: Account['permissions'];
+  };
+  events: Field[][];
+  actions: Field[][];
+  /**
+   * The preconditions which were checked, for example `'account.balance'` or `'network.blockchainLength'`.
+   */
+  preconditions: string[];
+  /**
+   * Error codes of the protocol, like `'Account_balance_precondition_unsatisfied'`,
+   * and errors found when verifying authorizations.
+   */
+  failures: string[];
+};
+
+/**
+ * Simulate a zkApp command on a ledger, and return the diff of every account update.
+ *
+ * The ledger is modified in the process, so callers should pass a ledger created just for the simulation.
+ */
+async function simulateZkappCommand(
+  ledger: SimpleLedger,
+  command: ZkappCommand,
+  {
+    networkState,
+    accountCreationFee,
+    proofsEnabled,
+    networkId,
+  }: {
+    networkState?: NetworkValue;
+    accountCreationFee?: UInt64;
+    proofsEnabled: boolean;
+    networkId: NetworkId;
+  }
+): Promise<TransactionSimulation> {
+  let result = applyZkappCommand(ledger, command, {
+    networkState,
+    accountCreationFee,
+    networkId,
+  });
+
+  // authorizations are checked against each account as it was before the account update,
+  // which includes the changes of earlier account updates to the same account
+  let commitments = transactionCommitments(
+    TypesBigint.ZkappCommand.fromJSON(ZkappCommand.toJSON(command)),
+    networkId
+  );
+  let authorizationErrors = await Promise.all(
+    command.accountUpdates.map(async (update, i) => {
+      let account = result.accounts[i + 1].before ?? newAccount(update.body);
+      try {
+        await verifyAccountUpdate(
+          account,
+          update,
+          update.toPublicInput(command),
+          commitments,
+          proofsEnabled,
+          networkId
+        );
+        return [];
+      } catch (err) {
+        return [err instanceof Error ? err.message : String(err)];
+      }
+    })
+  );
+
+  let feePayerBody = {
+    ...Types.AccountUpdate.empty().body,
+    publicKey: command.feePayer.body.publicKey,
+    balanceChange: Int64.fromUnsigned(command.feePayer.body.fee).neg(),
+  };
+  let feePayer = toDiff(
+    'Fee payer',
+    feePayerBody,
+    result.accounts[0],
+    result.failures[0]
+  );
+  feePayer.preconditions = ['account.nonce'];
+  if (command.feePayer.body.validUntil !== undefined) {
+    feePayer.preconditions.push('validWhile');
+  }
+
+  let accountUpdates = command.accountUpdates.map((update, i) =>
+    toDiff(update.label, update.body, result.accounts[i + 1], [
+      ...authorizationErrors[i],
+      ...result.failures[i + 1],
+    ])
+  );
+
+  let isAuthorized = authorizationErrors.every((e) => e.length === 0);
+  return {
+    status: isAuthorized ? result.status : 'rejected',
+    feePayer,
+    accountUpdates,
+  };
+}
+
+function toDiff(
+  label: string,
+  body: Types.AccountUpdate['body'],
+  { before, after }: { before?: Account; after?: Account },
+  failures: string[]
+): AccountUpdateDiff {
+  let isNew = before === undefined;
+  let initial = before ?? newAccount(body);
+  let final = after ?? initial;
+  let initialBalance = isNew ? UInt64.zero : initial.balance;
+
+  let appStateBefore = initial.zkapp?.appState ?? [];
+  let appStateAfter = final.zkapp?.appState ?? [];
+  let appState = appStateAfter.flatMap((after, index) => {
+    let before = appStateBefore[index] ?? Field(0);
+    return before.equals(after).toBoolean() ? [] : [{ index, before, after }];
+  });
+
+  let permissionsChanged =
+    JSON.stringify(Account.toJSON(initial).permissions) !==
+    JSON.stringify(Account.toJSON(final).permissions);
+
+  return {
+    label,
+    publicKey: body.publicKey,
+    tokenId: body.tokenId,
+    isNew,
+    balance: {
+      before: initialBalance,
+      after: final.balance,
+      change: Int64.from(final.balance.toBigInt() - initialBalance.toBigInt()),
+    },
+    nonce: { before: initial.nonce, after: final.nonce },
+    appState,
+    permissions: permissionsChanged
+      ? { before: initial.permissions, after: final.permissions }
+      : undefined,
+    events: body.events.data,
+    actions: body.actions.data,
+    preconditions: checkedPreconditions(body.preconditions),
+    failures,
+  };
+}
+
+/**
+ * Lists the paths of all preconditions which are not ignored.
+ */
+function checkedPreconditions(preconditions: Preconditions): string[] {
+  return checkedPaths(preconditions, []);
+}
+
+function checkedPaths(precondition: object, path: string[]): string[] {
+  if ('isSome' in precondition && 'value' in precondition) {
+    let { isSome } = precondition as OrIgnore<unknown>;
+    return isSome.toBoolean() ? [path.join('.')] : [];
+  }
+  return Object.entries(precondition).flatMap(([key, nested]) =>
+    checkedPaths(nested, [...path, key])
+  );
+}
@@ -26,6 +26,7 @@ export {
   reportGetAccountError,
   defaultNetworkState,
   verifyTransactionLimits,
+  transactionCost,
   verifyAccountUpdate,
   filterGroups,
 };
@@ -57,7 +58,12 @@ function defaultNetworkState(): NetworkValue {
   };
 }
 
-function verifyTransactionLimits({ accountUpdates }: ZkappCommand) {
+/**
+ * Computes how expensive a zkApp command is for the network to process, and how many event and action field elements it contains.
+ */
+function transactionCost({
+  accountUpdates,
+}: Pick<ZkappCommand, 'accountUpdates'>) {
   let eventElements = { events: 0, actions: 0 };
 
   let authKinds = accountUpdates.map((update) => {
@@ -93,6 +99,13 @@ function verifyTransactionLimits({ accountUpdates }: ZkappCommand) {
     TransactionCost.SIGNED_PAIR_COST * authTypes.signedPair +
     TransactionCost.SIGNED_SINGLE_COST * authTypes.signedSingle;
 
+  return { authTypes, totalTimeRequired, eventElements };
+}
+
+function verifyTransactionLimits(transaction: ZkappCommand) {
+  let { authTypes, totalTimeRequired, eventElements } =
+    transactionCost(transaction);
+
   let isWithinCostLimit = totalTimeRequired < TransactionCost.COST_LIMIT;
 
   let isWithinEventsLimit =
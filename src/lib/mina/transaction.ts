@@ -22,6 +22,17 @@ import { type SendZkAppResponse, sendZkappQuery } from './graphql.js';
 import { type FetchMode } from './transaction-context.js';
 import { assertPromise } from '../util/assert.js';
 import { Types } from '../../bindings/mina-transaction/types.js';
+import { SimpleLedger } from './transaction-logic/ledger.js';
+import {
+  type RenderOptions,
+  renderTransaction,
+} from './transaction-explorer.js';
+import { type FeeEstimate, estimateFee } from './fee-estimation.js';
+import {
+  type TransactionSimulation,
+  type AccountUpdateDiff,
+  simulateZkappCommand,
+} from './transaction-logic/simulate.js';
 
 export {
   Transaction,
@@ -31,6 +42,9 @@ export {
   type RejectedTransaction,
   type PendingTransactionPromise,
   type PendingTransactionStatus,
+  type TransactionSimulation,
+  type AccountUpdateDiff,
+  type FeeEstimate,
   createTransaction,
   toTransactionPromise,
   toPendingTransactionPromise,
@@ -53,10 +67,16 @@ type TransactionCommon = {
    */
   toJSON(): string;
   /**
-   * Produces a pretty-printed JSON representation of the {@link Transaction}.
-   * @returns A formatted string representing the transaction in JSON.
+   * Renders the {@link Transaction} as a tree which shows the call hierarchy of account updates,
+   * with token symbols, authorization kinds, `mayUseToken`, balance changes in MINA and the preconditions which are set.
+   * @param options The output format (plain text, colored terminal output, Markdown or HTML) and custom token symbols.
+   * @returns A string representation of the {@link Transaction}, for humans reviewing it.
+   * @example
+   * ```ts
+   * console.log(transaction.toPretty({ format: 'terminal' }));
+   * ```
    */
-  toPretty(): any;
+  toPretty(options?: RenderOptions): string;
   /**
    * Constructs the GraphQL query string used for submitting the transaction to a Mina daemon.
    * @returns The GraphQL query string for the {@link Transaction}.
@@ -113,6 +133,40 @@ type Transaction<
    * ```
    */
   safeSend(): Promise<PendingTransaction | RejectedTransaction>;
+  /**
+   * Runs the {@link Transaction} against the current ledger, without sending it or changing any state.
+   * Returns the effect of every account update on its account: balance changes, app state before and after,
+   * permission changes, emitted events and actions, the preconditions that were checked, and any failures.
+   *
+   * Accounts are taken from the active Mina instance. On a network, only accounts that were fetched are known,
+   * which is the case for all accounts used while creating the transaction.
+   * @returns {Promise<TransactionSimulation>} The status the transaction would have, and a diff per account update.
+   * @example
+   * ```ts
+   * const simulation = await transaction.simulate();
+   * if (simulation.status !== 'applied') {
+   *   console.error(simulation.accountUpdates.map((update) => update.failures));
+   * }
+   * console.log(simulation.accountUpdates[0].balance.change.toString());
+   * ```
+   */
+  simulate(): Promise<TransactionSimulation>;
+  /**
+   * Estimates the fee of the {@link Transaction} and reports how close it is to the protocol limits
+   * on proving cost (which depends on the number and kind of account updates), events and actions.
+   *
+   * When connected to a network, the suggested fee is based on the fees per account update of transactions in recent blocks.
+   * Otherwise, for example on a `LocalBlockchain`, the minimum fee is suggested.
+   * @param options.blockLength The number of recent blocks to take into account, defaults to 10.
+   * @returns {Promise<FeeEstimate>} The weight of the transaction, its usage of protocol limits, and the minimum and suggested fee.
+   * @example
+   * ```ts
+   * const { suggestedFee, cost } = await transaction.estimateFee();
+   * if (!cost.isWithinLimit) console.error('Transaction is too expensive, split it up.');
+   * transaction.transaction.feePayer.body.fee = suggestedFee;
+   * ```
+   */
+  estimateFee(options?: { blockLength?: number }): Promise<FeeEstimate>;
 } & (Proven extends false
     ? {
         /**
@@ -514,8 +568,8 @@ function newTransaction(transaction: ZkappCommand, proofsEnabled?: boolean) {
       let json = ZkappCommand.toJSON(self.transaction);
       return JSON.stringify(json);
     },
-    toPretty() {
-      return ZkappCommand.toPretty(self.transaction);
+    toPretty(options?: RenderOptions) {
+      return renderTransaction(self.transaction, options);
     },
     toGraphqlQuery() {
       return sendZkappQuery(self.toJSON());
@@ -543,10 +597,45 @@ function newTransaction(transaction: ZkappCommand, proofsEnabled?: boolean) {
       }
       return pendingTransaction;
     },
+    simulate() {
+      return simulateTransaction(self.transaction, proofsEnabled);
+    },
+    estimateFee(options?: { blockLength?: number }) {
+      return estimateFee(self.transaction, options);
+    },
   };
   return self;
 }
 
+async function simulateTransaction(
+  transaction: ZkappCommand,
+  proofsEnabled = activeInstance.proofsEnabled
+) {
+  // copy the accounts used by the transaction into a throwaway ledger
+  let ledger = SimpleLedger.create();
+  let accountIds = [
+    {
+      publicKey: transaction.feePayer.body.publicKey,
+      tokenId: TokenId.default,
+    },
+    ...transaction.accountUpdates.map(({ body }) => body),
+  ];
+  for (let { publicKey, tokenId } of accountIds) {
+    if (
+      !ledger.exists({ publicKey, tokenId }) &&
+      activeInstance.hasAccount(publicKey, tokenId)
+    ) {
+      ledger.store(activeInstance.getAccount(publicKey, tokenId));
+    }
+  }
+  return simulateZkappCommand(ledger, transaction, {
+    networkState: activeInstance.getNetworkState(),
+    accountCreationFee: activeInstance.getNetworkConstants().accountCreationFee,
+    proofsEnabled,
+    networkId: activeInstance.getNetworkId(),
+  });
+}
+
 /**
  * Construct a smart contract transaction. Within the callback passed to this function,
  * you can call into the methods of smart contracts.
@@ -0,0 +1,203 @@
+/**
+ * A recursive `ZkProgram` which aggregates proofs of many steps into a single proof.
+ */
+import {
+  SelfProof,
+  ZkProgram,
+  PrivateInput,
+  Tuple,
+  TupleToInstances,
+  InferProvableOrVoid,
+} from './zkprogram.js';
+import { FlexibleProvablePure } from '../provable/types/struct.js';
+import { getProofsEnabled } from '../mina/mina.js';
+import type { ProverQueue } from './prover-queue.js';
+
+export { AggregationProgram };
+
+/**
+ * Creates a `ZkProgram` which aggregates many proofs of a common statement type into one proof, by merging pairs of proofs
+ * in a binary tree.
+ *
+ * The program has two methods:
+ * - `base()` proves a single step, with the private inputs and logic given by `base`, and outputs its statement
+ * - `merge()` verifies two proofs and combines their statements with `merge`
+ *
+ * `merge` is responsible for checking that the two statements fit together, for example that the state at the end of the
+ * left proof is the state at the start of the right proof.
+ *
+ * ```ts
+ * class Transition extends Struct({ from: Field, to: Field }) {}
+ *
+ * let Increments = Experimental.AggregationProgram({
+ *   name: 'increments',
+ *   statement: Transition,
+ *   base: {
+ *     privateInputs: [Field],
+ *     async method(from: Field) {
+ *       return new Transition({ from, to: from.add(1) });
+ *     },
+ *   },
+ *   merge(left, right) {
+ *     left.to.assertEquals(right.from);
+ *     return new Transition({ from: left.from, to: right.to });
+ *   },
+ * });
+ *
+ * let { proof } = await Increments.aggregate([[Field(0)], [Field(1)], [Field(2)]]);
+ * // proof.publicOutput = { from: 0, to: 3 }
+ * ```
+ */
+function AggregationProgram<
+  StatementType extends FlexibleProvablePure<any>,
+  BaseInputs extends Tuple<PrivateInput>
+>({
+  name,
+  statement,
+  base,
+  merge,
+}: {
+  name: string;
+  statement: StatementType;
+  base: {
+    privateInputs: BaseInputs;
+    method(
+      ...args: TupleToInstances<BaseInputs>
+    ): Promise<InferProvableOrVoid<StatementType>>;
+  };
+  merge(
+    left: InferProvableOrVoid<StatementType>,
+    right: InferProvableOrVoid<StatementType>
+  ):
+    | InferProvableOrVoid<StatementType>
+    | Promise<InferProvableOrVoid<StatementType>>;
+}) {
+  type Statement = InferProvableOrVoid<StatementType>;
+
+  let program = ZkProgram({
+    name,
+    publicOutput: statement,
+    methods: {
+      base,
+      merge: {
+        privateInputs: [SelfProof, SelfProof],
+        async method(
+          left: SelfProof<undefined, Statement>,
+          right: SelfProof<undefined, Statement>
+        ): Promise<Statement> {
+          left.verify();
+          right.verify();
+          return merge(left.publicOutput, right.publicOutput);
+        },
+      },
+    },
+  });
+
+  let AggregationProof = ZkProgram.Proof(program);
+  type AggregationProof = InstanceType<typeof AggregationProof>;
+
+  let isCompiled = false;
+
+  return {
+    Proof: AggregationProof,
+    program,
+
+    async compile() {
+      if (isCompiled) return;
+      let result = await program.compile();
+      isCompiled = true;
+      return result;
+    },
+
+    /**
+     * Proves a `base()` step for each of the `inputs`, and merges the proofs until one proof remains.
+     *
+     * Merges are started as soon as both of their input proofs are available. Pass a {@link ProverQueue} whose workers
+     * know this program to prove independent steps and merges in parallel, otherwise all proofs are created one after
+     * another in the current thread.
+     *
+     * If proofs are disabled, the statements are computed without proving, and a dummy proof is returned.
+     *
+     * @param inputs The private inputs of the `base()` method, for each step.
+     */
+    async aggregate(
+      inputs: TupleToInstances<BaseInputs>[],
+      {
+        queue,
+        proofsEnabled = getProofsEnabled(),
+      }: {
+        queue?: ProverQueue;
+        proofsEnabled?: boolean;
+      } = {}
+    ): Promise<{ proof: AggregationProof; nProofs: number }> {
+      if (inputs.length === 0) {
+        throw Error(`${name}.aggregate(): expected at least one input.`);
+      }
+
+      // methods are called with `apply()`, because spreading a `TupleToInstances` value loses the types of its elements
+      if (!proofsEnabled) {
+        let statement = await reduceTree(
+          inputs.map((args) => base.method.apply(base, args)),
+          async (left, right) => merge(...(await Promise.all([left, right])))
+        );
+        let proof = await AggregationProof.dummy(undefined, statement, 2, 15);
+        return { proof, nProofs: 0 };
+      }
+
+      let proveBase: (
+        args: TupleToInstances<BaseInputs>
+      ) => Promise<AggregationProof>;
+      let proveMerge: (
+        left: AggregationProof,
+        right: AggregationProof
+      ) => Promise<AggregationProof>;
+
+      if (queue !== undefined) {
+        proveBase = (args) =>
+          queue.prove({ program, method: 'base', args }).result;
+        proveMerge = (left, right) =>
+          queue.prove({ program, method: 'merge', args: [left, right] }).result;
+      } else {
+        await this.compile();
+        // provers in the same thread can't run concurrently
+        let last: Promise<unknown> = Promise.resolve();
+        let sequential = <T>(prove: () => Promise<T>) => {
+          let next = last.then(prove);
+          last = next.catch(() => {});
+          return next;
+        };
+        proveBase = (args) =>
+          sequential(() => program.base.apply(program, args));
+        proveMerge = (left, right) =>
+          sequential(() => program.merge(left, right));
+      }
+
+      let nProofs = inputs.length;
+      let proof = await reduceTree(
+        inputs.map(proveBase),
+        async (left, right) => {
+          nProofs++;
+          // awaiting both proofs together handles a rejection of either of them
+          return proveMerge(...(await Promise.all([left, right])));
+        }
+      );
+      return { proof, nProofs };
+    },
+  };
+}
+
+/**
+ * Combines pairs of neighbouring elements level by level, until one element remains.
+ * An element without a partner is carried over to the next level.
+ */
+function reduceTree<T>(level: T[], combine: (left: T, right: T) => T): T {
+  while (level.length > 1) {
+    let next: T[] = [];
+    for (let i = 0; i + 1 < level.length; i += 2) {
+      next.push(combine(level[i], level[i + 1]));
+    }
+    if (level.length % 2 === 1) next.push(level[level.length - 1]);
+    level = next;
+  }
+  return level[0];
+}
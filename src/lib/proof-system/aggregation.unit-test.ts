@@ -0,0 +1,80 @@
+import { Field } from '../provable/wrapped.js';
+import { Struct } from '../provable/types/struct.js';
+import { Provable } from '../provable/provable.js';
+import { AggregationProgram } from './aggregation.js';
+import { expect } from 'expect';
+import { it } from 'node:test';
+
+class Transition extends Struct({ from: Field, to: Field }) {}
+
+let mergedPairs: [bigint, bigint][] = [];
+
+const Increments = AggregationProgram({
+  name: 'increments',
+  statement: Transition,
+  base: {
+    privateInputs: [Field],
+    async method(from: Field) {
+      return new Transition({ from, to: from.add(1) });
+    },
+  },
+  merge(left, right) {
+    Provable.asProver(() => {
+      mergedPairs.push([left.from.toBigInt(), right.to.toBigInt()]);
+    });
+    left.to.assertEquals(right.from);
+    return new Transition({ from: left.from, to: right.to });
+  },
+});
+
+it('merges statements in a binary tree', async () => {
+  let inputs = [0, 1, 2, 3, 4].map((i): [Field] => [Field(i)]);
+  let { proof, nProofs } = await Increments.aggregate(inputs, {
+    proofsEnabled: false,
+  });
+
+  expect(nProofs).toEqual(0);
+  expect(proof.publicOutput).toEqual(
+    new Transition({ from: Field(0), to: Field(5) })
+  );
+  // pairs of neighbours are merged first, the last step is carried over to the next level
+  expect(mergedPairs).toEqual([
+    [0n, 2n],
+    [2n, 4n],
+    [0n, 4n],
+    [0n, 5n],
+  ]);
+});
+
+it('fails if statements do not fit together', async () => {
+  await expect(
+    Increments.aggregate([[Field(0)], [Field(2)]], { proofsEnabled: false })
+  ).rejects.toThrow();
+});
+
+it('fails without unhandled rejections if several merges fail', async () => {
+  let inputs = [0, 5, 7, 9].map((i): [Field] => [Field(i)]);
+  await expect(
+    Increments.aggregate(inputs, { proofsEnabled: false })
+  ).rejects.toThrow();
+});
+
+it('rejects an empty list of inputs', async () => {
+  await expect(Increments.aggregate([])).rejects.toThrow(
+    /expected at least one input/
+  );
+});
+
+it('proves and merges steps', async () => {
+  let inputs = [0, 1, 2].map((i): [Field] => [Field(i)]);
+  let { proof, nProofs } = await Increments.aggregate(inputs, {
+    proofsEnabled: true,
+  });
+
+  // three base proofs and two merges
+  expect(nProofs).toEqual(5);
+  expect(proof.publicOutput).toEqual(
+    new Transition({ from: Field(0), to: Field(3) })
+  );
+  expect(await Increments.program.verify(proof)).toEqual(true);
+});
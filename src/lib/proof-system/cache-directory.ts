@@ -0,0 +1,232 @@
+/**
+ * Tools to inspect, clean up and pre-build cache directories created by `Cache.FileSystem()`.
+ */
+import {
+  readdir,
+  readFile,
+  stat,
+  rm,
+  writeFile,
+  mkdir,
+} from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { cacheDir } from '../util/fs.js';
+import { Cache, CacheHeader, CacheManifest } from './cache.js';
+
+export { CacheDirectory, CacheEntryInfo, CompilableProgram };
+
+/**
+ * A cache entry on the file system, consisting of a data file and a `.header` file.
+ */
+type CacheEntryInfo = {
+  persistentId: string;
+  uniqueId: string;
+  kind: 'step-pk' | 'step-vk' | 'wrap-pk' | 'wrap-vk' | 'other';
+  /**
+   * The (sanitized) name of the program or contract that the key belongs to, if the entry is a key.
+   */
+  programName?: string;
+  /**
+   * The (sanitized) name of the method that the key belongs to, if the entry is a step key.
+   */
+  methodName?: string;
+  /**
+   * Size of the data file, in bytes.
+   */
+  size: number;
+  /**
+   * Last time the entry was written or read by `Cache.FileSystem()`.
+   */
+  lastUsed: Date;
+};
+
+/**
+ * A `ZkProgram` or `SmartContract` class.
+ */
+type CompilableProgram = {
+  name: string;
+  compile(options?: { cache?: Cache }): Promise<unknown>;
+};
+
+const keyKinds = ['step-pk', 'step-vk', 'wrap-pk', 'wrap-vk'] as const;
+
+function defaultDirectory() {
+  return cacheDir('o1js');
+}
+
+async function list(directory = defaultDirectory()): Promise<CacheEntryInfo[]> {
+  let files = await readdir(directory).catch((): string[] => []);
+  let entries: CacheEntryInfo[] = [];
+
+  for (let file of files) {
+    if (!file.endsWith('.header')) continue;
+    let persistentId = file.slice(0, -'.header'.length);
+    let headerPath = resolve(directory, file);
+    let dataPath = resolve(directory, persistentId);
+
+    let [uniqueId, header, data] = await Promise.all([
+      readFile(headerPath, 'utf8'),
+      stat(headerPath),
+      stat(dataPath).catch(() => undefined),
+    ]);
+    if (data === undefined) continue;
+
+    entries.push({
+      persistentId,
+      uniqueId,
+      ...parseIds(persistentId, uniqueId),
+      size: data.size,
+      lastUsed: header.mtime,
+    });
+  }
+  return entries.sort((a, b) => a.persistentId.localeCompare(b.persistentId));
+}
+
+async function usedHeaders(
+  programs: CompilableProgram[],
+  directory = defaultDirectory(),
+  { readOnly = false }: { readOnly?: boolean } = {}
+): Promise<CacheHeader[]> {
+  let headers = new Map<string, CacheHeader>();
+  let cache = recordHeaders(Cache.FileSystem(directory), headers, {
+    readOnly,
+  });
+  for (let program of programs) {
+    await program.compile({ cache });
+  }
+  return [...headers.values()];
+}
+
+async function prune(
+  programs: CompilableProgram[],
+  {
+    directory = defaultDirectory(),
+    dryRun = false,
+  }: { directory?: string; dryRun?: boolean } = {}
+): Promise<CacheEntryInfo[]> {
+  // keys which are missing are not written, so that pruning never changes the directory except by removing entries
+  let used = await usedHeaders(programs, directory, { readOnly: true });
+  let usedIds = new Set(used.map((header) => header.uniqueId));
+
+  let entries = await list(directory);
+  let stale = entries.filter(
+    (entry) => entry.kind !== 'other' && !usedIds.has(entry.uniqueId)
+  );
+  if (!dryRun) {
+    for (let { persistentId } of stale) {
+      await rm(resolve(directory, `${persistentId}.header`), { force: true });
+      await rm(resolve(directory, persistentId), { force: true });
+    }
+  }
+  return stale;
+}
+
+async function prebake(
+  programs: CompilableProgram[],
+  directory: string
+): Promise<CacheManifest> {
+  await mkdir(directory, { recursive: true });
+  let headers = await usedHeaders(programs, directory);
+
+  let manifest: CacheManifest = { version: 1, entries: {} };
+  for (let header of headers) {
+    let { persistentId, uniqueId, dataType } = header;
+    let data = await readFile(resolve(directory, persistentId));
+    manifest.entries[persistentId] = {
+      uniqueId,
+      dataType,
+      programName: 'programName' in header ? header.programName : undefined,
+      sha256: bytesToHex(sha256(data)),
+    };
+  }
+  await writeFile(
+    resolve(directory, 'manifest.json'),
+    JSON.stringify(manifest, null, 2)
+  );
+  return manifest;
+}
+
+const CacheDirectory = {
+  /**
+   * The directory used by `Cache.FileSystemDefault`.
+   */
+  default: defaultDirectory,
+  /**
+   * Lists all entries of a cache directory.
+   */
+  list,
+  /**
+   * Compiles the given programs against a cache directory, and returns the headers of all cache entries they use.
+   *
+   * Compiling is fast if the keys are already in the cache. Missing keys are written to the directory, unless `readOnly` is set.
+   */
+  usedHeaders,
+  /**
+   * Removes the prover and verification keys which are not used by any of the given programs,
+   * either because they belong to another program or method, or to an outdated version of a circuit.
+   *
+   * Other entries, like the SRS and Lagrange bases, are kept.
+   *
+   * @returns The entries which were removed, or would be removed if `dryRun` is set.
+   */
+  prune,
+  /**
+   * Compiles the given programs into a new cache directory, which can be shipped with an app.
+   *
+   * Also writes a `manifest.json` with the hash of every entry, so that the directory can be served as a static website and used with `Cache.Http()`.
+   */
+  prebake,
+};
+
+function recordHeaders(
+  cache: Cache,
+  headers: Map<string, CacheHeader>,
+  { readOnly = false } = {}
+): Cache {
+  return {
+    read(header) {
+      headers.set(header.persistentId, header);
+      return cache.read(header);
+    },
+    write(header, value) {
+      if (readOnly) throw Error('CacheDirectory: read-only');
+      headers.set(header.persistentId, header);
+      cache.write(header, value);
+    },
+    canWrite: cache.canWrite && !readOnly,
+    debug: cache.debug,
+  };
+}
+
+/**
+ * Recovers kind, program and method name from the ids created in `prover-keys.ts`:
+ * - step keys: persistentId = `${kind}-${program}-${method}`, uniqueId = `${kind}-${program}-${methodIndex}-${method}-${hash}`
+ * - wrap keys: persistentId = `${kind}-${program}`
+ *
+ * Program and method names can contain `-`, so the method index in the uniqueId is used to split them.
+ */
+function parseIds(
+  persistentId: string,
+  uniqueId: string
+): Pick<CacheEntryInfo, 'kind' | 'programName' | 'methodName'> {
+  let kind = keyKinds.find((kind) => persistentId.startsWith(`${kind}-`));
+  if (kind === undefined) return { kind: 'other' };
+  let rest = persistentId.slice(kind.length + 1);
+
+  if (kind === 'wrap-pk' || kind === 'wrap-vk') {
+    return { kind, programName: rest };
+  }
+  for (let i = rest.indexOf('-'); i !== -1; i = rest.indexOf('-', i + 1)) {
+    let programName = rest.slice(0, i);
+    let methodName = rest.slice(i + 1);
+    let prefix = `${kind}-${programName}-`;
+    if (!uniqueId.startsWith(prefix)) continue;
+    let afterIndex = uniqueId.slice(prefix.length).match(/^\d+-(.*)$/)?.[1];
+    if (afterIndex?.startsWith(`${methodName}-`)) {
+      return { kind, programName, methodName };
+    }
+  }
+  return { kind };
+}
@@ -0,0 +1,127 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { Cache, CacheHeader, readCache, writeCache } from './cache.js';
+import { CacheDirectory, CompilableProgram } from './cache-directory.js';
+import { expect } from 'expect';
+import { it } from 'node:test';
+
+function stepKey(program: string, method: string, hash: string): CacheHeader {
+  return {
+    kind: 'step-pk',
+    programName: program,
+    methodName: method,
+    methodIndex: 0,
+    hash,
+    version: 1,
+    persistentId: `step-pk-${program}-${method}`,
+    uniqueId: `step-pk-${program}-0-${method}-${hash}-1`,
+    dataType: 'bytes',
+  };
+}
+const srs: CacheHeader = {
+  kind: 'srs',
+  version: 1,
+  persistentId: 'srs-fp-65536',
+  uniqueId: 'srs-fp-65536-1',
+  dataType: 'bytes',
+};
+
+// a program which reads and writes its keys like `ZkProgram.compile()`, writing them if they are missing
+function program(name: string, headers: CacheHeader[]): CompilableProgram {
+  return {
+    name,
+    async compile({ cache } = {}) {
+      for (let header of headers) {
+        if (readCache(cache!, header) === undefined) {
+          writeCache(cache!, header, new Uint8Array(10));
+        }
+      }
+    },
+  };
+}
+
+let directory = await mkdtemp(join(tmpdir(), 'o1js-cache-'));
+let cache = Cache.FileSystem(directory);
+cache.write(srs, new Uint8Array(100));
+cache.write(stepKey('my-program', 'run', 'old'), new Uint8Array(20));
+cache.write(stepKey('removed', 'run-twice', 'abc'), new Uint8Array(30));
+
+it('lists entries with program and method', async () => {
+  let entries = await CacheDirectory.list(directory);
+  expect(
+    entries.map(({ kind, programName, methodName, size }) => ({
+      kind,
+      programName,
+      methodName,
+      size,
+    }))
+  ).toEqual([
+    { kind: 'other', size: 100 },
+    { kind: 'step-pk', programName: 'my-program', methodName: 'run', size: 20 },
+    {
+      kind: 'step-pk',
+      programName: 'removed',
+      methodName: 'run-twice',
+      size: 30,
+    },
+  ]);
+});
+
+it('prunes keys of outdated and removed programs', async () => {
+  let current = program('my-program', [
+    srs,
+    stepKey('my-program', 'run', 'new'),
+  ]);
+
+  let stale = await CacheDirectory.prune([current], {
+    directory,
+    dryRun: true,
+  });
+  expect(stale.map((e) => e.persistentId)).toEqual([
+    'step-pk-my-program-run',
+    'step-pk-removed-run-twice',
+  ]);
+  // a dry run doesn't change the directory, and in particular doesn't write the new key
+  let entries = await CacheDirectory.list(directory);
+  expect(entries.map((e) => e.uniqueId)).toEqual([
+    'srs-fp-65536-1',
+    'step-pk-my-program-0-run-old-1',
+    'step-pk-removed-0-run-twice-abc-1',
+  ]);
+
+  await CacheDirectory.prune([current], { directory });
+  entries = await CacheDirectory.list(directory);
+  expect(entries.map((e) => e.uniqueId)).toEqual(['srs-fp-65536-1']);
+});
+
+it('prebakes a cache directory with a manifest', async () => {
+  let out = join(directory, 'prebaked');
+  let current = program('my-program', [
+    srs,
+    stepKey('my-program', 'run', 'new'),
+  ]);
+  await CacheDirectory.prebake([current], out);
+
+  let manifest = JSON.parse(await readFile(join(out, 'manifest.json'), 'utf8'));
+  let hash = bytesToHex(sha256(new Uint8Array(10)));
+  expect(manifest).toEqual({
+    version: 1,
+    entries: {
+      'srs-fp-65536': {
+        uniqueId: 'srs-fp-65536-1',
+        dataType: 'bytes',
+        sha256: hash,
+      },
+      'step-pk-my-program-run': {
+        uniqueId: 'step-pk-my-program-0-run-new-1',
+        dataType: 'bytes',
+        programName: 'my-program',
+        sha256: hash,
+      },
+    },
+  });
+  await rm(directory, { recursive: true });
+});
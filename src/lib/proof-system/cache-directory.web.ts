@@ -0,0 +1,13 @@
+export { CacheDirectory };
+
+function notAvailable(..._: any[]): never {
+  throw Error('CacheDirectory: Not available in the browser.');
+}
+
+const CacheDirectory = {
+  default: notAvailable,
+  list: notAvailable,
+  usedHeaders: notAvailable,
+  prune: notAvailable,
+  prebake: notAvailable,
+};
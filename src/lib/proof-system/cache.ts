@@ -2,13 +2,16 @@ import {
   writeFileSync,
   readFileSync,
   mkdirSync,
+  utimesSync,
   resolve,
   cacheDir,
 } from '../util/fs.js';
 import { jsEnvironment } from '../../bindings/crypto/bindings/env.js';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
 
 // external API
-export { Cache, CacheHeader };
+export { Cache, CacheHeader, CacheManifest };
 
 // internal API
 export { readCache, writeCache, withVersion, cacheHeaderVersion };
@@ -166,12 +169,16 @@ const FileSystem = (cacheDirectory: string, debug?: boolean): Cache => ({
     if (jsEnvironment !== 'node') throw Error('file system not available');
 
     // read current uniqueId, return data if it matches
-    let currentId = readFileSync(
-      resolve(cacheDirectory, `${persistentId}.header`),
-      'utf8'
-    );
+    let headerPath = resolve(cacheDirectory, `${persistentId}.header`);
+    let currentId = readFileSync(headerPath, 'utf8');
     if (currentId !== uniqueId) return undefined;
 
+    // the modification time of the header file records when the entry was last used
+    try {
+      let now = new Date();
+      utimesSync(headerPath, now, now);
+    } catch {}
+
     if (dataType === 'string') {
       let string = readFileSync(resolve(cacheDirectory, persistentId), 'utf8');
       return new TextEncoder().encode(string);
@@ -196,6 +203,201 @@ const FileSystem = (cacheDirectory: string, debug?: boolean): Cache => ({
 
 const FileSystemDefault = FileSystem(cacheDir('o1js'));
 
+type CacheEntry = { uniqueId: string; data: Uint8Array };
+
+const InMemory = (debug?: boolean): Cache => {
+  let entries = new Map<string, CacheEntry>();
+  return {
+    read({ persistentId, uniqueId }) {
+      let entry = entries.get(persistentId);
+      if (entry?.uniqueId !== uniqueId) return undefined;
+      return entry.data;
+    },
+    write({ persistentId, uniqueId }, data) {
+      entries.set(persistentId, { uniqueId, data });
+    },
+    canWrite: true,
+    debug,
+  };
+};
+
+const IndexedDB = async (
+  databaseName = 'o1js',
+  debug?: boolean
+): Promise<Cache> => {
+  if (typeof indexedDB === 'undefined') {
+    throw Error('Cache.IndexedDB: IndexedDB is not available.');
+  }
+  const storeName = 'cache';
+
+  function promisify<T>(request: IDBRequest<T>) {
+    return new Promise<T>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  let open = indexedDB.open(databaseName, 1);
+  open.onupgradeneeded = () => open.result.createObjectStore(storeName);
+  let db = await promisify(open);
+
+  // the cache is read synchronously during compilation, so all entries are loaded up front
+  let store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  let [keys, values] = await Promise.all([
+    promisify(store.getAllKeys()),
+    promisify(store.getAll()),
+  ]);
+  let entries = new Map<string, CacheEntry>(
+    keys.map((key, i) => [String(key), values[i]])
+  );
+
+  return {
+    read({ persistentId, uniqueId }) {
+      let entry = entries.get(persistentId);
+      if (entry?.uniqueId !== uniqueId) return undefined;
+      return entry.data;
+    },
+    write({ persistentId, uniqueId }, data) {
+      let entry = { uniqueId, data };
+      entries.set(persistentId, entry);
+      // writing to the database happens in the background
+      let store = db.transaction(storeName, 'readwrite').objectStore(storeName);
+      promisify(store.put(entry, persistentId)).catch((e) => {
+        if (debug) console.log('Failed to write IndexedDB cache', e);
+      });
+    },
+    canWrite: true,
+    debug,
+  };
+};
+
+/**
+ * Lists the entries of a cache directory which is served over HTTP, see {@link Cache.Http}.
+ */
+type CacheManifest = {
+  version: 1;
+  entries: {
+    [persistentId: string]: {
+      uniqueId: string;
+      dataType: 'string' | 'bytes';
+      /**
+       * The program which the entry belongs to, for prover and verification keys.
+       */
+      programName?: string;
+      /**
+       * Hex-encoded SHA-256 hash of the data.
+       */
+      sha256: string;
+    };
+  };
+};
+
+const Http = async (
+  urlPrefix: string,
+  {
+    programs,
+    debug,
+    fetch: fetch_ = fetch,
+  }: { programs: { name: string }[]; debug?: boolean; fetch?: typeof fetch }
+): Promise<Cache> => {
+  let prefix = urlPrefix.endsWith('/') ? urlPrefix : `${urlPrefix}/`;
+
+  async function get(path: string) {
+    let response = await fetch_(prefix + path);
+    if (!response.ok) {
+      throw Error(
+        `Cache.Http: failed to fetch ${prefix + path}: ${response.status} ${
+          response.statusText
+        }`
+      );
+    }
+    return response;
+  }
+
+  let manifest: CacheManifest = await (await get('manifest.json')).json();
+  if (manifest.version !== 1) {
+    throw Error(
+      `Cache.Http: unsupported manifest version ${manifest.version} at ${prefix}manifest.json`
+    );
+  }
+
+  // the cache is read synchronously during compilation, so the entries are fetched up front,
+  // but only those which the given programs can use
+  let programNames = new Set(programs.map((program) => program.name));
+  let usable = Object.entries(manifest.entries).filter(
+    ([, { uniqueId, programName }]) =>
+      uniqueId.endsWith(`-${cacheHeaderVersion}`) &&
+      (programName === undefined || programNames.has(programName))
+  );
+
+  let entries = new Map<string, CacheEntry>();
+  await Promise.all(
+    usable.map(async ([persistentId, { uniqueId, sha256: hash }]) => {
+      // a missing or corrupted entry is just a cache miss, so the key gets recomputed
+      try {
+        let response = await get(persistentId);
+        let data = new Uint8Array(await response.arrayBuffer());
+        if (bytesToHex(sha256(data)) !== hash) {
+          throw Error(
+            `Cache.Http: ${persistentId} doesn't match the hash in the manifest`
+          );
+        }
+        entries.set(persistentId, { uniqueId, data });
+      } catch (error) {
+        if (debug) console.log(error);
+      }
+    })
+  );
+
+  return {
+    read({ persistentId, uniqueId }) {
+      let entry = entries.get(persistentId);
+      if (entry === undefined) return undefined;
+      // stale keys, for a different version of the circuit, are never used
+      if (entry.uniqueId !== uniqueId) {
+        if (debug) {
+          console.log(
+            `Cache.Http: ${persistentId} has unique id ${entry.uniqueId}, expected ${uniqueId}`
+          );
+        }
+        return undefined;
+      }
+      return entry.data;
+    },
+    write() {
+      throw Error('Cache.Http: read-only');
+    },
+    canWrite: false,
+    debug,
+  };
+};
+
+const layered = (caches: Cache[], debug?: boolean): Cache => {
+  let writable = caches.find((cache) => cache.canWrite);
+  return {
+    read(header) {
+      for (let cache of caches) {
+        let result = readCache(cache, header);
+        if (result === undefined) continue;
+        // write back to the first writable cache, if it comes before the one that had the value
+        if (
+          writable !== undefined &&
+          caches.indexOf(writable) < caches.indexOf(cache)
+        ) {
+          writeCache(writable, header, result);
+        }
+        return result;
+      }
+      return undefined;
+    },
+    write(header, value) {
+      if (writable === undefined) throw Error('Cache.layered: not writable');
+      writable.write(header, value);
+    },
+    canWrite: writable !== undefined,
+    debug,
+  };
+};
+
 const Cache = {
   /**
    * Store data on the file system, in a directory of your choice.
@@ -219,4 +421,47 @@ const Cache = {
    * Don't store anything.
    */
   None,
+  /**
+   * Store data in memory, for the lifetime of the cache object. Useful in tests.
+   */
+  InMemory,
+  /**
+   * Store data in the browser's IndexedDB, in a database of the given name.
+   *
+   * Since caches are read synchronously during compilation, all stored entries are loaded into memory when the cache is created.
+   * Writes go to memory immediately and are persisted to IndexedDB in the background.
+   *
+   * ```ts
+   * let cache = await Cache.IndexedDB();
+   * await MyProgram.compile({ cache });
+   * ```
+   */
+  IndexedDB,
+  /**
+   * Read-only cache which fetches data from a static URL prefix, for example to ship prover keys with a web app.
+   *
+   * The URL prefix has to serve a `manifest.json` of type {@link CacheManifest}, which lists the `uniqueId` and hash of every entry,
+   * and the data of each entry at its `persistentId`.
+   * Entries whose `uniqueId` doesn't match the requested {@link CacheHeader} are ignored, so that keys for an outdated circuit are never used.
+   *
+   * The keys of the given `programs` and the shared entries, like the SRS, are fetched when the cache is created.
+   * Entries which fail to download or don't match their hash are skipped, and are recomputed during compilation.
+   *
+   * ```ts
+   * let cache = await Cache.Http('https://example.com/o1js-cache/', { programs: [MyProgram] });
+   * await MyProgram.compile({ cache });
+   * ```
+   */
+  Http,
+  /**
+   * Combines several caches. Reads go through the caches in order and return the first hit,
+   * and writes go to the first writable cache.
+   *
+   * Values which are found in a later cache are written back to the first writable cache, so fast caches should come first.
+   *
+   * ```ts
+   * let cache = Cache.layered([Cache.InMemory(), await Cache.Http(url, { programs })]);
+   * ```
+   */
+  layered,
 };
@@ -0,0 +1,163 @@
+import { Cache, CacheHeader, CacheManifest } from './cache.js';
+import { expect } from 'expect';
+import { it } from 'node:test';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+
+function header(persistentId: string, uniqueId: string): CacheHeader {
+  return {
+    kind: 'srs',
+    version: 1,
+    persistentId,
+    uniqueId,
+    dataType: 'bytes',
+  };
+}
+let bytes = (...xs: number[]) => new Uint8Array(xs);
+
+it('in-memory cache only returns entries with matching unique id', () => {
+  let cache = Cache.InMemory();
+  cache.write(header('srs', 'v1'), bytes(1, 2));
+
+  expect(cache.read(header('srs', 'v1'))).toEqual(bytes(1, 2));
+  expect(cache.read(header('srs', 'v2'))).toEqual(undefined);
+  expect(cache.read(header('other', 'v1'))).toEqual(undefined);
+});
+
+// serves a static cache directory from memory
+function staticServer(files: Record<string, string | Uint8Array>) {
+  let requests: string[] = [];
+  let fetch = async (url: string | URL | Request) => {
+    let path = String(url).replace('https://example.com/cache/', '');
+    requests.push(path);
+    let file = files[path];
+    if (file === undefined) return new Response(null, { status: 404 });
+    return new Response(file);
+  };
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+}
+
+let hash = (data: string | Uint8Array) => bytesToHex(sha256(data));
+
+it('http cache fetches the entries of the given programs', async () => {
+  let manifest: CacheManifest = {
+    version: 1,
+    entries: {
+      'srs-fp': { uniqueId: 'srs-1', dataType: 'bytes', sha256: hash('srs') },
+      'step-pk-a': {
+        uniqueId: 'a-1',
+        dataType: 'bytes',
+        programName: 'a',
+        sha256: hash(bytes(1, 2, 3)),
+      },
+      'step-vk-a': {
+        uniqueId: 'a-2-1',
+        dataType: 'string',
+        programName: 'a',
+        sha256: hash('vk'),
+      },
+      'step-pk-b': {
+        uniqueId: 'b-1',
+        dataType: 'bytes',
+        programName: 'b',
+        sha256: hash('b'),
+      },
+      'step-vk-a-old': {
+        uniqueId: 'a-3-0',
+        dataType: 'string',
+        programName: 'a',
+        sha256: hash('old'),
+      },
+    },
+  };
+  let { fetch, requests } = staticServer({
+    'manifest.json': JSON.stringify(manifest),
+    'srs-fp': 'srs',
+    'step-pk-a': bytes(1, 2, 3),
+    'step-vk-a': 'vk',
+    'step-pk-b': 'b',
+    'step-vk-a-old': 'old',
+  });
+  let cache = await Cache.Http('https://example.com/cache', {
+    programs: [{ name: 'a' }],
+    fetch,
+  });
+
+  // keys of other programs, or with another header version, are not fetched
+  expect(requests.sort()).toEqual([
+    'manifest.json',
+    'srs-fp',
+    'step-pk-a',
+    'step-vk-a',
+  ]);
+  expect(cache.canWrite).toEqual(false);
+  expect(cache.read(header('step-pk-a', 'a-1'))).toEqual(bytes(1, 2, 3));
+  expect(cache.read(header('step-vk-a', 'a-2-1'))).toEqual(
+    new TextEncoder().encode('vk')
+  );
+  expect(cache.read(header('step-pk-b', 'b-1'))).toEqual(undefined);
+
+  // outdated entries are not used
+  expect(cache.read(header('step-pk-a', 'a-0'))).toEqual(undefined);
+});
+
+it('http cache skips missing and corrupted entries', async () => {
+  let manifest: CacheManifest = {
+    version: 1,
+    entries: {
+      'srs-fp': { uniqueId: 'srs-1', dataType: 'bytes', sha256: hash('srs') },
+      'step-pk-a': {
+        uniqueId: 'a-1',
+        dataType: 'bytes',
+        programName: 'a',
+        sha256: hash(bytes(1, 2, 3)),
+      },
+      'step-vk-a': {
+        uniqueId: 'a-2-1',
+        dataType: 'string',
+        programName: 'a',
+        sha256: hash('vk'),
+      },
+    },
+  };
+  let { fetch } = staticServer({
+    'manifest.json': JSON.stringify(manifest),
+    'step-pk-a': bytes(1, 2, 4),
+    'step-vk-a': 'vk',
+  });
+  let cache = await Cache.Http('https://example.com/cache', {
+    programs: [{ name: 'a' }],
+    fetch,
+  });
+
+  expect(cache.read(header('srs-fp', 'srs-1'))).toEqual(undefined);
+  expect(cache.read(header('step-pk-a', 'a-1'))).toEqual(undefined);
+  expect(cache.read(header('step-vk-a', 'a-2-1'))).toEqual(
+    new TextEncoder().encode('vk')
+  );
+});
+
+it('http cache fails on a missing manifest', async () => {
+  let { fetch } = staticServer({});
+  await expect(
+    Cache.Http('https://example.com/cache/', { programs: [], fetch })
+  ).rejects.toThrow(/404/);
+});
+
+it('layered cache reads through and writes back to the first writable cache', async () => {
+  let fast = Cache.InMemory();
+  let slow = Cache.InMemory();
+  slow.write(header('srs', 'v1'), bytes(7));
+  let cache = Cache.layered([Cache.None, fast, slow]);
+
+  expect(cache.canWrite).toEqual(true);
+  expect(fast.read(header('srs', 'v1'))).toEqual(undefined);
+  expect(cache.read(header('srs', 'v1'))).toEqual(bytes(7));
+  expect(fast.read(header('srs', 'v1'))).toEqual(bytes(7));
+
+  cache.write(header('lagrange', 'v1'), bytes(8));
+  expect(fast.read(header('lagrange', 'v1'))).toEqual(bytes(8));
+  expect(slow.read(header('lagrange', 'v1'))).toEqual(undefined);
+
+  expect(Cache.layered([Cache.None]).canWrite).toEqual(false);
+});
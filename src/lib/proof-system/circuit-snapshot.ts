@@ -0,0 +1,271 @@
+/**
+ * Snapshots of the constraint systems of a program, to detect changes to its verification key before deploying it.
+ */
+import { isProof } from './zkprogram.js';
+import { ZkappPublicInput } from '../mina/account-update.js';
+import type { Gate } from '../../snarky.js';
+
+export { CircuitSnapshot, CircuitDiff, MethodDiff };
+
+/**
+ * Serializable summary of the circuits of a `ZkProgram` or `SmartContract`, which can be stored and compared
+ * against later versions.
+ */
+type CircuitSnapshot = {
+  version: 1;
+  name: string;
+  digest: string;
+  maxProofsVerified: number;
+  verificationKeyHash?: string;
+  methods: {
+    [methodName: string]: {
+      rows: number;
+      digest: string;
+      /**
+       * Size of the public input of the method circuit, which covers the public input and output of the program.
+       */
+      publicInputSize: number;
+      proofsVerified: number;
+      /**
+       * Number of gates of each type.
+       */
+      gates: Record<string, number>;
+    };
+  };
+};
+
+type MethodDiff = {
+  name: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  rows: { before?: number; after?: number };
+  publicInputSizeChanged: boolean;
+  gatesAdded: Record<string, number>;
+  gatesRemoved: Record<string, number>;
+};
+
+type CircuitDiff = {
+  name: string;
+  /**
+   * Whether any constraint system changed, which means that the verification key changed as well.
+   */
+  changed: boolean;
+  digest: { before: string; after: string };
+  maxProofsVerified?: { before: number; after: number };
+  verificationKeyHash?: { before: string; after: string };
+  methods: MethodDiff[];
+};
+
+type AnalyzableProgram = {
+  name: string;
+  digest(): Promise<string>;
+  analyzeMethods(): Promise<
+    Record<
+      string,
+      { rows: number; digest: string; gates: Gate[]; publicInputSize?: number }
+    >
+  >;
+};
+
+async function create(
+  program: AnalyzableProgram,
+  {
+    verificationKey,
+  }: { verificationKey?: { hash: { toString(): string } } } = {}
+): Promise<CircuitSnapshot> {
+  let analyzed = await program.analyzeMethods();
+  let proofs = proofsPerMethod(program);
+
+  let methods: CircuitSnapshot['methods'] = {};
+  for (let [
+    methodName,
+    { rows, digest, gates, publicInputSize },
+  ] of Object.entries(analyzed)) {
+    methods[methodName] = {
+      rows,
+      digest,
+      // `SmartContract`s don't report it, because their public input is always a `ZkappPublicInput`
+      publicInputSize: publicInputSize ?? ZkappPublicInput.sizeInFields(),
+      proofsVerified: proofs[methodName] ?? 0,
+      gates: countGates(gates),
+    };
+  }
+  return {
+    version: 1,
+    name: program.name,
+    digest: await program.digest(),
+    maxProofsVerified: Math.max(
+      0,
+      ...Object.values(methods).map((m) => m.proofsVerified)
+    ),
+    verificationKeyHash: verificationKey?.hash.toString(),
+    methods,
+  };
+}
+
+function compare(before: CircuitSnapshot, after: CircuitSnapshot): CircuitDiff {
+  let methodNames = [
+    ...new Set([...Object.keys(before.methods), ...Object.keys(after.methods)]),
+  ].sort();
+
+  let methods = methodNames.map((name): MethodDiff => {
+    let a = before.methods[name];
+    let b = after.methods[name];
+    let status: MethodDiff['status'] =
+      a === undefined
+        ? 'added'
+        : b === undefined
+        ? 'removed'
+        : a.digest !== b.digest
+        ? 'changed'
+        : 'unchanged';
+    let { added, removed } = diffCounts(a?.gates ?? {}, b?.gates ?? {});
+    return {
+      name,
+      status,
+      rows: { before: a?.rows, after: b?.rows },
+      publicInputSizeChanged:
+        a !== undefined &&
+        b !== undefined &&
+        a.publicInputSize !== b.publicInputSize,
+      gatesAdded: added,
+      gatesRemoved: removed,
+    };
+  });
+
+  let diff: CircuitDiff = {
+    name: after.name,
+    changed:
+      before.digest !== after.digest ||
+      methods.some((m) => m.status !== 'unchanged'),
+    digest: { before: before.digest, after: after.digest },
+    methods,
+  };
+  if (before.maxProofsVerified !== after.maxProofsVerified) {
+    diff.maxProofsVerified = {
+      before: before.maxProofsVerified,
+      after: after.maxProofsVerified,
+    };
+  }
+  if (
+    before.verificationKeyHash !== undefined &&
+    after.verificationKeyHash !== undefined &&
+    before.verificationKeyHash !== after.verificationKeyHash
+  ) {
+    diff.verificationKeyHash = {
+      before: before.verificationKeyHash,
+      after: after.verificationKeyHash,
+    };
+  }
+  return diff;
+}
+
+function format(diff: CircuitDiff): string {
+  if (!diff.changed) return `${diff.name}: unchanged`;
+  let lines = [`${diff.name}: circuit changed`];
+  if (diff.verificationKeyHash !== undefined) {
+    let { before, after } = diff.verificationKeyHash;
+    lines.push(`  verification key hash: ${before} -> ${after}`);
+  }
+  if (diff.maxProofsVerified !== undefined) {
+    let { before, after } = diff.maxProofsVerified;
+    lines.push(`  maxProofsVerified: ${before} -> ${after}`);
+  }
+  for (let method of diff.methods) {
+    if (method.status === 'unchanged') continue;
+    let { before, after } = method.rows;
+    let rows =
+      method.status === 'added'
+        ? `${after} rows`
+        : method.status === 'removed'
+        ? `${before} rows`
+        : `rows ${before} -> ${after}`;
+    lines.push(`  ${method.name}(): ${method.status}, ${rows}`);
+    if (method.publicInputSizeChanged) {
+      lines.push(`    public input layout changed`);
+    }
+    let gates = [
+      ...Object.entries(method.gatesAdded).map(([t, n]) => `+${n} ${t}`),
+      ...Object.entries(method.gatesRemoved).map(([t, n]) => `-${n} ${t}`),
+    ];
+    if (gates.length > 0) lines.push(`    gates: ${gates.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+function assertUnchanged(before: CircuitSnapshot, after: CircuitSnapshot) {
+  let diff = compare(before, after);
+  if (diff.changed) throw Error(format(diff));
+}
+
+const CircuitSnapshot = {
+  /**
+   * Creates a snapshot of the circuits of a `ZkProgram` or `SmartContract`, from `analyzeMethods()` and `digest()`.
+   *
+   * If the `verificationKey` returned by `compile()` is passed, its hash is included in the snapshot as well.
+   *
+   * ```ts
+   * let snapshot = await CircuitSnapshot.create(MyProgram);
+   * fs.writeFileSync('my-program.circuit.json', JSON.stringify(snapshot, null, 2));
+   * ```
+   */
+  create,
+  /**
+   * Compares two snapshots of the same program, and reports for each method whether its constraint system changed,
+   * which gates were added or removed, and whether the public input layout changed.
+   */
+  compare,
+  /**
+   * Formats the result of {@link CircuitSnapshot.compare} as human-readable text.
+   */
+  format,
+  /**
+   * Throws an error which describes all changes if the circuits of the two snapshots differ.
+   * Intended for CI checks against accidental circuit changes:
+   *
+   * ```ts
+   * let before = JSON.parse(fs.readFileSync('my-program.circuit.json', 'utf8'));
+   * CircuitSnapshot.assertUnchanged(before, await CircuitSnapshot.create(MyProgram));
+   * ```
+   */
+  assertUnchanged,
+};
+
+function countGates(gates: Gate[]) {
+  let counts: Record<string, number> = {};
+  for (let { type } of gates) {
+    counts[type] = (counts[type] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function diffCounts(
+  before: Record<string, number>,
+  after: Record<string, number>
+) {
+  let added: Record<string, number> = {};
+  let removed: Record<string, number> = {};
+  for (let type of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    let delta = (after[type] ?? 0) - (before[type] ?? 0);
+    if (delta > 0) added[type] = delta;
+    if (delta < 0) removed[type] = -delta;
+  }
+  return { added, removed };
+}
+
+/**
+ * Number of proofs verified by each method, for both `ZkProgram`s and `SmartContract`s.
+ */
+function proofsPerMethod(program: AnalyzableProgram): Record<string, number> {
+  let counts: Record<string, number> = {};
+  let { privateInputTypes, _methods } = program as {
+    privateInputTypes?: Record<string, unknown[]>;
+    _methods?: { methodName: string; proofArgs: unknown[] }[];
+  };
+  for (let [methodName, types] of Object.entries(privateInputTypes ?? {})) {
+    counts[methodName] = types.filter(isProof).length;
+  }
+  for (let { methodName, proofArgs } of _methods ?? []) {
+    counts[methodName] = proofArgs.length;
+  }
+  return counts;
+}
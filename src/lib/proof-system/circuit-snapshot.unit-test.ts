@@ -0,0 +1,115 @@
+import { Field } from '../provable/wrapped.js';
+import { Poseidon } from '../provable/crypto/poseidon.js';
+import { SelfProof, ZkProgram } from './zkprogram.js';
+import { SmartContract, method } from '../mina/zkapp.js';
+import { State, state } from '../mina/state.js';
+import { CircuitSnapshot } from './circuit-snapshot.js';
+import { expect } from 'expect';
+import { it } from 'node:test';
+
+function program(version: 1 | 2) {
+  let Program = ZkProgram({
+    name: 'counter',
+    publicInput: Field,
+    publicOutput: Field,
+    methods: {
+      init: {
+        privateInputs: [],
+        async method(x: Field) {
+          return x;
+        },
+      },
+      step: {
+        privateInputs: [],
+        async method(x: Field) {
+          // version 2 hashes instead of adding
+          return version === 1 ? x.add(1) : Poseidon.hash([x]);
+        },
+      },
+    },
+  });
+  return Program;
+}
+
+const Recursive = ZkProgram({
+  name: 'counter',
+  publicInput: Field,
+  publicOutput: Field,
+  methods: {
+    init: {
+      privateInputs: [],
+      async method(x: Field) {
+        return x;
+      },
+    },
+    merge: {
+      privateInputs: [SelfProof],
+      async method(x: Field, proof: SelfProof<Field, Field>) {
+        proof.verify();
+        return proof.publicOutput;
+      },
+    },
+  },
+});
+
+class Counter extends SmartContract {
+  @state(Field) count = State<Field>();
+
+  @method async increment() {
+    this.count.set(this.count.getAndRequireEquals().add(1));
+  }
+}
+
+let v1 = await CircuitSnapshot.create(program(1));
+
+it('snapshots are serializable and unchanged for the same circuit', async () => {
+  let again = await CircuitSnapshot.create(program(1));
+  let stored = JSON.parse(JSON.stringify(v1));
+
+  expect(CircuitSnapshot.compare(stored, again).changed).toEqual(false);
+  expect(() => CircuitSnapshot.assertUnchanged(stored, again)).not.toThrow();
+  expect(v1.maxProofsVerified).toEqual(0);
+});
+
+it('reports changed methods and gates', async () => {
+  let v2 = await CircuitSnapshot.create(program(2));
+  let diff = CircuitSnapshot.compare(v1, v2);
+
+  expect(diff.changed).toEqual(true);
+  expect(diff.methods.map((m) => [m.name, m.status])).toEqual([
+    ['init', 'unchanged'],
+    ['step', 'changed'],
+  ]);
+  let step = diff.methods[1];
+  expect(step.gatesAdded.Poseidon).toBeGreaterThan(0);
+  expect(step.publicInputSizeChanged).toEqual(false);
+
+  expect(() => CircuitSnapshot.assertUnchanged(v1, v2)).toThrow(
+    /step\(\): changed/
+  );
+});
+
+it('reports added and removed methods and maxProofsVerified', async () => {
+  let recursive = await CircuitSnapshot.create(Recursive);
+  let diff = CircuitSnapshot.compare(v1, recursive);
+
+  expect(diff.methods.map((m) => [m.name, m.status])).toEqual([
+    ['init', 'unchanged'],
+    ['merge', 'added'],
+    ['step', 'removed'],
+  ]);
+  expect(diff.maxProofsVerified).toEqual({ before: 0, after: 1 });
+});
+
+it('snapshots smart contracts', async () => {
+  let snapshot = await CircuitSnapshot.create(Counter);
+
+  expect(snapshot.name).toEqual('Counter');
+  expect(Object.keys(snapshot.methods)).toEqual(['increment']);
+  // the account update and calls hash of `ZkappPublicInput`
+  expect(snapshot.methods.increment.publicInputSize).toEqual(2);
+  expect(
+    CircuitSnapshot.compare(snapshot, await CircuitSnapshot.create(Counter))
+      .changed
+  ).toEqual(false);
+});
@@ -0,0 +1,499 @@
+/**
+ * A profiler which attributes the rows of a constraint system to the source code that created them.
+ */
+import { Snarky, initializeBindings } from '../../snarky.js';
+import type { Gate } from '../../snarky.js';
+import { MlArray } from '../ml/base.js';
+import { FieldConst } from '../provable/core/fieldvar.js';
+import { exists } from '../provable/core/exists.js';
+import { constraintSystem } from '../provable/core/provable-context.js';
+import { KimchiGateType } from '../provable/gates.js';
+import { TupleN } from '../util/types.js';
+
+export { ConstraintProfiler, ConstraintProfile, ProfileNode, Hotspot };
+
+// internal API
+export { buildProfile, CallRecord, markerCoefficient, o1jsRoot };
+
+/**
+ * A node of the call tree, with the number of rows created by calls in this function and its callees.
+ */
+type ProfileNode = {
+  name: string;
+  /**
+   * The source location of the function call, as `file:line`.
+   */
+  location?: string;
+  rows: number;
+  /**
+   * Rows created directly by this function, rather than by one of its callees.
+   */
+  selfRows: number;
+  children: ProfileNode[];
+};
+
+/**
+ * The rows created by an o1js function, summed over all calls to it from the same line of user code.
+ */
+type Hotspot = {
+  /**
+   * The o1js function which was called, for example `Poseidon.hash`, with its location.
+   */
+  gadget: string;
+  /**
+   * The line of user code which called it.
+   */
+  callSite: string;
+  rows: number;
+  calls: number;
+};
+
+type ConstraintProfile = {
+  name: string;
+  rows: number;
+  /**
+   * The maximum number of rows of a circuit, `2^16`.
+   */
+  rowLimit: number;
+  /**
+   * Number of gates of each type.
+   */
+  gates: Record<string, number>;
+  /**
+   * The call tree, starting from the outermost function.
+   * Rows which were created before the first gadget call, like the public input, are attributed to `(unattributed)`.
+   */
+  root: ProfileNode;
+  /**
+   * Calls to o1js from user code, sorted by the number of rows they created.
+   */
+  hotspots: Hotspot[];
+};
+
+type StackFrame = { name: string; file: string; line: number };
+
+type CallRecord = {
+  /**
+   * Frames from the innermost to the outermost function.
+   */
+  stack: StackFrame[];
+};
+
+const rowLimit = 1 << 16;
+
+/**
+ * Coefficient which identifies the gates that the profiler inserts before every gadget call.
+ * It's an arbitrary constant ("o1js-profiler" in ASCII), which no real gate uses as its first coefficient.
+ */
+const markerCoefficient = 0x6f316a732d70726f66696c6572n;
+
+async function profile(
+  f: (() => Promise<void>) | (() => void),
+  name = 'circuit'
+): Promise<ConstraintProfile> {
+  let calls: CallRecord[] = [];
+  let restore = await instrument(calls);
+  try {
+    let { gates } = await constraintSystem(f);
+    return buildProfile(name, gates, calls);
+  } finally {
+    restore();
+  }
+}
+
+/**
+ * A `ZkProgram` or `SmartContract` class.
+ */
+type ProfilableProgram = {
+  name: string;
+  analyzeMethods(): Promise<Record<string, { gates: Gate[] }>>;
+};
+
+async function profileMethods(
+  program: ProfilableProgram
+): Promise<Record<string, ConstraintProfile>> {
+  // smart contracts only analyze their methods once, so the metadata is reset while profiling
+  let contract = program as { _methodMetadata?: unknown };
+  let isContract = '_methods' in program;
+  let metadata = contract._methodMetadata;
+  if (isContract) contract._methodMetadata = undefined;
+
+  let calls: CallRecord[] = [];
+  let restore = await instrument(calls);
+  try {
+    let analyzed = await program.analyzeMethods();
+    let profiles: Record<string, ConstraintProfile> = {};
+    for (let [methodName, { gates }] of Object.entries(analyzed)) {
+      profiles[methodName] = buildProfile(
+        `${program.name}.${methodName}`,
+        gates,
+        calls
+      );
+    }
+    return profiles;
+  } finally {
+    restore();
+    if (isContract) contract._methodMetadata = metadata;
+  }
+}
+
+function format(
+  profile: ConstraintProfile,
+  { top = 10 }: { top?: number } = {}
+): string {
+  let percent = ((100 * profile.rows) / profile.rowLimit).toFixed(1);
+  let lines = [
+    `${profile.name}: ${profile.rows} rows (${percent}% of ${profile.rowLimit})`,
+  ];
+  if (profile.rows > profile.rowLimit) {
+    lines.push(`  exceeds the row limit by ${profile.rows - profile.rowLimit}`);
+  }
+  let hotspots = profile.hotspots.slice(0, top);
+  if (hotspots.length > 0) {
+    lines.push(`  ${'rows'.padStart(7)} ${'calls'.padStart(6)}  gadget`);
+  }
+  for (let { rows, calls, gadget, callSite } of hotspots) {
+    lines.push(
+      `  ${String(rows).padStart(7)} ${String(calls).padStart(
+        6
+      )}  ${gadget}, called at ${callSite}`
+    );
+  }
+  return lines.join('\n');
+}
+
+function toHtml(profiles: ConstraintProfile | ConstraintProfile[]): string {
+  if (!Array.isArray(profiles)) profiles = [profiles];
+  let title = profiles.map((p) => p.name).join(', ');
+  let sections = profiles.map((profile) => {
+    let percent = ((100 * profile.rows) / profile.rowLimit).toFixed(1);
+    let hotspots = profile.hotspots
+      .slice(0, 20)
+      .map(
+        ({ rows, calls, gadget, callSite }) =>
+          `<tr><td>${rows}</td><td>${calls}</td><td>${escapeHtml(
+            gadget
+          )}</td><td>${escapeHtml(callSite)}</td></tr>`
+      )
+      .join('');
+    return `<section>
+<h2>${escapeHtml(profile.name)}</h2>
+<p>${profile.rows} rows, ${percent}% of the limit of ${profile.rowLimit}</p>
+<table><tr><th>rows</th><th>calls</th><th>gadget</th><th>call site</th></tr>${hotspots}</table>
+<div class="flame">${nodeToHtml(profile.root, profile.root.rows)}</div>
+</section>`;
+  });
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: sans-serif; font-size: 13px; }
+table { border-collapse: collapse; margin-bottom: 16px; }
+td, th { padding: 2px 8px; text-align: left; }
+.flame { display: flex; width: 100%; }
+.node { display: flex; flex-direction: column; overflow: hidden; min-width: 0; }
+.label { white-space: nowrap; overflow: hidden; text-overflow: ellipsis; padding: 2px; border: 1px solid #fff; }
+.children { display: flex; }
+</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+const ConstraintProfiler = {
+  /**
+   * The maximum number of rows of a circuit.
+   */
+  rowLimit,
+  /**
+   * Profiles a circuit in the same way as `Provable.constraintSystem()`.
+   *
+   * ```ts
+   * let profile = await ConstraintProfiler.profile(() => {
+   *   let x = Provable.witness(Field, () => Field(1));
+   *   Poseidon.hash([x, x]);
+   * });
+   * console.log(ConstraintProfiler.format(profile));
+   * ```
+   */
+  profile,
+  /**
+   * Profiles every method of a `ZkProgram` or `SmartContract`, by running `analyzeMethods()`.
+   *
+   * ```ts
+   * let profiles = await ConstraintProfiler.profileMethods(MyProgram);
+   * fs.writeFileSync('profile.html', ConstraintProfiler.toHtml(Object.values(profiles)));
+   * ```
+   *
+   * Note: Generic gates are packed two per row, so a row can be attributed to the later of two calls which share it.
+   */
+  profileMethods,
+  /**
+   * Formats the total number of rows and the biggest contributors of a profile as text.
+   */
+  format,
+  /**
+   * Renders profiles as a standalone HTML page, with a table of the biggest contributors and a flame graph of the call tree.
+   */
+  toHtml,
+};
+
+/**
+ * Wraps all Snarky functions which add constraints, so that every call inserts a marker gate into the constraint system
+ * and records the current stack trace.
+ *
+ * @returns A function which removes the wrappers.
+ */
+async function instrument(calls: CallRecord[]): Promise<() => void> {
+  await initializeBindings();
+  let rawGate = Snarky.gates.raw;
+
+  function marker() {
+    if (Snarky.run.inProverBlock()) return;
+    let index = calls.length;
+    calls.push({ stack: parseStack(new Error().stack).slice(2) });
+    let values = exists(15, () => Array(15).fill(0n) as TupleN<bigint, 15>);
+    rawGate(
+      KimchiGateType.Zero,
+      MlArray.to(values.map((x) => x.value)),
+      MlArray.to([markerCoefficient, BigInt(index)].map(FieldConst.fromBigint))
+    );
+  }
+
+  let restores: (() => void)[] = [];
+  function wrap(object: any, keys: string[]) {
+    for (let key of keys) {
+      let original = object[key];
+      object[key] = function (...args: unknown[]) {
+        marker();
+        return original.apply(object, args);
+      };
+      restores.push(() => (object[key] = original));
+    }
+  }
+  let gateKeys = Object.keys(Snarky.gates).filter(
+    (key) => key !== 'addFixedLookupTable' && key !== 'addRuntimeTableConfig'
+  );
+  wrap(Snarky.gates, gateKeys);
+  wrap(Snarky.field, [
+    'assertEqual',
+    'assertMul',
+    'assertSquare',
+    'assertBoolean',
+    'truncateToBits16',
+  ]);
+  wrap(Snarky.group, ['scaleFastUnpack']);
+  wrap(Snarky.poseidon, ['update', 'hashToGroup']);
+  wrap(Snarky.poseidon.sponge, ['absorb', 'squeeze']);
+
+  let stackTraceLimit = Error.stackTraceLimit;
+  Error.stackTraceLimit = Infinity;
+
+  return () => {
+    Error.stackTraceLimit = stackTraceLimit;
+    restores.forEach((restore) => restore());
+  };
+}
+
+/**
+ * Assigns the gates between two marker gates to the call which inserted the first marker.
+ */
+function buildProfile(
+  name: string,
+  gates: Gate[],
+  calls: CallRecord[]
+): ConstraintProfile {
+  let root: ProfileNode = { name, rows: 0, selfRows: 0, children: [] };
+  let unattributed: ProfileNode = {
+    name: '(unattributed)',
+    rows: 0,
+    selfRows: 0,
+    children: [],
+  };
+  let hotspots = new Map<string, Hotspot>();
+  let gateCounts: Record<string, number> = {};
+
+  let current: { call: CallRecord; rows: number } | undefined;
+  function finishCall() {
+    if (current === undefined || current.rows === 0) return;
+    let { call, rows } = current;
+    addToTree(root, call.stack, rows);
+
+    let { gadget, callSite } = entryPoint(call.stack);
+    let key = `${gadget}\n${callSite}`;
+    let hotspot = hotspots.get(key);
+    if (hotspot === undefined) {
+      hotspot = { gadget, callSite, rows: 0, calls: 0 };
+      hotspots.set(key, hotspot);
+    }
+    hotspot.rows += rows;
+    hotspot.calls++;
+  }
+
+  for (let gate of gates) {
+    if (isMarker(gate)) {
+      finishCall();
+      current = { call: calls[Number(gate.coeffs[1])], rows: 0 };
+      continue;
+    }
+    gateCounts[gate.type] = (gateCounts[gate.type] ?? 0) + 1;
+    root.rows++;
+    if (current !== undefined) {
+      current.rows++;
+    } else {
+      unattributed.rows++;
+      unattributed.selfRows++;
+    }
+  }
+  finishCall();
+
+  if (unattributed.rows > 0) root.children.unshift(unattributed);
+  sortTree(root);
+
+  return {
+    name,
+    rows: root.rows,
+    rowLimit,
+    gates: gateCounts,
+    root,
+    hotspots: [...hotspots.values()].sort((a, b) => b.rows - a.rows),
+  };
+}
+
+function isMarker(gate: Gate) {
+  return (
+    gate.type === 'Zero' && gate.coeffs[0] === markerCoefficient.toString()
+  );
+}
+
+function addToTree(root: ProfileNode, stack: StackFrame[], rows: number) {
+  let node = root;
+  for (let i = stack.length - 1; i >= 0; i--) {
+    let name = stack[i].name;
+    let location = formatLocation(stack[i]);
+    let child = node.children.find(
+      (c) => c.name === name && c.location === location
+    );
+    if (child === undefined) {
+      child = { name, location, rows: 0, selfRows: 0, children: [] };
+      node.children.push(child);
+    }
+    child.rows += rows;
+    node = child;
+  }
+  node.selfRows += rows;
+}
+
+function sortTree(node: ProfileNode) {
+  node.children.sort((a, b) => b.rows - a.rows);
+  node.children.forEach(sortTree);
+}
+
+/**
+ * Finds the innermost line of user code in a stack, and the o1js function it called.
+ */
+function entryPoint(stack: StackFrame[]): { gadget: string; callSite: string } {
+  let i = stack.findIndex((frame) => !isInternal(frame.file));
+  if (i === -1) {
+    let outermost = stack[stack.length - 1];
+    let site = outermost ? formatFrame(outermost) : '(unknown)';
+    return { gadget: site, callSite: site };
+  }
+  let gadget = i > 0 ? formatFrame(stack[i - 1]) : '(direct)';
+  return { gadget, callSite: formatLocation(stack[i]) };
+}
+
+// stack traces
+
+/**
+ * Parses V8 stack traces, skipping frames of Node.js internals and of the compiled bindings.
+ */
+function parseStack(stack = ''): StackFrame[] {
+  let frames: StackFrame[] = [];
+  for (let line of stack.split('\n').slice(1)) {
+    let match = line.match(/^\s*at (?:(.+?) \()?(.+?):(\d+):\d+\)?$/);
+    if (match === null) continue;
+    let [, name = '(anonymous)', file] = match;
+    if (file.startsWith('node:') || file.includes('bindings/compiled')) {
+      continue;
+    }
+    frames.push({
+      name: name.replace(/^async /, ''),
+      file: file.replace(/^file:\/\//, ''),
+      line: Number(match[3]),
+    });
+  }
+  return frames;
+}
+
+/**
+ * The directory which contains the o1js sources, derived from the location of this file.
+ */
+let o1jsRoot = (() => {
+  let [frame] = parseStack(new Error().stack);
+  return frame?.file.replace(
+    /lib\/proof-system\/constraint-profiler\.[jt]s$/,
+    ''
+  );
+})();
+
+function isInternal(file: string) {
+  return (
+    o1jsRoot !== undefined &&
+    file.startsWith(o1jsRoot) &&
+    !file.includes('/examples/')
+  );
+}
+
+function formatLocation({ file, line }: StackFrame) {
+  if (isInternal(file)) file = file.slice(o1jsRoot!.length);
+  else if (typeof process !== 'undefined') {
+    let cwd = process.cwd() + '/';
+    if (file.startsWith(cwd)) file = file.slice(cwd.length);
+  }
+  return `${file}:${line}`;
+}
+
+function formatFrame(frame: StackFrame) {
+  return `${frame.name} (${formatLocation(frame)})`;
+}
+
+// html
+
+function nodeToHtml(node: ProfileNode, total: number): string {
+  let width = total === 0 ? 100 : (100 * node.rows) / total;
+  let title = `${node.name}${node.location ? ` (${node.location})` : ''}: ${
+    node.rows
+  } rows`;
+  let children = node.children
+    .map((child) => nodeToHtml(child, node.rows))
+    .join('');
+  return `<div class="node" style="width:${width.toFixed(
+    3
+  )}%"><div class="label" title="${escapeHtml(
+    title
+  )}" style="background:${color(node.name)}">${escapeHtml(
+    node.name
+  )}</div><div class="children">${children}</div></div>`;
+}
+
+function color(name: string) {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) >>> 0;
+  }
+  return `hsl(${20 + (hash % 40)}, 90%, ${60 + (hash % 20)}%)`;
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,107 @@
+import type { Gate } from '../../snarky.js';
+import { Field } from '../provable/wrapped.js';
+import { Poseidon } from '../provable/crypto/poseidon.js';
+import { Provable } from '../provable/provable.js';
+import {
+  CallRecord,
+  ConstraintProfiler,
+  buildProfile,
+  markerCoefficient,
+  o1jsRoot,
+} from './constraint-profiler.js';
+import { expect } from 'expect';
+import { it } from 'node:test';
+
+// stack frames point to the sources if source maps are enabled, so fake frames are placed relative to the detected root
+let poseidonFile = `${o1jsRoot}lib/provable/crypto/poseidon.js`;
+
+function gate(type: Gate['type']): Gate {
+  return { type, wires: [], coeffs: [] };
+}
+function marker(index: number): Gate {
+  return {
+    type: 'Zero',
+    wires: [],
+    coeffs: [markerCoefficient.toString(), String(index)],
+  };
+}
+
+it('attributes the gates between markers to the call which inserted the marker', () => {
+  let calls: CallRecord[] = [
+    {
+      stack: [
+        { name: 'Object.hash', file: poseidonFile, line: 10 },
+        { name: 'main', file: '/app/main.js', line: 5 },
+      ],
+    },
+    {
+      stack: [
+        { name: 'Object.hash', file: poseidonFile, line: 10 },
+        { name: 'main', file: '/app/main.js', line: 5 },
+      ],
+    },
+    {
+      stack: [
+        { name: 'check', file: '/app/main.js', line: 20 },
+        { name: 'main', file: '/app/main.js', line: 6 },
+      ],
+    },
+  ];
+  let gates = [
+    gate('Generic'),
+    marker(0),
+    ...Array(12).fill(gate('Poseidon')),
+    gate('Zero'),
+    marker(1),
+    ...Array(12).fill(gate('Poseidon')),
+    gate('Zero'),
+    marker(2),
+    gate('Generic'),
+  ];
+  let profile = buildProfile('test', gates, calls);
+
+  expect(profile.rows).toEqual(28);
+  expect(profile.gates).toEqual({ Generic: 2, Poseidon: 24, Zero: 2 });
+
+  // tree nodes are call sites, so the two lines of `main()` are separate nodes
+  expect(
+    profile.root.children.map((c) => [c.name, c.location, c.rows])
+  ).toEqual([
+    ['main', '/app/main.js:5', 26],
+    ['(unattributed)', undefined, 1],
+    ['main', '/app/main.js:6', 1],
+  ]);
+  let [hash] = profile.root.children[0].children;
+  expect(hash).toMatchObject({ name: 'Object.hash', rows: 26, selfRows: 26 });
+
+  expect(profile.hotspots).toEqual([
+    {
+      gadget: 'Object.hash (lib/provable/crypto/poseidon.js:10)',
+      callSite: '/app/main.js:5',
+      rows: 26,
+      calls: 2,
+    },
+    {
+      gadget: '(direct)',
+      callSite: '/app/main.js:20',
+      rows: 1,
+      calls: 1,
+    },
+  ]);
+
+  let text = ConstraintProfiler.format(profile);
+  expect(text).toContain('test: 28 rows (0.0% of 65536)');
+  expect(ConstraintProfiler.toHtml(profile)).toContain('Object.hash');
+});
+
+it('profiles a circuit without changing its number of rows', async () => {
+  function circuit() {
+    let x = Provable.witness(Field, () => Field(1));
+    Poseidon.hash([x, x]).assertEquals(Poseidon.hash([x]));
+  }
+  let { rows } = await Provable.constraintSystem(circuit);
+  let profile = await ConstraintProfiler.profile(circuit);
+
+  expect(profile.rows).toEqual(rows);
+  expect(profile.hotspots[0].rows).toBeGreaterThan(0);
+});
@@ -0,0 +1,174 @@
+/**
+ * A self-describing serialization format for proofs, which identifies the program and verification key a proof belongs to.
+ */
+import { Field } from '../provable/wrapped.js';
+import type { FlexibleProvablePure } from '../provable/types/struct.js';
+import type { JsonProof, Proof, VerificationKey } from './zkprogram.js';
+
+export { ProofEnvelope, toEnvelope, fromEnvelope, proofMethods };
+
+/**
+ * Serialized proof together with metadata about the program that created it.
+ *
+ * The public input and output are serialized with the `toJSON()` method of their type, so that they are human-readable.
+ */
+type ProofEnvelope = {
+  version: 1;
+  program: {
+    name: string;
+    /**
+     * The result of `program.digest()`, which changes whenever the constraints of the program change.
+     */
+    digest: string;
+    verificationKeyHash: string;
+  };
+  /**
+   * The method which created the proof, if known.
+   */
+  method: string | null;
+  maxProofsVerified: 0 | 1 | 2;
+  publicInput: unknown;
+  publicOutput: unknown;
+  /**
+   * The proof, base64-encoded.
+   */
+  proof: string;
+};
+
+type Program = {
+  name: string;
+  digest(): Promise<string>;
+  publicInputType: FlexibleProvablePure<any>;
+  publicOutputType: FlexibleProvablePure<any>;
+  privateInputTypes: Record<string, unknown>;
+};
+
+/**
+ * The methods which created proofs, recorded by the provers of `ZkProgram`.
+ */
+const proofMethods = new WeakMap<object, string>();
+
+async function toEnvelope(
+  proof: Proof<any, any>,
+  program: Program,
+  {
+    verificationKey,
+    method = proofMethods.get(proof),
+  }: { verificationKey: VerificationKey; method?: string }
+): Promise<ProofEnvelope> {
+  let json = proof.toJSON();
+  return {
+    version: 1,
+    program: {
+      name: program.name,
+      digest: await program.digest(),
+      verificationKeyHash: verificationKey.hash.toString(),
+    },
+    method: method ?? null,
+    maxProofsVerified: json.maxProofsVerified,
+    publicInput: valueToJSON(program.publicInputType, proof.publicInput),
+    publicOutput: valueToJSON(program.publicOutputType, proof.publicOutput),
+    proof: json.proof,
+  };
+}
+
+async function fromEnvelope<P extends Proof<any, any>>(
+  ProofClass: { fromJSON(json: JsonProof): Promise<P> },
+  program: Program,
+  envelope: ProofEnvelope,
+  { verificationKey }: { verificationKey?: VerificationKey } = {}
+): Promise<P> {
+  function mismatch(what: string, expected: unknown, actual: unknown) {
+    return Error(
+      `Proof.fromEnvelope(): ${what} doesn't match, expected ${expected} but got ${actual}.`
+    );
+  }
+
+  if (envelope.version !== 1) {
+    throw Error(
+      `Proof.fromEnvelope(): unsupported envelope version ${envelope.version}.`
+    );
+  }
+  if (envelope.program.name !== program.name) {
+    throw mismatch(
+      'program name',
+      `"${program.name}"`,
+      `"${envelope.program.name}"`
+    );
+  }
+  if (
+    envelope.method !== null &&
+    !(envelope.method in program.privateInputTypes)
+  ) {
+    throw Error(
+      `Proof.fromEnvelope(): program "${program.name}" has no method "${envelope.method}".`
+    );
+  }
+  let digest = await program.digest();
+  if (envelope.program.digest !== digest) {
+    throw mismatch(
+      `digest of program "${program.name}"`,
+      digest,
+      envelope.program.digest
+    );
+  }
+  if (
+    verificationKey !== undefined &&
+    envelope.program.verificationKeyHash !== verificationKey.hash.toString()
+  ) {
+    throw mismatch(
+      'verification key hash',
+      verificationKey.hash.toString(),
+      envelope.program.verificationKeyHash
+    );
+  }
+
+  let publicInput = valueFromJSON(
+    program.publicInputType,
+    envelope.publicInput,
+    'public input'
+  );
+  let publicOutput = valueFromJSON(
+    program.publicOutputType,
+    envelope.publicOutput,
+    'public output'
+  );
+  let proof = await ProofClass.fromJSON({
+    publicInput: program.publicInputType.toFields(publicInput).map(String),
+    publicOutput: program.publicOutputType.toFields(publicOutput).map(String),
+    maxProofsVerified: envelope.maxProofsVerified,
+    proof: envelope.proof,
+  });
+  if (envelope.method !== null) proofMethods.set(proof, envelope.method);
+  return proof;
+}
+
+// types without a JSON representation are serialized as field elements
+
+function valueToJSON<T>(type: FlexibleProvablePure<T>, value: T) {
+  if ('toJSON' in type && typeof type.toJSON === 'function') {
+    return type.toJSON(value);
+  }
+  return type.toFields(value).map(String);
+}
+
+function valueFromJSON<T>(
+  type: FlexibleProvablePure<T>,
+  json: unknown,
+  what: string
+) {
+  try {
+    if ('fromJSON' in type && typeof type.fromJSON === 'function') {
+      return type.fromJSON(json);
+    }
+    let fields = (json as string[]).map(Field);
+    if (fields.length !== type.sizeInFields()) {
+      throw Error(`expected ${type.sizeInFields()} fields`);
+    }
+    return type.fromFields(fields);
+  } catch (error: any) {
+    throw Error(
+      `Proof.fromEnvelope(): the ${what} doesn't match the type of the program: ${error?.message}`
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { Field } from '../provable/wrapped.js';
+import { Struct } from '../provable/types/struct.js';
+import { UInt64 } from '../provable/int.js';
+import { Proof, VerificationKey, ZkProgram } from './zkprogram.js';
+import { expect } from 'expect';
+import { it } from 'node:test';
+
+class Balance extends Struct({ amount: UInt64, nonce: Field }) {}
+
+const Program = ZkProgram({
+  name: 'balances',
+  publicInput: Field,
+  publicOutput: Balance,
+  methods: {
+    run: {
+      privateInputs: [],
+      async method(nonce: Field) {
+        return new Balance({ amount: UInt64.from(10), nonce });
+      },
+    },
+  },
+});
+
+const OtherProgram = ZkProgram({
+  name: 'other',
+  publicInput: Field,
+  publicOutput: Balance,
+  methods: {
+    run: {
+      privateInputs: [Field],
+      async method(nonce: Field, amount: Field) {
+        return new Balance({ amount: UInt64.Unsafe.fromField(amount), nonce });
+      },
+    },
+  },
+});
+
+class ProgramProof extends ZkProgram.Proof(Program) {}
+
+let verificationKey = new VerificationKey({ data: '', hash: Field(1234) });
+let balance = new Balance({ amount: UInt64.from(10), nonce: Field(3) });
+let proof = await ProgramProof.dummy(Field(3), balance, 0);
+
+it('round-trips a proof with typed public input and output', async () => {
+  let envelope = await proof.toEnvelope(Program, {
+    verificationKey,
+    method: 'run',
+  });
+  envelope = JSON.parse(JSON.stringify(envelope));
+
+  expect(envelope.version).toEqual(1);
+  expect(envelope.program).toEqual({
+    name: 'balances',
+    digest: await Program.digest(),
+    verificationKeyHash: '1234',
+  });
+  expect(envelope.method).toEqual('run');
+  expect(envelope.publicInput).toEqual('3');
+  expect(envelope.publicOutput).toEqual({ amount: '10', nonce: '3' });
+
+  let restored = await ProgramProof.fromEnvelope(Program, envelope, {
+    verificationKey,
+  });
+  expect(restored.toJSON()).toEqual(proof.toJSON());
+
+  // the base class uses the types of the program
+  let restoredBase = await Proof.fromEnvelope(Program, envelope);
+  expect(restoredBase.publicOutput).toEqual(balance);
+});
+
+it('fails on mismatches with the program', async () => {
+  let envelope = await proof.toEnvelope(Program, { verificationKey });
+  expect(envelope.method).toEqual(null);
+
+  await expect(
+    ProgramProof.fromEnvelope(OtherProgram, envelope)
+  ).rejects.toThrow(/program name doesn't match/);
+
+  await expect(
+    ProgramProof.fromEnvelope(Program, {
+      ...envelope,
+      program: { ...envelope.program, digest: 'abc' },
+    })
+  ).rejects.toThrow(/digest of program "balances" doesn't match/);
+
+  await expect(
+    ProgramProof.fromEnvelope(Program, envelope, {
+      verificationKey: new VerificationKey({ data: '', hash: Field(1) }),
+    })
+  ).rejects.toThrow(/verification key hash doesn't match/);
+
+  await expect(
+    ProgramProof.fromEnvelope(Program, { ...envelope, method: 'other' })
+  ).rejects.toThrow(/has no method "other"/);
+
+  await expect(
+    ProgramProof.fromEnvelope(Program, { ...envelope, publicOutput: '1' })
+  ).rejects.toThrow(/public output doesn't match/);
+});
@@ -0,0 +1,137 @@
+/**
+ * Recordings of `ZkProgram` prover calls, which contain everything needed to rerun a prover deterministically.
+ */
+import { Field } from '../provable/wrapped.js';
+import type { Provable } from '../provable/types/provable-intf.js';
+import { WitnessTape } from '../provable/core/witness-tape.js';
+import type { JsonProof, MethodInterface, Proof } from './zkprogram.js';
+
+export { ProveRecording };
+
+// internal API
+export { createRecording, fromRecording, attachRecording };
+
+/**
+ * The inputs of a prover call and all values witnessed while running it.
+ *
+ * Field elements are stored as decimal strings. Auxiliary (non-field) data of the arguments and witnesses is stored
+ * as is, so recordings are only JSON-serializable if that data is.
+ */
+type ProveRecording = {
+  version: 1;
+  program: string;
+  method: string;
+  publicInput: string[];
+  args: ({ fields: string[]; aux: any[] } | { proof: JsonProof })[];
+  witnesses: { values: string[]; aux?: any[] }[];
+  /**
+   * Whether the prover finished running the circuit, so that the witnesses are complete.
+   */
+  complete: boolean;
+};
+
+/**
+ * The recordings of failed prover calls.
+ */
+const recordings = new WeakMap<object, ProveRecording>();
+
+const ProveRecording = {
+  /**
+   * Returns the recording attached to an error thrown by a `ZkProgram` prover, if the program was created with
+   * the `proveRetries` option.
+   *
+   * ```ts
+   * try {
+   *   await MyProgram.run(input);
+   * } catch (error) {
+   *   let recording = ProveRecording.fromError(error);
+   *   // later, or in another process:
+   *   await MyProgram.replay(recording!);
+   * }
+   * ```
+   */
+  fromError(error: unknown): ProveRecording | undefined {
+    if (typeof error !== 'object' || error === null) return undefined;
+    return recordings.get(error);
+  },
+};
+
+function createRecording(
+  program: string,
+  publicInputType: Provable<any>,
+  { methodName, allArgs, witnessArgs }: MethodInterface,
+  publicInput: unknown,
+  args: unknown[],
+  tape: WitnessTape
+): ProveRecording {
+  return {
+    version: 1,
+    program,
+    method: methodName,
+    publicInput: publicInputType.toFields(publicInput).map(String),
+    args: allArgs.map(({ type, index }, i) => {
+      if (type === 'proof') {
+        return { proof: (args[i] as Proof<any, any>).toJSON() };
+      }
+      let argType = witnessArgs[index];
+      return {
+        fields: argType.toFields(args[i]).map(String),
+        aux: argType.toAuxiliary(args[i]),
+      };
+    }),
+    witnesses: tape.entries.map(({ values, aux }) => ({
+      values: values.map(String),
+      aux,
+    })),
+    complete: tape.complete,
+  };
+}
+
+async function fromRecording(
+  publicInputType: Provable<any>,
+  { allArgs, witnessArgs, proofArgs }: MethodInterface,
+  recording: ProveRecording
+) {
+  if (recording.version !== 1) {
+    throw Error(
+      `${recording.program}.replay(): unsupported recording version ${recording.version}.`
+    );
+  }
+  let publicInput = publicInputType.fromFields(
+    recording.publicInput.map(Field),
+    []
+  );
+  let args = await Promise.all(
+    allArgs.map(async ({ type, index }, i) => {
+      let arg = recording.args[i];
+      if (type === 'proof' && 'proof' in arg) {
+        return (proofArgs[index] as typeof Proof).fromJSON(arg.proof);
+      }
+      if (type === 'witness' && 'fields' in arg) {
+        return witnessArgs[index].fromFields(arg.fields.map(Field), arg.aux);
+      }
+      throw Error(
+        `${recording.program}.replay(): argument ${i} of ${recording.method}() doesn't match the recording.`
+      );
+    })
+  );
+  let tape = WitnessTape.replay(
+    recording.witnesses.map(({ values, aux }) => ({
+      values: values.map(BigInt),
+      aux,
+    }))
+  );
+  return { publicInput, args, tape };
+}
+
+/**
+ * Attaches a recording to an error, so that it can be retrieved with {@link ProveRecording.fromError}.
+ */
+function attachRecording(error: unknown, recording: () => ProveRecording) {
+  if (typeof error !== 'object' || error === null) return;
+  try {
+    recordings.set(error, recording());
+  } catch {
+    // arguments which can't be serialized shouldn't hide the original error
+  }
+}
@@ -0,0 +1,123 @@
+import { Field } from '../provable/wrapped.js';
+import { Struct } from '../provable/types/struct.js';
+import { Provable } from '../provable/provable.js';
+import { ZkProgram } from './zkprogram.js';
+import { ProveRecording } from './prove-recording.js';
+import { expect } from 'expect';
+import { it } from 'node:test';
+
+class Output extends Struct({ value: Field }) {}
+
+let witnessCalls = 0;
+let witnessFailures = 0;
+let proverFailures = 0;
+
+// reading the output happens after all witnesses were computed, so failing there simulates a prover
+// that fails late, for example because it ran out of memory
+function output(value: Field): Output {
+  return {
+    get value() {
+      if (proverFailures > 0) {
+        proverFailures--;
+        throw Error('prover failed');
+      }
+      return value;
+    },
+  };
+}
+
+const Program = ZkProgram({
+  name: 'recorded',
+  publicInput: Field,
+  publicOutput: Output,
+  proveRetries: 1,
+  methods: {
+    multiply: {
+      privateInputs: [Field],
+      async method(x: Field, y: Field) {
+        let z = Provable.witness(Field, () => {
+          witnessCalls++;
+          if (witnessFailures > 0) {
+            witnessFailures--;
+            throw Error('witness failed');
+          }
+          return Field(x.toBigInt() * y.toBigInt());
+        });
+        z.assertEquals(x.mul(y));
+        return output(z);
+      },
+    },
+  },
+});
+
+await Program.compile();
+
+async function recordFailure(x: Field, y: Field) {
+  let error = await Program.multiply(x, y).then(
+    () => undefined,
+    (error: unknown) => error
+  );
+  expect(error).toBeDefined();
+  let recording = ProveRecording.fromError(error);
+  expect(recording).toBeDefined();
+  return recording!;
+}
+
+it('retries a prover that fails after computing witnesses, without recomputing them', async () => {
+  witnessCalls = 0;
+  proverFailures = 1;
+  let proof = await Program.multiply(Field(3), Field(4));
+
+  expect(witnessCalls).toEqual(1);
+  expect(proof.publicOutput.value).toEqual(Field(12));
+  expect(await Program.verify(proof)).toEqual(true);
+});
+
+it('attaches a recording to the error when all attempts fail, which can be replayed', async () => {
+  witnessCalls = 0;
+  proverFailures = 2;
+  let recording = await recordFailure(Field(3), Field(5));
+
+  expect(witnessCalls).toEqual(1);
+  expect(recording).toMatchObject({
+    version: 1,
+    program: 'recorded',
+    method: 'multiply',
+    publicInput: ['3'],
+    args: [{ fields: ['5'] }],
+    complete: true,
+  });
+  expect(recording.witnesses.map((w) => w.values)).toContainEqual(['15']);
+
+  // recordings survive a JSON round trip, and replaying them doesn't run the witness callbacks
+  let json: ProveRecording = JSON.parse(JSON.stringify(recording));
+  let proof = await Program.replay(json);
+  expect(witnessCalls).toEqual(1);
+  expect(proof.publicInput).toEqual(Field(3));
+  expect(proof.publicOutput.value).toEqual(Field(15));
+  expect(await Program.verify(proof)).toEqual(true);
+});
+
+it('records incomplete witnesses when witness generation fails', async () => {
+  witnessCalls = 0;
+  witnessFailures = 1;
+  let recording = await recordFailure(Field(2), Field(7));
+
+  // witness generation failures are not retried
+  expect(witnessCalls).toEqual(1);
+  expect(recording.complete).toEqual(false);
+  expect(recording.witnesses.map((w) => w.values)).not.toContainEqual(['14']);
+
+  // callbacks which were not recorded run again during replay
+  let proof = await Program.replay(recording);
+  expect(witnessCalls).toEqual(2);
+  expect(proof.publicOutput.value).toEqual(Field(14));
+});
+
+it('rejects recordings of other programs', async () => {
+  proverFailures = 2;
+  let recording = await recordFailure(Field(1), Field(1));
+  await expect(
+    Program.replay({ ...recording, program: 'other' })
+  ).rejects.toThrow(/the recording belongs to other.multiply\(\)/);
+});
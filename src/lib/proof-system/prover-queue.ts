@@ -0,0 +1,596 @@
+/**
+ * A queue of proving jobs, which are run by a pool of worker processes that each hold compiled provers.
+ */
+import { ChildProcess, fork } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import { Field } from '../provable/wrapped.js';
+import {
+  JsonProof,
+  PrivateInput,
+  ProofBase,
+  Subclass,
+  Proof,
+  SelfProof,
+  Undefined,
+  Void,
+  ZkProgram,
+  isProof,
+} from './zkprogram.js';
+import type {
+  FlexibleProvablePure,
+  InferProvable,
+} from '../provable/types/struct.js';
+import { Transaction } from '../mina/transaction.js';
+import type { KeyValueStore } from '../mina/indexer/store.js';
+
+export { ProverQueue, ProverJob, ProverJobEvent };
+
+// internal API
+export {
+  Program,
+  SerializedJob,
+  WorkerMessage,
+  serializeArguments,
+  deserializeArguments,
+};
+
+/**
+ * The parts of a `ZkProgram` which are needed to prove its methods from serialized arguments.
+ */
+type Program = {
+  name: string;
+  publicInputType: FlexibleProvablePure<any>;
+  publicOutputType: FlexibleProvablePure<any>;
+  privateInputTypes: Record<string, readonly PrivateInput[]>;
+  compile(): Promise<unknown>;
+};
+
+type ProgramProof<P extends Program> = Proof<
+  InferProvable<P['publicInputType']>,
+  InferProvable<P['publicOutputType']>
+>;
+
+type SerializedValue = { fields: string[]; aux: any[] } | { proof: JsonProof };
+
+type SerializedJob =
+  | {
+      kind: 'program';
+      program: string;
+      method: string;
+      args: SerializedValue[];
+    }
+  | { kind: 'transaction'; transaction: string; args: unknown[] };
+
+type StoredJob = { job: SerializedJob; result?: JsonProof | string };
+
+type WorkerMessage =
+  | { id: string; result: JsonProof | string }
+  | { id: string; error: string };
+
+type ProverQueue = ReturnType<typeof ProverQueue>;
+
+type ProverJob<T> = {
+  id: string;
+  /**
+   * Resolves with the proof or proven transaction, or rejects if proving failed or the job was cancelled.
+   */
+  result: Promise<T>;
+  cancel(): void;
+};
+
+type ProverJobEvent =
+  | { type: 'queued'; id: string; queueLength: number }
+  | { type: 'started'; id: string; worker: number }
+  | { type: 'completed'; id: string; worker: number; time: number }
+  | { type: 'failed'; id: string; worker: number; error: string }
+  | { type: 'cancelled'; id: string };
+
+type Entry = {
+  id: string;
+  job: SerializedJob;
+  /**
+   * Decodes the result and resolves the job with it.
+   */
+  complete: (result: JsonProof | string) => Promise<void>;
+  reject: (error: Error) => void;
+};
+
+type Slot = {
+  index: number;
+  worker: ChildProcess;
+  entry?: Entry;
+  startedAt?: number;
+  // whether the queue terminated the worker, as opposed to it crashing or being killed
+  isTerminated?: boolean;
+};
+
+/**
+ * Creates a queue which proves `ZkProgram` methods and transactions in a pool of worker processes.
+ *
+ * The `worker` module is run in every worker process, and has to call {@link ProverWorker} with the programs and
+ * transaction builders it can prove:
+ *
+ * ```ts
+ * // prover-worker.ts
+ * ProverWorker({ programs: [MyProgram] });
+ *
+ * // main.ts
+ * let queue = ProverQueue({ worker: new URL('./prover-worker.js', import.meta.url), workers: 2 });
+ * let job = queue.prove({ program: MyProgram, method: 'baseCase', args: [Field(0)] });
+ * let proof = await job.result;
+ * ```
+ *
+ * If a `store` is passed, jobs and their results are persisted, and jobs which were not finished when the process stopped
+ * can be continued with `queue.resume()`.
+ */
+function ProverQueue({
+  worker: workerModule,
+  workers = 1,
+  store,
+  keepResults = 100,
+}: {
+  /**
+   * Path or URL of the module that is run in each worker process.
+   */
+  worker: string | URL;
+  /**
+   * Number of worker processes.
+   *
+   * Note that each worker process holds its own compiled provers, and proving is itself multi-threaded,
+   * so more than a few workers are rarely useful.
+   */
+  workers?: number;
+  store?: KeyValueStore;
+  /**
+   * Number of finished jobs whose results are kept in the `store`, so that a job which is added again with the same `id`
+   * resolves with its result instead of being proved again. The results of older jobs are deleted.
+   */
+  keepResults?: number;
+}) {
+  if (!Number.isInteger(workers) || workers < 1) {
+    throw Error(`ProverQueue: invalid number of workers: ${workers}`);
+  }
+
+  let listeners = new Set<(event: ProverJobEvent) => void>();
+  function emit(event: ProverJobEvent) {
+    listeners.forEach((listener) => listener(event));
+  }
+
+  let queue: Entry[] = [];
+  let slots: Slot[] = [];
+  // jobs which are still being loaded from the store
+  let loading = new Map<string, Entry>();
+  let isClosed = false;
+
+  // the wasm bindings can't be loaded in a worker thread of node, which they reserve for their own thread pool,
+  // so workers are separate processes
+  let modulePath =
+    typeof workerModule === 'string'
+      ? workerModule
+      : fileURLToPath(workerModule);
+
+  function spawn(index: number): Slot {
+    let worker = fork(modulePath, [], { serialization: 'advanced' });
+    let slot: Slot = { index, worker };
+    slot.worker.on('message', (message: WorkerMessage) => {
+      let entry = slot.entry;
+      if (entry === undefined || entry.id !== message.id) return;
+      let time = performance.now() - slot.startedAt!;
+      slot.entry = undefined;
+
+      if ('error' in message) {
+        emit({
+          type: 'failed',
+          id: entry.id,
+          worker: index,
+          error: message.error,
+        });
+        void finish(entry.id);
+        entry.reject(Error(message.error));
+      } else {
+        emit({ type: 'completed', id: entry.id, worker: index, time });
+        void finish(entry.id, { job: entry.job, result: message.result });
+        void entry.complete(message.result);
+      }
+      schedule();
+    });
+    // an error in spawning or messaging the worker is followed by an exit
+    let workerError: Error | undefined;
+    slot.worker.on('error', (error) => {
+      workerError = error;
+    });
+    slot.worker.on('exit', (code) => {
+      if (slot.isTerminated || isClosed) return;
+
+      // the worker crashed or was killed, so it is replaced and its job fails.
+      // the job stays in the store, so that it can be resumed
+      let entry = slot.entry;
+      slot.entry = undefined;
+      slots[index] = spawn(index);
+      if (entry !== undefined) {
+        let error =
+          workerError ??
+          Error(`ProverQueue: worker ${index} exited with code ${code}.`);
+        emit({
+          type: 'failed',
+          id: entry.id,
+          worker: index,
+          error: error.message,
+        });
+        entry.reject(error);
+      }
+      schedule();
+    });
+    return slot;
+  }
+  for (let i = 0; i < workers; i++) {
+    slots.push(spawn(i));
+  }
+
+  function schedule() {
+    for (let slot of slots) {
+      if (slot.entry !== undefined) continue;
+      let entry = queue.shift();
+      if (entry === undefined) return;
+      slot.entry = entry;
+      slot.startedAt = performance.now();
+      emit({ type: 'started', id: entry.id, worker: slot.index });
+      slot.worker.send({ id: entry.id, job: entry.job });
+    }
+  }
+
+  function terminate(slot: Slot) {
+    let { worker } = slot;
+    return new Promise<void>((resolve) => {
+      if (worker.exitCode !== null || worker.signalCode !== null) {
+        return resolve();
+      }
+      worker.once('exit', () => resolve());
+      worker.kill();
+    });
+  }
+
+  // persistence
+
+  const indexKey = 'prover-queue:jobs';
+  const finishedKey = 'prover-queue:finished';
+  const jobKey = (id: string) => `prover-queue:job:${id}`;
+
+  // store updates are chained, so that concurrent jobs don't overwrite each other's changes to the index
+  let writes = Promise.resolve();
+  function write(update: (store: KeyValueStore) => Promise<void>) {
+    if (store === undefined) return writes;
+    let store_ = store;
+    writes = writes.then(() => update(store_));
+    return writes;
+  }
+
+  async function loadPendingIds(store: KeyValueStore): Promise<string[]> {
+    return JSON.parse((await store.get(indexKey)) ?? '[]');
+  }
+  async function loadJob(id: string): Promise<StoredJob | undefined> {
+    let json = await store?.get(jobKey(id));
+    return json === undefined ? undefined : JSON.parse(json);
+  }
+
+  function start(entry: Entry) {
+    return write(async (store) => {
+      let ids = await loadPendingIds(store);
+      if (!ids.includes(entry.id)) ids.push(entry.id);
+      await store.set(jobKey(entry.id), JSON.stringify({ job: entry.job }));
+      await store.set(indexKey, JSON.stringify(ids));
+    });
+  }
+
+  function finish(id: string, stored?: StoredJob) {
+    return write(async (store) => {
+      let ids = await loadPendingIds(store);
+      await store.set(indexKey, JSON.stringify(ids.filter((i) => i !== id)));
+      if (stored === undefined) {
+        await store.delete(jobKey(id));
+        return;
+      }
+      await store.set(jobKey(id), JSON.stringify(stored));
+
+      // only the results of the most recent jobs are kept
+      let finished: string[] = JSON.parse(
+        (await store.get(finishedKey)) ?? '[]'
+      );
+      finished = [...finished.filter((i) => i !== id), id];
+      let pruned = finished.splice(
+        0,
+        Math.max(finished.length - keepResults, 0)
+      );
+      for (let old of pruned) await store.delete(jobKey(old));
+      await store.set(finishedKey, JSON.stringify(finished));
+    });
+  }
+
+  function enqueue<T>(
+    id: string,
+    job: SerializedJob,
+    decode: (result: JsonProof | string) => Promise<T>
+  ): ProverJob<T> {
+    if (isClosed) throw Error('ProverQueue: the queue was closed.');
+    let entry: Entry = {
+      id,
+      job,
+      complete: async () => {},
+      reject: () => {},
+    };
+    let result = new Promise<T>((resolve, reject) => {
+      entry.complete = (result) => decode(result).then(resolve, reject);
+      entry.reject = reject;
+    });
+
+    loading.set(id, entry);
+    (async () => {
+      // a job that already finished in an earlier run resolves with its stored result
+      let stored = await loadJob(id);
+      if (stored?.result !== undefined) {
+        loading.delete(id);
+        return entry.complete(stored.result);
+      }
+      // a job cancelled while loading must not be added to the store again
+      if (!loading.has(id)) return;
+      await start(entry);
+      if (!loading.delete(id)) return; // cancelled in the meantime
+      queue.push(entry);
+      emit({ type: 'queued', id, queueLength: queue.length });
+      schedule();
+    })().catch(entry.reject);
+
+    return { id, result, cancel: () => cancel(id) };
+  }
+
+  function cancel(id: string) {
+    let error = Error(`ProverQueue: job ${id} was cancelled.`);
+    let loadingEntry = loading.get(id);
+    if (loadingEntry !== undefined) {
+      loading.delete(id);
+      emit({ type: 'cancelled', id });
+      void finish(id);
+      loadingEntry.reject(error);
+      return;
+    }
+    let queued = queue.findIndex((entry) => entry.id === id);
+    if (queued !== -1) {
+      let [entry] = queue.splice(queued, 1);
+      emit({ type: 'cancelled', id });
+      void finish(id);
+      entry.reject(error);
+      return;
+    }
+    let slot = slots.find((slot) => slot.entry?.id === id);
+    if (slot === undefined) return;
+
+    // proving can't be interrupted, so the worker is replaced
+    let entry = slot.entry!;
+    slot.entry = undefined;
+    slot.isTerminated = true;
+    void terminate(slot);
+    slots[slot.index] = spawn(slot.index);
+    emit({ type: 'cancelled', id });
+    void finish(id);
+    entry.reject(error);
+    schedule();
+  }
+
+  function decodeProof<P extends Program>(
+    program: P
+  ): (json: JsonProof | string) => Promise<ProgramProof<P>> {
+    let ProgramProof = ZkProgram.Proof(program);
+    return async (json) => ProgramProof.fromJSON(json as JsonProof);
+  }
+  async function decodeTransaction(json: JsonProof | string) {
+    // the proofs are part of the transaction JSON, so proving only marks the transaction as proven
+    let transaction = Transaction.fromJSON(JSON.parse(json as string));
+    return transaction.prove();
+  }
+
+  return {
+    /**
+     * Adds a job which proves a method of a `ZkProgram`.
+     *
+     * The `args` are the public input, if the program has one, followed by the private inputs of the method.
+     * The program has to be one of the `programs` passed to `ProverWorker()` in the worker module.
+     */
+    prove<P extends Program>({
+      program,
+      method,
+      args,
+      id = randomUUID(),
+    }: {
+      program: P;
+      method: keyof P['privateInputTypes'] & string;
+      args: unknown[];
+      id?: string;
+    }): ProverJob<ProgramProof<P>> {
+      let job: SerializedJob = {
+        kind: 'program',
+        program: program.name,
+        method,
+        args: serializeArguments(program, method, args),
+      };
+      return enqueue(id, job, decodeProof(program));
+    },
+
+    /**
+     * Adds a job which creates and proves a transaction, with one of the `transactions` builders passed to
+     * `ProverWorker()` in the worker module.
+     *
+     * The `args` are passed to the builder and have to be JSON-serializable.
+     */
+    proveTransaction({
+      transaction,
+      args = [],
+      id = randomUUID(),
+    }: {
+      transaction: string;
+      args?: unknown[];
+      id?: string;
+    }): ProverJob<Transaction<true, false>> {
+      let job: SerializedJob = { kind: 'transaction', transaction, args };
+      return enqueue(id, job, decodeTransaction);
+    },
+
+    /**
+     * Cancels a job. A job which is already running is stopped by replacing the worker it runs on.
+     */
+    cancel,
+
+    /**
+     * Adds all jobs from the store which were not finished when the process stopped.
+     *
+     * @param programs The programs which the stored jobs prove, to decode their results.
+     */
+    async resume({ programs = [] }: { programs?: Program[] } = {}): Promise<
+      ProverJob<unknown>[]
+    > {
+      if (store === undefined) {
+        throw Error('ProverQueue: resuming jobs requires a `store`.');
+      }
+      await writes;
+      let ids = await loadPendingIds(store);
+      let jobs: ProverJob<unknown>[] = [];
+      for (let id of ids) {
+        if (
+          queue.some((e) => e.id === id) ||
+          slots.some((s) => s.entry?.id === id)
+        ) {
+          continue;
+        }
+        let stored = await loadJob(id);
+        if (stored === undefined) continue;
+        let { job } = stored;
+        if (job.kind === 'transaction') {
+          jobs.push(enqueue(id, job, decodeTransaction));
+          continue;
+        }
+        let name = job.program;
+        let program = programs.find((p) => p.name === name);
+        if (program === undefined) {
+          throw Error(
+            `ProverQueue: can't resume job ${id}, program "${name}" was not passed to \`resume()\`.`
+          );
+        }
+        jobs.push(enqueue(id, job, decodeProof(program)));
+      }
+      return jobs;
+    },
+
+    /**
+     * Number of jobs which are waiting for a worker.
+     */
+    get queueLength() {
+      return queue.length;
+    },
+
+    /**
+     * Subscribes to progress events of all jobs.
+     *
+     * `completed` events report the time it took to prove the job, in milliseconds.
+     *
+     * @returns A function which unsubscribes the listener.
+     */
+    on(listener: (event: ProverJobEvent) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    /**
+     * Terminates all workers. Jobs which haven't finished are rejected, but stay in the store so they can be resumed.
+     */
+    async close() {
+      isClosed = true;
+      let error = Error('ProverQueue: the queue was closed.');
+      let entries = [
+        ...queue,
+        ...slots.flatMap((s) => (s.entry === undefined ? [] : [s.entry])),
+      ];
+      queue = [];
+      slots.forEach((s) => (s.isTerminated = true));
+      await Promise.all(slots.map(terminate));
+      await writes;
+      entries.forEach((entry) => entry.reject(error));
+    },
+  };
+}
+
+// serialization of method arguments
+
+function hasPublicInput(program: Program) {
+  return (
+    program.publicInputType !== Undefined && program.publicInputType !== Void
+  );
+}
+
+function argumentTypes(program: Program, method: string): PrivateInput[] {
+  let privateInputTypes = program.privateInputTypes[method];
+  if (privateInputTypes === undefined) {
+    throw Error(
+      `ProverQueue: program "${program.name}" has no method "${method}".`
+    );
+  }
+  return hasPublicInput(program)
+    ? [program.publicInputType, ...privateInputTypes]
+    : [...privateInputTypes];
+}
+
+function serializeArguments(
+  program: Program,
+  method: string,
+  args: unknown[]
+): SerializedValue[] {
+  let types = argumentTypes(program, method);
+  if (args.length !== types.length) {
+    throw Error(
+      `ProverQueue: ${program.name}.${method}() expects ${types.length} arguments, got ${args.length}.`
+    );
+  }
+  return types.map((type, i): SerializedValue => {
+    if (isProofType(type)) {
+      return { proof: (args[i] as Proof<unknown, unknown>).toJSON() };
+    }
+    return {
+      fields: type.toFields(args[i]).map(String),
+      aux: type.toAuxiliary(args[i]),
+    };
+  });
+}
+
+async function deserializeArguments(
+  program: Program,
+  method: string,
+  args: SerializedValue[]
+): Promise<unknown[]> {
+  let types = argumentTypes(program, method);
+  return Promise.all(
+    types.map(async (type, i) => {
+      let arg = args[i];
+      if (isProofType(type)) {
+        if (!('proof' in arg)) {
+          throw Error(`ProverQueue: argument ${i} is not a serialized proof.`);
+        }
+        // recursive proofs of the program itself are declared with `SelfProof`.
+        // other proofs are subclasses of `Proof` or `DynamicProof`, which both decode with `fromJSON()`
+        let ProofType =
+          type === SelfProof
+            ? ZkProgram.Proof(program)
+            : (type as Subclass<typeof Proof>);
+        return ProofType.fromJSON(arg.proof);
+      }
+      if (!('fields' in arg)) {
+        throw Error(`ProverQueue: argument ${i} is not a serialized value.`);
+      }
+      return type.fromFields(arg.fields.map(Field), arg.aux);
+    })
+  );
+}
+
+function isProofType(type: PrivateInput): type is Subclass<typeof ProofBase> {
+  return isProof(type);
+}
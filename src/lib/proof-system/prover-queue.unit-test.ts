@@ -0,0 +1,312 @@
+import { Field, Bool } from '../provable/wrapped.js';
+import { Struct } from '../provable/types/struct.js';
+import { UInt64 } from '../provable/int.js';
+import { ZkProgram } from './zkprogram.js';
+import { Cache } from './cache.js';
+import {
+  ProverQueue,
+  ProverJobEvent,
+  serializeArguments,
+  deserializeArguments,
+} from './prover-queue.js';
+import * as Mina from '../mina/mina.js';
+import { AccountUpdate } from '../mina/account-update.js';
+import { expect } from 'expect';
+import { it } from 'node:test';
+import { writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+class Order extends Struct({ amount: UInt64, isBuy: Bool }) {}
+
+const Program = ZkProgram({
+  name: 'orders',
+  publicInput: Field,
+  methods: {
+    place: {
+      privateInputs: [Order, Field],
+      async method(_: Field, _order: Order, _nonce: Field) {},
+    },
+  },
+});
+
+const NoInputProgram = ZkProgram({
+  name: 'no-input',
+  methods: {
+    run: { privateInputs: [Field], async method(_: Field) {} },
+  },
+});
+
+it('serializes method arguments including the public input', async () => {
+  let order = new Order({ amount: UInt64.from(10), isBuy: Bool(true) });
+  let args = [Field(1), order, Field(2)];
+
+  let serialized = serializeArguments(Program, 'place', args);
+  // jobs are stored as JSON
+  serialized = JSON.parse(JSON.stringify(serialized));
+
+  let deserialized = await deserializeArguments(Program, 'place', serialized);
+  expect(deserialized).toEqual(args);
+});
+
+it('omits the public input if the program has none', async () => {
+  let serialized = serializeArguments(NoInputProgram, 'run', [Field(5)]);
+  expect(serialized).toHaveLength(1);
+  expect(await deserializeArguments(NoInputProgram, 'run', serialized)).toEqual(
+    [Field(5)]
+  );
+});
+
+it('rejects wrong arguments', () => {
+  expect(() => serializeArguments(Program, 'place', [Field(1)])).toThrow(
+    /expects 3 arguments/
+  );
+  expect(() => serializeArguments(Program, 'settle' as any, [])).toThrow(
+    /has no method "settle"/
+  );
+});
+
+// the queue is tested with fake workers, which answer transaction jobs with the transaction passed as first argument
+
+function fakeWorker(name: string, behaviour: string) {
+  let path = join(tmpdir(), `prover-queue-${name}-${process.pid}.mjs`);
+  writeFileSync(
+    path,
+    `process.on('message', async ({ id, job }) => {
+  let [result, delay = 0] = job.args;
+  ${behaviour}
+  await new Promise((resolve) => setTimeout(resolve, delay));
+  process.send({ id, result });
+});`
+  );
+  return path;
+}
+const worker = fakeWorker(
+  'worker',
+  `if (job.transaction === 'crash') process.exit(1);
+  if (job.transaction === 'hang') return;
+  if (job.transaction === 'fail') return process.send({ id, error: 'proving failed' });`
+);
+const fixedWorker = fakeWorker('fixed-worker', '');
+
+const Local = await Mina.LocalBlockchain({ proofsEnabled: false });
+Mina.setActiveInstance(Local);
+let [sender, receiver] = Local.testAccounts;
+let tx = await Mina.transaction(sender, async () => {
+  AccountUpdate.createSigned(sender).send({ to: receiver, amount: 1e9 });
+});
+let txJson = tx.toJSON();
+
+function recordEvents(queue: ProverQueue) {
+  let events: ProverJobEvent[] = [];
+  queue.on((event) => events.push(event));
+  return events;
+}
+
+it('runs jobs in the order they were added', async () => {
+  let queue = ProverQueue({ worker, workers: 1 });
+  let events = recordEvents(queue);
+
+  let jobs = ['a', 'b', 'c'].map((id) =>
+    queue.proveTransaction({ transaction: 'echo', args: [txJson, 10], id })
+  );
+  let results = await Promise.all(jobs.map((job) => job.result));
+  await queue.close();
+
+  expect(results.map((tx) => tx.toJSON())).toEqual([txJson, txJson, txJson]);
+  expect(events.filter((e) => e.type === 'started').map((e) => e.id)).toEqual([
+    'a',
+    'b',
+    'c',
+  ]);
+  expect(events.filter((e) => e.type === 'completed').map((e) => e.id)).toEqual(
+    ['a', 'b', 'c']
+  );
+});
+
+it('fails jobs when proving fails', async () => {
+  let queue = ProverQueue({ worker });
+  let job = queue.proveTransaction({ transaction: 'fail', args: [txJson] });
+  await expect(job.result).rejects.toThrow('proving failed');
+  await queue.close();
+});
+
+it('cancels queued and running jobs', async () => {
+  let queue = ProverQueue({ worker, workers: 1 });
+  let events = recordEvents(queue);
+
+  let running = queue.proveTransaction({ transaction: 'hang', args: [] });
+  let queued = queue.proveTransaction({ transaction: 'echo', args: [txJson] });
+  while (!events.some((e) => e.type === 'started')) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  expect(queue.queueLength).toEqual(1);
+
+  queued.cancel();
+  await expect(queued.result).rejects.toThrow(/was cancelled/);
+  expect(queue.queueLength).toEqual(0);
+
+  // the worker of the running job is replaced, and runs the next job
+  running.cancel();
+  await expect(running.result).rejects.toThrow(/was cancelled/);
+  let next = queue.proveTransaction({ transaction: 'echo', args: [txJson] });
+  expect((await next.result).toJSON()).toEqual(txJson);
+  await queue.close();
+
+  expect(events.filter((e) => e.type === 'cancelled').map((e) => e.id)).toEqual(
+    [queued.id, running.id]
+  );
+});
+
+it('replaces crashed workers and fails their job', async () => {
+  let queue = ProverQueue({ worker, workers: 1 });
+  let events = recordEvents(queue);
+
+  let crashed = queue.proveTransaction({ transaction: 'crash', args: [] });
+  let next = queue.proveTransaction({ transaction: 'echo', args: [txJson] });
+  await expect(crashed.result).rejects.toThrow(/exited with code 1/);
+  expect((await next.result).toJSON()).toEqual(txJson);
+  await queue.close();
+
+  expect(events).toContainEqual(
+    expect.objectContaining({ type: 'failed', id: crashed.id })
+  );
+});
+
+it('resumes unfinished jobs from the store', async () => {
+  let store = Mina.InMemoryStore();
+  let queue = ProverQueue({ worker, store });
+  let events = recordEvents(queue);
+
+  let done = queue.proveTransaction({
+    transaction: 'echo',
+    args: [txJson],
+    id: 'done',
+  });
+  await done.result;
+  let unfinished = queue.proveTransaction({
+    transaction: 'hang',
+    args: [txJson],
+    id: 'unfinished',
+  });
+  while (!events.some((e) => e.type === 'started' && e.id === 'unfinished')) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  await queue.close();
+  await expect(unfinished.result).rejects.toThrow(/was closed/);
+
+  // after a restart, the unfinished job runs again
+  queue = ProverQueue({ worker: fixedWorker, store });
+  let resumed = await queue.resume();
+  expect(resumed.map((job) => job.id)).toEqual(['unfinished']);
+  let [result] = await Promise.all(resumed.map((job) => job.result));
+  expect((result as Mina.Transaction<true, false>).toJSON()).toEqual(txJson);
+
+  // finished jobs resolve with their stored result, without running again
+  let again = queue.proveTransaction({
+    transaction: 'crash',
+    args: [],
+    id: 'done',
+  });
+  expect((await again.result).toJSON()).toEqual(txJson);
+  expect(await queue.resume()).toEqual([]);
+  await queue.close();
+});
+
+it('does not resume a job which was cancelled while it was loaded from the store', async () => {
+  let store = Mina.InMemoryStore();
+  let release = () => {};
+  let isReleased = new Promise<void>((resolve) => (release = resolve));
+  let queue = ProverQueue({
+    worker,
+    store: {
+      ...store,
+      async get(key) {
+        await isReleased;
+        return store.get(key);
+      },
+    },
+  });
+
+  let job = queue.proveTransaction({ transaction: 'echo', args: [txJson] });
+  job.cancel();
+  await expect(job.result).rejects.toThrow(/was cancelled/);
+  release();
+  await new Promise((resolve) => setTimeout(resolve, 10));
+
+  expect(await queue.resume()).toEqual([]);
+  await queue.close();
+});
+
+it('keeps the results of the most recent jobs', async () => {
+  let store = Mina.InMemoryStore();
+  let queue = ProverQueue({ worker, store, keepResults: 1 });
+  for (let id of ['first', 'second']) {
+    await queue.proveTransaction({ transaction: 'echo', args: [txJson], id })
+      .result;
+  }
+  await queue.close();
+
+  expect(await store.get('prover-queue:job:first')).toBeUndefined();
+  expect(await store.get('prover-queue:job:second')).toBeDefined();
+});
+
+// a worker module with the real `ProverWorker`, and the program it proves, which is also imported here
+
+function proverWorker() {
+  let url = (module: string) => new URL(module, import.meta.url).href;
+  let program = join(tmpdir(), `prover-queue-program-${process.pid}.mjs`);
+  writeFileSync(
+    program,
+    `import { Field } from '${url('../provable/wrapped.js')}';
+import { ZkProgram } from '${url('./zkprogram.js')}';
+
+export const SquareRoot = ZkProgram({
+  name: 'square-root',
+  publicInput: Field,
+  methods: {
+    run: {
+      privateInputs: [Field],
+      async method(x, root) {
+        root.mul(root).assertEquals(x);
+      },
+    },
+  },
+});`
+  );
+  let worker = join(tmpdir(), `prover-queue-prover-worker-${process.pid}.mjs`);
+  writeFileSync(
+    worker,
+    `import { ProverWorker } from '${url('./prover-worker.js')}';
+import { SquareRoot } from '${pathToFileURL(program).href}';
+
+ProverWorker({ programs: [SquareRoot] });`
+  );
+  return { program, worker };
+}
+
+it('proves program methods with `ProverWorker`', async () => {
+  let { program, worker } = proverWorker();
+  let { SquareRoot } = await import(pathToFileURL(program).href);
+  let queue = ProverQueue({ worker });
+
+  let job = queue.prove({
+    program: SquareRoot,
+    method: 'run',
+    args: [Field(9), Field(3)],
+  });
+  let failing = queue.prove({
+    program: SquareRoot,
+    method: 'run',
+    args: [Field(9), Field(2)],
+  });
+  let proof = await job.result;
+  await expect(failing.result).rejects.toThrow(/Constraint unsatisfied/);
+  await queue.close();
+
+  expect(proof.publicInput).toEqual(Field(9));
+  // verifying right after reading the keys from the cache directory, which the worker filled, hangs in the bindings
+  await SquareRoot.compile({ cache: Cache.None });
+  expect(await SquareRoot.verify(proof)).toEqual(true);
+});
@@ -0,0 +1,5 @@
+export { ProverQueue };
+
+function ProverQueue(..._: any[]): never {
+  throw Error('ProverQueue: Not available in the browser.');
+}
@@ -0,0 +1,92 @@
+/**
+ * The worker process side of `ProverQueue`, which proves the jobs it receives from the queue.
+ */
+import type { Transaction } from '../mina/transaction.js';
+import type { Proof } from './zkprogram.js';
+import {
+  Program,
+  SerializedJob,
+  WorkerMessage,
+  deserializeArguments,
+} from './prover-queue.js';
+
+export { ProverWorker };
+
+/**
+ * Handles the jobs of a {@link ProverQueue}. Has to be called in the worker module which is passed to `ProverQueue()`.
+ *
+ * Programs are compiled before their first job, and stay compiled for the lifetime of the worker.
+ *
+ * Transaction jobs call the builder with the name of the job, prove the returned transaction and send it back unsigned.
+ * Builders have to compile the contracts they call themselves.
+ *
+ * ```ts
+ * ProverWorker({
+ *   programs: [MyProgram],
+ *   transactions: {
+ *     async increment(sender: string) {
+ *       await MyContract.compile();
+ *       return Mina.transaction(PublicKey.fromBase58(sender), () => contract.increment());
+ *     },
+ *   },
+ * });
+ * ```
+ */
+function ProverWorker({
+  programs = [],
+  transactions = {},
+}: {
+  programs?: Program[];
+  transactions?: Record<
+    string,
+    (...args: any[]) => Promise<Transaction<false, boolean>>
+  >;
+}) {
+  let send = process.send?.bind(process);
+  if (send === undefined) {
+    throw Error(
+      'ProverWorker: must be run in a worker process created by `ProverQueue()`.'
+    );
+  }
+  let compiled = new Map<string, Promise<unknown>>();
+
+  async function run(job: SerializedJob) {
+    if (job.kind === 'transaction') {
+      let build = transactions[job.transaction];
+      if (build === undefined) {
+        throw Error(`ProverWorker: unknown transaction "${job.transaction}".`);
+      }
+      let tx = await build(...job.args);
+      await tx.prove();
+      return tx.toJSON();
+    }
+    let program = programs.find((p) => p.name === job.program);
+    if (program === undefined) {
+      throw Error(`ProverWorker: unknown program "${job.program}".`);
+    }
+    if (!compiled.has(program.name)) {
+      compiled.set(program.name, program.compile());
+    }
+    await compiled.get(program.name);
+
+    let args = await deserializeArguments(program, job.method, job.args);
+    let prove: (...args: unknown[]) => Promise<Proof<any, any>> = (
+      program as any
+    )[job.method];
+    let proof = await prove(...args);
+    return proof.toJSON();
+  }
+
+  process.on(
+    'message',
+    async ({ id, job }: { id: string; job: SerializedJob }) => {
+      let message: WorkerMessage;
+      try {
+        message = { id, result: await run(job) };
+      } catch (error: any) {
+        message = { id, error: error?.message ?? String(error) };
+      }
+      send!(message);
+    }
+  );
+}
@@ -0,0 +1,5 @@
+export { ProverWorker };
+
+function ProverWorker(..._: any[]): never {
+  throw Error('ProverWorker: Not available in the browser.');
+}
@@ -0,0 +1,231 @@
+/**
+ * A Merkle-committed set of verification keys, which restricts the keys that a `DynamicProof` can be verified against.
+ */
+import { Field } from '../provable/wrapped.js';
+import { Struct } from '../provable/types/struct.js';
+import type { Provable } from '../provable/types/provable-intf.js';
+import { Poseidon } from '../provable/crypto/poseidon.js';
+import {
+  BaseMerkleWitness,
+  MerkleTree,
+  MerkleWitness,
+} from '../provable/merkle-tree.js';
+import { DynamicProof, FeatureFlags, VerificationKey } from './zkprogram.js';
+
+export { VerificationKeyRegistry, VerificationKeyRegistryBase };
+
+// internal API
+export { encodeFeatureFlags };
+
+/**
+ * Creates a registry of verification keys, committed to by the root of a Merkle tree of the given height.
+ * The registry can hold up to `2^(height - 1)` keys.
+ *
+ * Each key is registered together with the feature flags of the proofs it verifies, so that a circuit only accepts keys
+ * which fit the shape of its `DynamicProof` class.
+ *
+ * ```ts
+ * class Registry extends VerificationKeyRegistry(8) {}
+ *
+ * // off-chain: register allowed keys and publish the root, for example in an app state field
+ * let registry = new Registry();
+ * registry.add(verificationKey, SideloadedProof.featureFlags);
+ * let root = registry.root;
+ *
+ * // the membership witness is created off-chain and passed to the circuit, as an argument of type `Registry.Membership`
+ * let membership = registry.membership(verificationKey);
+ *
+ * // in a circuit: accept proofs only against registered keys
+ * Registry.verify(root, proof, verificationKey, membership);
+ * ```
+ */
+function VerificationKeyRegistry(
+  height: number
+): typeof VerificationKeyRegistryBase {
+  class Witness extends MerkleWitness(height) {}
+
+  return class VerificationKeyRegistry extends VerificationKeyRegistryBase {
+    get height() {
+      return height;
+    }
+
+    static Witness = Witness;
+    static Membership = Struct({ path: Witness, featureFlags: Field });
+  };
+}
+
+/**
+ * A witness that a verification key is part of a registry, and the feature flags it was registered with.
+ */
+type Membership = { path: BaseMerkleWitness; featureFlags: Field };
+
+class VerificationKeyRegistryBase {
+  // static data defining constraints
+  get height(): number {
+    throw Error('Height must be defined in a subclass');
+  }
+
+  static Witness: typeof BaseMerkleWitness = undefined as any;
+  /**
+   * The provable type of membership witnesses, to use as a method argument.
+   */
+  static Membership: Provable<Membership> = undefined as any;
+
+  // off-chain state
+  tree: MerkleTree;
+  entries = new Map<
+    bigint,
+    {
+      index: bigint;
+      featureFlags: FeatureFlags;
+      verificationKey: VerificationKey;
+    }
+  >();
+  freeIndices: bigint[] = [];
+  nextIndex = 0n;
+
+  constructor() {
+    this.tree = new MerkleTree(this.height);
+  }
+
+  /**
+   * The Merkle root which commits to all registered keys.
+   */
+  get root(): Field {
+    return this.tree.getRoot();
+  }
+
+  /**
+   * Registers a verification key, together with the feature flags of the proofs it verifies.
+   * If the key is already registered, its feature flags are replaced.
+   *
+   * @returns The index of the key in the Merkle tree.
+   */
+  add(
+    verificationKey: VerificationKey,
+    featureFlags: FeatureFlags = FeatureFlags.allNone
+  ): bigint {
+    let hash = verificationKey.hash.toBigInt();
+    let index = this.entries.get(hash)?.index;
+    if (index === undefined) {
+      index = this.freeIndices.pop();
+    }
+    if (index === undefined) {
+      if (this.nextIndex >= this.tree.leafCount) {
+        throw Error(
+          `VerificationKeyRegistry: the registry is full, it can hold at most ${this.tree.leafCount} keys.`
+        );
+      }
+      index = this.nextIndex++;
+    }
+    this.entries.set(hash, { index, featureFlags, verificationKey });
+    this.tree.setLeaf(index, leaf(verificationKey.hash, featureFlags));
+    return index;
+  }
+
+  /**
+   * Removes a verification key, so that proofs against it are no longer accepted under the new root.
+   *
+   * @returns Whether the key was registered.
+   */
+  remove(verificationKey: VerificationKey): boolean {
+    let hash = verificationKey.hash.toBigInt();
+    let entry = this.entries.get(hash);
+    if (entry === undefined) return false;
+    this.entries.delete(hash);
+    this.tree.setLeaf(entry.index, Field(0));
+    this.freeIndices.push(entry.index);
+    return true;
+  }
+
+  has(verificationKey: VerificationKey): boolean {
+    return this.entries.has(verificationKey.hash.toBigInt());
+  }
+
+  /**
+   * Returns all registered keys, ordered by their index.
+   */
+  list() {
+    return [...this.entries.values()].sort((a, b) =>
+      a.index < b.index ? -1 : a.index > b.index ? 1 : 0
+    );
+  }
+
+  /**
+   * Creates the witness that a registered key is part of the registry, against the current root.
+   */
+  membership(verificationKey: VerificationKey): Membership {
+    let entry = this.entries.get(verificationKey.hash.toBigInt());
+    if (entry === undefined) {
+      throw Error(
+        `VerificationKeyRegistry: the verification key with hash ${verificationKey.hash} is not registered.`
+      );
+    }
+    let { Witness } = this.constructor as typeof VerificationKeyRegistryBase;
+    return {
+      path: new Witness(this.tree.getWitness(entry.index)),
+      featureFlags: Field(encodeFeatureFlags(entry.featureFlags)),
+    };
+  }
+
+  /**
+   * Proves that a verification key is part of the registry with the given root.
+   */
+  static assertIncluded(
+    root: Field,
+    verificationKey: VerificationKey,
+    { path, featureFlags }: Membership,
+    message = 'VerificationKeyRegistry: the verification key is not registered.'
+  ) {
+    let leafHash = Poseidon.hash([verificationKey.hash, featureFlags]);
+    path.calculateRoot(leafHash).assertEquals(root, message);
+  }
+
+  /**
+   * Verifies a `DynamicProof` against a verification key, after proving that the key is part of the registry
+   * and was registered with the feature flags of the proof class.
+   */
+  static verify(
+    root: Field,
+    proof: DynamicProof<any, any>,
+    verificationKey: VerificationKey,
+    membership: Membership
+  ) {
+    let { featureFlags } = proof.constructor as typeof DynamicProof;
+    membership.featureFlags.assertEquals(
+      encodeFeatureFlags(featureFlags),
+      'VerificationKeyRegistry: the verification key is registered with other feature flags than the proof expects.'
+    );
+    this.assertIncluded(root, verificationKey, membership);
+    proof.verify(verificationKey);
+  }
+}
+
+// helpers
+
+const featureFlagNames: (keyof FeatureFlags)[] = [
+  'rangeCheck0',
+  'rangeCheck1',
+  'foreignFieldAdd',
+  'foreignFieldMul',
+  'xor',
+  'rot',
+  'lookup',
+  'runtimeTables',
+];
+
+/**
+ * Encodes feature flags with two bits per flag: 0 if a gate isn't used, 1 if it is used and 2 if it may be used.
+ */
+function encodeFeatureFlags(flags: FeatureFlags): bigint {
+  let encoded = 0n;
+  featureFlagNames.forEach((name, i) => {
+    let value = flags[name] === undefined ? 2n : flags[name] ? 1n : 0n;
+    encoded |= value << BigInt(2 * i);
+  });
+  return encoded;
+}
+
+function leaf(hash: Field, featureFlags: FeatureFlags) {
+  return Poseidon.hash([hash, Field(encodeFeatureFlags(featureFlags))]);
+}
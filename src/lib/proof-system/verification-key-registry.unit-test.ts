@@ -0,0 +1,98 @@
+import { Field } from '../provable/wrapped.js';
+import { Provable } from '../provable/provable.js';
+import { DynamicProof, FeatureFlags, VerificationKey } from './zkprogram.js';
+import {
+  VerificationKeyRegistry,
+  encodeFeatureFlags,
+} from './verification-key-registry.js';
+import { expect } from 'expect';
+import { it } from 'node:test';
+
+class Registry extends VerificationKeyRegistry(4) {}
+
+class SideloadedProof extends DynamicProof<Field, Field> {
+  static publicInputType = Field;
+  static publicOutputType = Field;
+  static maxProofsVerified = 0 as const;
+  static featureFlags = FeatureFlags.allMaybe;
+}
+
+function vk(hash: number) {
+  return new VerificationKey({ data: '', hash: Field(hash) });
+}
+
+it('encodes feature flags with two bits each', () => {
+  expect(encodeFeatureFlags(FeatureFlags.allNone)).toEqual(0n);
+  expect(encodeFeatureFlags(FeatureFlags.allMaybe)).toEqual(0xaaaan);
+  expect(
+    encodeFeatureFlags({ ...FeatureFlags.allNone, foreignFieldAdd: true })
+  ).toEqual(1n << 4n);
+});
+
+it('manages keys off-chain', () => {
+  let registry = new Registry();
+  let emptyRoot = registry.root;
+
+  expect(registry.add(vk(1))).toEqual(0n);
+  expect(registry.add(vk(2), FeatureFlags.allMaybe)).toEqual(1n);
+  expect(registry.has(vk(1))).toEqual(true);
+  expect(registry.list().map((e) => e.index)).toEqual([0n, 1n]);
+
+  // re-adding a key keeps its index
+  expect(registry.add(vk(1), FeatureFlags.allMaybe)).toEqual(0n);
+
+  expect(registry.remove(vk(1))).toEqual(true);
+  expect(registry.remove(vk(1))).toEqual(false);
+  expect(() => registry.membership(vk(1))).toThrow(/not registered/);
+
+  // freed indices are reused
+  expect(registry.add(vk(3))).toEqual(0n);
+  registry.remove(vk(2));
+  registry.remove(vk(3));
+  expect(registry.root).toEqual(emptyRoot);
+
+  // a tree of height 4 holds 8 keys
+  for (let i = 0; i < 8; i++) registry.add(vk(10 + i));
+  expect(() => registry.add(vk(20))).toThrow(/registry is full/);
+});
+
+it('proves membership of registered keys', async () => {
+  let registry = new Registry();
+  registry.add(vk(1), FeatureFlags.allMaybe);
+  registry.add(vk(2));
+  let root = registry.root;
+  let membership = registry.membership(vk(1));
+
+  await Provable.runAndCheck(() => {
+    let m = Provable.witness(Registry.Membership, () => membership);
+    let key = Provable.witness(VerificationKey, () => vk(1));
+    Registry.assertIncluded(
+      Provable.witness(Field, () => root),
+      key,
+      m
+    );
+  });
+
+  // the witness doesn't fit another key
+  await expect(
+    Provable.runAndCheck(() => {
+      let m = Provable.witness(Registry.Membership, () => membership);
+      let key = Provable.witness(VerificationKey, () => vk(2));
+      Registry.assertIncluded(
+        Provable.witness(Field, () => root),
+        key,
+        m
+      );
+    })
+  ).rejects.toThrow(/not registered/);
+
+  // the key is registered for other feature flags than the proof class
+  let proof = await SideloadedProof.dummy(Field(0), Field(0), 0);
+  let otherMembership = registry.membership(vk(2));
+  await expect(
+    Provable.runAndCheck(() => {
+      let m = Provable.witness(Registry.Membership, () => otherMembership);
+      Registry.verify(root, proof, vk(2), m);
+    })
+  ).rejects.toThrow(/other feature flags/);
+});
@@ -0,0 +1,69 @@
+/**
+ * Verification of serialized proofs, which only depends on the bindings and not on the rest of o1js.
+ *
+ * This module must not import `zkprogram.ts`, `mina/` or anything else that pulls in compilation, prover keys or the
+ * transaction layer.
+ */
+import { Pickles, initializeBindings, withThreadPool } from '../../snarky.js';
+import { FieldConst } from '../provable/core/fieldvar.js';
+import { MlArray, MlPair } from '../ml/base.js';
+import { prettifyStacktracePromise } from '../util/errors.js';
+import type { JsonProof } from './zkprogram.js';
+
+export { verify, verifyBatch };
+
+/**
+ * Verifies a proof serialized with `proof.toJSON()`, against a verification key serialized as a string,
+ * like `verificationKey.data` returned by `compile()`.
+ *
+ * ```ts
+ * import { verify } from 'o1js/verifier';
+ *
+ * let ok = await verify(jsonProof, verificationKey);
+ * ```
+ */
+async function verify(proof: JsonProof, verificationKey: string) {
+  await initializeBindings();
+  return prettifyStacktracePromise(
+    withThreadPool(() => verifyOne(proof, verificationKey))
+  );
+}
+
+/**
+ * Verifies many proofs against the same verification key.
+ *
+ * This is faster than calling {@link verify} for every proof, because the worker threads which are used for
+ * verification are only started once.
+ * Proofs which can't be deserialized count as invalid, and don't stop the verification of the other proofs.
+ *
+ * @returns Whether each of the proofs is valid, in the same order as `proofs`.
+ */
+async function verifyBatch(
+  proofs: JsonProof[],
+  verificationKey: string
+): Promise<boolean[]> {
+  await initializeBindings();
+  return withThreadPool(async () => {
+    let results: boolean[] = [];
+    for (let proof of proofs) {
+      results.push(await verifyOne(proof, verificationKey).catch(() => false));
+    }
+    return results;
+  });
+}
+
+async function verifyOne(
+  { publicInput, publicOutput, maxProofsVerified, proof }: JsonProof,
+  verificationKey: string
+) {
+  let [, picklesProof] = Pickles.proofOfBase64(proof, maxProofsVerified);
+  let statement = MlPair(
+    toFieldConsts(publicInput),
+    toFieldConsts(publicOutput)
+  );
+  return Pickles.verify(statement, picklesProof, verificationKey);
+}
+
+function toFieldConsts(fields: string[]) {
+  return MlArray.to(fields.map((x) => FieldConst.fromBigint(BigInt(x))));
+}
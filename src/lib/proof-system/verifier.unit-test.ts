@@ -0,0 +1,43 @@
+import { Field } from '../provable/wrapped.js';
+import { ZkProgram } from './zkprogram.js';
+import { verify, verifyBatch } from './verifier.js';
+import { expect } from 'expect';
+import { it } from 'node:test';
+
+const Squares = ZkProgram({
+  name: 'squares',
+  publicInput: Field,
+  publicOutput: Field,
+  methods: {
+    square: {
+      privateInputs: [],
+      async method(x: Field) {
+        return x.mul(x);
+      },
+    },
+  },
+});
+
+let { verificationKey } = await Squares.compile();
+let proof = (await Squares.square(Field(3))).toJSON();
+let otherProof = (await Squares.square(Field(4))).toJSON();
+
+it('verifies a json proof', async () => {
+  expect(await verify(proof, verificationKey.data)).toEqual(true);
+  expect(
+    await verify({ ...proof, publicOutput: ['10'] }, verificationKey.data)
+  ).toEqual(false);
+});
+
+it('verifies a batch of proofs against the same key', async () => {
+  let results = await verifyBatch(
+    [
+      proof,
+      { ...proof, publicInput: ['4'] },
+      otherProof,
+      { ...proof, proof: 'not a proof' },
+    ],
+    verificationKey.data
+  );
+  expect(results).toEqual([true, false, true, false]);
+});
@@ -25,6 +25,19 @@ import {
 import { MlFieldArray, MlFieldConstArray } from '../ml/fields.js';
 import { FieldVar, FieldConst } from '../provable/core/fieldvar.js';
 import { Cache, readCache, writeCache } from './cache.js';
+import {
+  ProofEnvelope,
+  fromEnvelope,
+  proofMethods,
+  toEnvelope,
+} from './proof-envelope.js';
+import {
+  ProveRecording,
+  attachRecording,
+  createRecording,
+  fromRecording,
+} from './prove-recording.js';
+import { WitnessTape } from '../provable/core/witness-tape.js';
 import {
   decodeProverKey,
   encodeProverKey,
@@ -45,6 +58,7 @@ export {
   DynamicProof,
   SelfProof,
   JsonProof,
+  ProofEnvelope,
   ZkProgram,
   verify,
   Empty,
@@ -57,6 +71,7 @@ export {
 // internal API
 export {
   CompiledTag,
+  InferProvableOrVoid,
   sortMethodArguments,
   getPreviousProofsForProver,
   MethodInterface,
@@ -71,6 +86,11 @@ export {
   isAsFields,
   Prover,
   dummyBase64Proof,
+  isProof,
+  Tuple,
+  TupleToInstances,
+  PrivateInput,
+  Subclass,
 };
 
 type Undefined = undefined;
@@ -239,6 +259,52 @@ class Proof<Input, Output> extends ProofBase<Input, Output> {
     this.shouldVerify = condition;
   }
 
+  /**
+   * Serializes the proof together with metadata that identifies the program and verification key it belongs to,
+   * see {@link ProofEnvelope}.
+   *
+   * ```ts
+   * let { verificationKey } = await MyProgram.compile();
+   * let proof = await MyProgram.baseCase(Field(0));
+   * let envelope = await proof.toEnvelope(MyProgram, { verificationKey });
+   * ```
+   *
+   * The method which created the proof is included if the proof was created by the program or restored from an envelope,
+   * otherwise it can be passed as `method`.
+   */
+  toEnvelope(
+    program: Parameters<typeof toEnvelope>[1],
+    options: { verificationKey: VerificationKey; method?: string }
+  ): Promise<ProofEnvelope> {
+    return toEnvelope(this, program, options);
+  }
+
+  /**
+   * Restores a proof from a {@link ProofEnvelope}, and checks that it belongs to the given program.
+   *
+   * Throws if the program name or digest, the method, or the types of the public input and output don't match.
+   * If a `verificationKey` is passed, its hash has to match as well.
+   *
+   * ```ts
+   * let proof = await MyProof.fromEnvelope(MyProgram, envelope, { verificationKey });
+   * ```
+   */
+  static async fromEnvelope<S extends Subclass<typeof Proof>>(
+    this: S,
+    program: Parameters<typeof fromEnvelope>[1],
+    envelope: ProofEnvelope,
+    options?: { verificationKey?: VerificationKey }
+  ): Promise<
+    Proof<
+      InferProvable<S['publicInputType']>,
+      InferProvable<S['publicOutputType']>
+    >
+  > {
+    // the base class has no types, so the proof class of the program is used
+    let ProofClass = (this as any) === Proof ? ZkProgram.Proof(program) : this;
+    return fromEnvelope(ProofClass, program, envelope, options);
+  }
+
   static async fromJSON<S extends Subclass<typeof Proof>>(
     this: S,
     {
@@ -531,6 +597,15 @@ function ZkProgram<
       >;
     };
     overrideWrapDomain?: 0 | 1 | 2;
+    /**
+     * If set, the values witnessed by a prover are recorded, and proving is retried up to `proveRetries` times
+     * when it fails after all witnesses were computed, for example because it ran out of memory.
+     * Retries replay the recorded witnesses instead of running the witness callbacks again.
+     *
+     * When a prover fails, the recording is attached to the error and can be read with `ProveRecording.fromError()`,
+     * to reproduce the failure with `program.replay()`. Set `proveRetries: 0` to record without retrying.
+     */
+    proveRetries?: number;
   }
 ): {
   name: string;
@@ -547,6 +622,14 @@ function ZkProgram<
   analyzeMethods: () => Promise<{
     [I in keyof Types]: UnwrapPromise<ReturnType<typeof analyzeMethod>>;
   }>;
+  replay: (
+    recording: ProveRecording
+  ) => Promise<
+    Proof<
+      InferProvableOrUndefined<Get<StatementType, 'publicInput'>>,
+      InferProvableOrVoid<Get<StatementType, 'publicOutput'>>
+    >
+  >;
   publicInputType: ProvableOrUndefined<Get<StatementType, 'publicInput'>>;
   publicOutputType: ProvableOrVoid<Get<StatementType, 'publicOutput'>>;
   privateInputTypes: {
@@ -643,6 +726,76 @@ function ZkProgram<
     return { verificationKey };
   }
 
+  async function runProver(
+    i: number,
+    publicInput: PublicInput,
+    args: unknown[],
+    tape: WitnessTape | undefined,
+    retries: number
+  ): Promise<Proof<PublicInput, PublicOutput>> {
+    let key = methodKeys[i];
+    let picklesProver = compileOutput?.provers?.[i];
+    if (picklesProver === undefined) {
+      throw Error(
+        `Cannot prove execution of program.${key}(), no prover found. ` +
+          `Try calling \`await program.compile()\` first, this will cache provers in the background.`
+      );
+    }
+    let publicInputFields = toFieldConsts(publicInputType, publicInput);
+    let previousProofs = MlArray.to(
+      getPreviousProofsForProver(args, methodIntfs[i])
+    );
+
+    let result!: UnwrapPromise<ReturnType<typeof picklesProver>>;
+    for (let attempt = 0; ; attempt++) {
+      let id = snarkContext.enter({
+        witnesses: args,
+        inProver: true,
+        witnessTape: tape,
+      });
+      try {
+        result = await picklesProver(publicInputFields, previousProofs);
+        break;
+      } catch (error) {
+        if (tape === undefined) throw error;
+        // if witness generation finished, only proving failed, and is retried without recomputing witnesses
+        if (attempt < retries && tape.complete) {
+          tape = WitnessTape.replay(tape.entries);
+          continue;
+        }
+        let failedTape = tape;
+        attachRecording(error, () =>
+          createRecording(
+            config.name,
+            publicInputType,
+            methodIntfs[i],
+            publicInput,
+            args,
+            failedTape
+          )
+        );
+        throw error;
+      } finally {
+        snarkContext.leave(id);
+      }
+    }
+    let [publicOutputFields, proof] = MlPair.from(result);
+    let publicOutput = fromFieldConsts(publicOutputType, publicOutputFields);
+    class ProgramProof extends Proof<PublicInput, PublicOutput> {
+      static publicInputType = publicInputType;
+      static publicOutputType = publicOutputType;
+      static tag = () => selfTag;
+    }
+    let programProof = new ProgramProof({
+      publicInput,
+      publicOutput,
+      proof,
+      maxProofsVerified,
+    });
+    proofMethods.set(programProof, key);
+    return programProof;
+  }
+
   function toProver<K extends keyof Types & string>(
     key: K,
     i: number
@@ -651,38 +804,9 @@ function ZkProgram<
       publicInput: PublicInput,
       ...args: TupleToInstances<Types[typeof key]>
     ): Promise<Proof<PublicInput, PublicOutput>> {
-      let picklesProver = compileOutput?.provers?.[i];
-      if (picklesProver === undefined) {
-        throw Error(
-          `Cannot prove execution of program.${key}(), no prover found. ` +
-            `Try calling \`await program.compile()\` first, this will cache provers in the background.`
-        );
-      }
-      let publicInputFields = toFieldConsts(publicInputType, publicInput);
-      let previousProofs = MlArray.to(
-        getPreviousProofsForProver(args, methodIntfs[i])
-      );
-
-      let id = snarkContext.enter({ witnesses: args, inProver: true });
-      let result: UnwrapPromise<ReturnType<typeof picklesProver>>;
-      try {
-        result = await picklesProver(publicInputFields, previousProofs);
-      } finally {
-        snarkContext.leave(id);
-      }
-      let [publicOutputFields, proof] = MlPair.from(result);
-      let publicOutput = fromFieldConsts(publicOutputType, publicOutputFields);
-      class ProgramProof extends Proof<PublicInput, PublicOutput> {
-        static publicInputType = publicInputType;
-        static publicOutputType = publicOutputType;
-        static tag = () => selfTag;
-      }
-      return new ProgramProof({
-        publicInput,
-        publicOutput,
-        proof,
-        maxProofsVerified,
-      });
+      let { proveRetries } = config;
+      let tape = proveRetries === undefined ? undefined : WitnessTape.record();
+      return runProver(i, publicInput, args, tape, proveRetries ?? 0);
     }
     let prove: Prover<PublicInput, PublicOutput, Types[K]>;
     if (
@@ -713,6 +837,21 @@ function ZkProgram<
     return compileOutput.verify(statement, proof.proof);
   }
 
+  async function replay(recording: ProveRecording) {
+    let i = methodKeys.indexOf(recording.method as keyof Types & string);
+    if (recording.program !== config.name || i === -1) {
+      throw Error(
+        `${config.name}.replay(): the recording belongs to ${recording.program}.${recording.method}().`
+      );
+    }
+    let { publicInput, args, tape } = await fromRecording(
+      publicInputType,
+      methodIntfs[i],
+      recording
+    );
+    return runProver(i, publicInput, args, tape, 0);
+  }
+
   async function digest() {
     let methodsMeta = await analyzeMethods();
     let digests: Field[] = methodKeys.map((k) =>
@@ -728,6 +867,7 @@ function ZkProgram<
       verify,
       digest,
       analyzeMethods,
+      replay,
       publicInputType: publicInputType as ProvableOrUndefined<
         Get<StatementType, 'publicInput'>
       >,
@@ -1110,6 +1250,10 @@ function picklesRuleFromFunction(
       Pickles.sideLoaded.inCircuit(computedTag, circuitVk);
     });
 
+    // all witnesses were computed, so a recording of them is complete
+    let tape = snarkContext.get().witnessTape;
+    if (tape !== undefined) tape.complete = true;
+
     // if the public output is empty, we don't evaluate `toFields(result)` to allow the function to return something else in that case
     let hasPublicOutput = publicOutputType.sizeInFields() !== 0;
     let publicOutput = hasPublicOutput ? publicOutputType.toFields(result) : [];
@@ -1459,7 +1603,7 @@ type ProvableOrVoid<A> = A extends undefined ? typeof Void : A;
 type InferProvableOrUndefined<A> = A extends undefined
   ? undefined
   : InferProvable<A>;
-type InferProvableOrVoid<A> = A extends undefined ? void : InferProvable<A>;
+type InferProvableOrVoid<A> = InferProvable<ProvableOrVoid<A>>;
 
 type UnwrapPromise<P> = P extends Promise<infer T> ? T : never;
 
@@ -4,6 +4,7 @@ import type { VarField } from '../field.js';
 import { MlArray, MlOption } from '../../ml/base.js';
 import { createField } from './field-constructor.js';
 import { TupleN } from '../../util/types.js';
+import { tapeValues, tapeValuesAsync } from './witness-tape.js';
 
 export { createVarField, exists, existsAsync, existsOne };
 
@@ -26,8 +27,8 @@ function exists<N extends number, C extends () => TupleN<bigint, N>>(
     return TupleN.fromArray(size, vars);
   }
 
-  // run the callback to get values to witness
-  let values = compute();
+  // run the callback to get values to witness, unless they are replayed
+  let values = tapeValues(size, compute);
   if (values.length !== size)
     throw Error(
       `Expected witnessed values of length ${size}, got ${values.length}.`
@@ -66,8 +67,8 @@ async function existsAsync<
     return TupleN.fromArray(size, vars);
   }
 
-  // run the async callback to get values to witness
-  let values = await compute();
+  // run the async callback to get values to witness, unless they are replayed
+  let values = await tapeValuesAsync(size, compute);
   if (values.length !== size)
     throw Error(
       `Expected witnessed values of length ${size}, got ${values.length}.`
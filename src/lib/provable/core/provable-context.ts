@@ -10,6 +10,7 @@ import { parseHexString32 } from '../../../bindings/crypto/bigint-helpers.js';
 import { prettifyStacktrace } from '../../util/errors.js';
 import { Fp } from '../../../bindings/crypto/finite-field.js';
 import { MlBool } from '../../ml/base.js';
+import type { WitnessTape } from './witness-tape.js';
 
 // internal API
 export {
@@ -40,6 +41,7 @@ type SnarkContext = {
   inCheckedComputation?: boolean;
   inAnalyze?: boolean;
   inWitnessBlock?: boolean;
+  witnessTape?: WitnessTape;
 };
 let snarkContext = Context.create<SnarkContext>({ default: {} });
 
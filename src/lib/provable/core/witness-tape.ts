@@ -0,0 +1,86 @@
+/**
+ * Recording and replaying of the values witnessed by provable code, so that a prover can be rerun without
+ * recomputing its witnesses.
+ */
+import { snarkContext } from './provable-context.js';
+
+export { WitnessTape, tapeValues, tapeValuesAsync, tapeAuxiliary };
+
+/**
+ * The values returned by all witness callbacks of a prover run, in the order they were computed.
+ *
+ * In `record` mode, witness callbacks are run and their results are appended to the tape.
+ * In `replay` mode, witness callbacks are skipped and the recorded values are returned instead.
+ * When a replayed tape runs out of values, the remaining callbacks are run normally.
+ */
+type WitnessTape = {
+  mode: 'record' | 'replay';
+  entries: { values: bigint[]; aux?: any[] }[];
+  position: number;
+  /**
+   * Set when the prover finished running the circuit, i.e. when all witnesses were recorded.
+   */
+  complete: boolean;
+};
+
+const WitnessTape = {
+  record(): WitnessTape {
+    return { mode: 'record', entries: [], position: 0, complete: false };
+  },
+  replay(entries: WitnessTape['entries']): WitnessTape {
+    return { mode: 'replay', entries, position: 0, complete: false };
+  },
+};
+
+function tapeValues(size: number, compute: () => bigint[]): bigint[] {
+  let tape = snarkContext.get().witnessTape;
+  if (tape === undefined) return compute();
+  let values = nextEntry(tape, size)?.values;
+  if (values !== undefined) return values;
+  values = compute();
+  if (tape.mode === 'record') tape.entries.push({ values: [...values] });
+  return values;
+}
+
+async function tapeValuesAsync(
+  size: number,
+  compute: () => Promise<bigint[]>
+): Promise<bigint[]> {
+  let tape = snarkContext.get().witnessTape;
+  if (tape === undefined) return compute();
+  let values = nextEntry(tape, size)?.values;
+  if (values !== undefined) return values;
+  values = await compute();
+  if (tape.mode === 'record') tape.entries.push({ values: [...values] });
+  return values;
+}
+
+/**
+ * Records or replays the auxiliary data of the value that was witnessed last.
+ */
+function tapeAuxiliary(compute: () => any[]): any[] {
+  let tape = snarkContext.get().witnessTape;
+  if (tape === undefined) return compute();
+  if (tape.mode === 'replay') {
+    return tape.entries[tape.position - 1]?.aux ?? compute();
+  }
+  let aux = compute();
+  let last = tape.entries[tape.entries.length - 1];
+  if (last !== undefined) last.aux = aux;
+  return aux;
+}
+
+function nextEntry(tape: WitnessTape, size: number) {
+  if (tape.mode !== 'replay') return undefined;
+  // the position is advanced past the end as well, so that `tapeAuxiliary()` doesn't use a stale entry
+  let entry = tape.entries[tape.position++];
+  if (entry !== undefined && entry.values.length !== size) {
+    throw Error(
+      `Witness replay: expected ${size} values at position ${
+        tape.position - 1
+      }, but the tape has ${entry.values.length}. ` +
+        'The circuit is different from the one that was recorded.'
+    );
+  }
+  return entry;
+}
@@ -0,0 +1,426 @@
+/**
+ * BIP-340 Schnorr signatures over secp256k1, as used by Bitcoin Taproot and Nostr.
+ *
+ * See https://github.com/bitcoin/bips/blob/master/bip-0340.mediawiki
+ */
+import { sha256 } from '@noble/hashes/sha256';
+import {
+  bigIntToBytes,
+  bytesToBigInt,
+} from '../../../bindings/crypto/bigint-helpers.js';
+import { CurveAffine } from '../../../bindings/crypto/elliptic-curve.js';
+import { randomBytes } from '../../../bindings/crypto/random.js';
+import { provableFromClass } from '../types/provable-derivers.js';
+import { AlmostForeignField } from '../foreign-field.js';
+import { createForeignCurve } from './foreign-curve.js';
+import { Crypto } from './crypto.js';
+import { Field3, ForeignField, split } from '../gadgets/foreign-field.js';
+import { EllipticCurve, Point } from '../gadgets/elliptic-curve.js';
+import {
+  bytesToField3,
+  field3ToBytes,
+  isOddField3,
+} from '../gadgets/bit-slices.js';
+import { SHA256 } from '../gadgets/sha256.js';
+import { assert } from '../gadgets/common.js';
+import { exists } from '../core/exists.js';
+import { Provable } from '../provable.js';
+import { Bytes } from '../wrapped-classes.js';
+import { FlexibleBytes } from '../bytes.js';
+import { Bool } from '../bool.js';
+import { UInt8 } from '../int.js';
+
+// external API
+export { Bip340Signature };
+
+// internal API
+export { verifyBip340Constant, taggedHash };
+
+class Secp256k1 extends createForeignCurve(Crypto.CurveParams.Secp256k1) {}
+
+class Bip340Signature {
+  r: AlmostForeignField;
+  s: AlmostForeignField;
+
+  /**
+   * Create a new {@link Bip340Signature} from an object containing r, the x coordinate of the nonce point,
+   * and the scalar s.
+   * @throws if r or s are given as a number or bigint which is not smaller than the field size or curve order.
+   */
+  constructor(signature: {
+    r: AlmostForeignField | Field3 | bigint | number;
+    s: AlmostForeignField | Field3 | bigint | number;
+  }) {
+    let { r, s } = signature;
+    assert(
+      !isConstantInput(r) || BigInt(r) < Secp256k1.Bigint.modulus,
+      'Bip340Signature: r is not smaller than the field size'
+    );
+    assert(
+      !isConstantInput(s) || BigInt(s) < Secp256k1.Bigint.order,
+      'Bip340Signature: s is not smaller than the curve order'
+    );
+    this.r = new Secp256k1.Field(r);
+    this.s = new Secp256k1.Scalar(s);
+  }
+
+  /**
+   * Coerce the input to a {@link Bip340Signature}.
+   */
+  static from(
+    signature:
+      | Bip340Signature
+      | {
+          r: AlmostForeignField | Field3 | bigint | number;
+          s: AlmostForeignField | Field3 | bigint | number;
+        }
+  ): Bip340Signature {
+    if (signature instanceof Bip340Signature) return signature;
+    return new Bip340Signature(signature);
+  }
+
+  /**
+   * Create a {@link Bip340Signature} from its 64-byte encoding as a hex string: r and s as 32-byte big-endian integers.
+   *
+   * @throws if r is not smaller than the field size or s is not smaller than the curve order.
+   */
+  static fromHex(rawSignature: string): Bip340Signature {
+    let signature = rawSignature.replace(/^0x/, '');
+    if (signature.length !== 128) {
+      throw Error(
+        `Bip340Signature.fromHex(): Invalid signature, expected hex string of length 128.`
+      );
+    }
+    let r = BigInt(`0x${signature.slice(0, 64)}`);
+    let s = BigInt(`0x${signature.slice(64)}`);
+    // out-of-range values would be reduced, so we reject them as BIP-340 verification does
+    if (r >= Secp256k1.Bigint.modulus) {
+      throw Error(
+        `Bip340Signature.fromHex(): Invalid signature, r is not smaller than the field size.`
+      );
+    }
+    if (s >= Secp256k1.Bigint.order) {
+      throw Error(
+        `Bip340Signature.fromHex(): Invalid signature, s is not smaller than the curve order.`
+      );
+    }
+    return new Bip340Signature({ r, s });
+  }
+
+  /**
+   * Convert this signature to its 64-byte encoding as a hex string.
+   */
+  toHex() {
+    let { r, s } = this.toBigInt();
+    return r.toString(16).padStart(64, '0') + s.toString(16).padStart(64, '0');
+  }
+
+  /**
+   * Convert this signature to an object with bigint fields.
+   */
+  toBigInt() {
+    return { r: this.r.toBigInt(), s: this.s.toBigInt() };
+  }
+
+  /**
+   * Verify the signature given the message (an array of bytes) and x-only public key (the x coordinate of the public key point).
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the signature is valid.
+   * So, to actually prove validity of a signature, you need to assert that the result is true.
+   *
+   * @throws if the public key is not the x coordinate of a curve point, if r or s are out of range,
+   * or if the nonce point `s*G - e*P` would be zero.
+   *
+   * @example
+   * ```ts
+   * let message = Bytes32.fromString('my message');
+   *
+   * // outside provable code: create inputs
+   * let privateKey = Bip340Signature.Curve.Scalar.random().toBigInt();
+   * let publicKey = Bip340Signature.publicKey(privateKey);
+   * let signature = Bip340Signature.sign(message.toBytes(), privateKey);
+   *
+   * // ...
+   * // in provable code: create input witnesses (or use method inputs, or constants)
+   * let pk = Provable.witness(Bip340Signature.PublicKey.provable, () => publicKey);
+   * let msg = Provable.witness(Bytes32.provable, () => message);
+   * let sig = Provable.witness(Bip340Signature.provable, () => signature);
+   *
+   * // verify signature
+   * let isValid = sig.verify(msg, pk);
+   * isValid.assertTrue('signature verifies');
+   * ```
+   */
+  verify(message: FlexibleBytes, publicKey: AlmostForeignField | bigint): Bool {
+    let publicKey_ = Secp256k1.Field.from(publicKey);
+    return verifyBip340(
+      Secp256k1.Bigint,
+      { r: this.r.value, s: this.s.value },
+      Bytes.from(message).bytes,
+      publicKey_.value
+    );
+  }
+
+  /**
+   * Create a {@link Bip340Signature} by signing a message with a private key.
+   *
+   * `auxRand` is the auxiliary randomness mixed into the nonce, which defaults to 32 random bytes.
+   * Passing it explicitly makes signing deterministic, which is useful for tests.
+   *
+   * Note: This method is not provable, and only takes JS bigints and bytes as input.
+   */
+  static sign(
+    message: Uint8Array | number[],
+    privateKey: bigint,
+    auxRand: Uint8Array = randomBytes(32)
+  ) {
+    let { r, s } = signBip340(
+      Secp256k1.Bigint,
+      Uint8Array.from(message),
+      privateKey,
+      auxRand
+    );
+    return new Bip340Signature({ r, s });
+  }
+
+  /**
+   * Derive the x-only public key which belongs to a private key.
+   *
+   * Note: This method is not provable.
+   */
+  static publicKey(privateKey: bigint) {
+    let Curve = Secp256k1.Bigint;
+    assert(
+      privateKey > 0n && privateKey < Curve.order,
+      'Bip340Signature: private key out of range'
+    );
+    let P = Curve.scale(Curve.one, privateKey);
+    return new Secp256k1.Field(P.x);
+  }
+
+  static check(signature: Bip340Signature) {
+    Secp256k1.Field.check(signature.r);
+    Secp256k1.Scalar.check(signature.s);
+  }
+
+  /**
+   * The secp256k1 {@link ForeignCurve} on which the signatures are defined.
+   */
+  static Curve = Secp256k1;
+
+  /**
+   * The type of x-only public keys, an element of the base field of secp256k1.
+   */
+  static PublicKey = Secp256k1.Field;
+
+  /**
+   * `Provable<Bip340Signature>`
+   */
+  static provable = provableFromClass(Bip340Signature, {
+    r: Secp256k1.Field.provable,
+    s: Secp256k1.Scalar.provable,
+  });
+}
+
+/**
+ * Provable BIP-340 verification.
+ *
+ * Assumes that r, s and the public key are almost reduced.
+ */
+function verifyBip340(
+  Curve: CurveAffine,
+  signature: { r: Field3; s: Field3 },
+  message: UInt8[],
+  publicKey: Field3
+): Bool {
+  let { r, s } = signature;
+
+  // constant case
+  if (
+    Field3.isConstant(r) &&
+    Field3.isConstant(s) &&
+    message.every((b) => b.value.isConstant()) &&
+    Field3.isConstant(publicKey)
+  ) {
+    let isValid = verifyBip340Constant(
+      Curve,
+      { r: Field3.toBigint(r), s: Field3.toBigint(s) },
+      Uint8Array.from(message.map((b) => b.toNumber())),
+      Field3.toBigint(publicKey)
+    );
+    return new Bool(isValid);
+  }
+
+  // provable case
+  ForeignField.assertLessThan(r, Curve.modulus);
+  ForeignField.assertLessThan(s, Curve.order);
+  let P = liftX(publicKey, Curve);
+
+  // e = hash(r || P.x || m), which we reduce modulo the order for the scalar multiplication
+  let hash = taggedHashProvable('BIP0340/challenge', [
+    ...toBytesBE(r),
+    ...toBytesBE(P.x),
+    ...message,
+  ]);
+  let e = ForeignField.mul(fromBytesBE(hash), Field3.from(1n), Curve.order);
+
+  // R = s*G - e*P
+  // this already proves that R != 0
+  let G = Point.from(Curve.one);
+  let R = EllipticCurve.multiScalarMul(
+    [s, e],
+    [G, EllipticCurve.negate(P, Curve)],
+    Curve,
+    [{ windowSize: 4 }, { windowSize: 3 }],
+    'assert-nonzero',
+    undefined,
+    false
+  );
+
+  // we prove that R is canonical, so that checking its parity and comparing with r can't be manipulated
+  ForeignField.assertLessThan(R.x, Curve.modulus);
+  ForeignField.assertLessThan(R.y, Curve.modulus);
+  let yIsEven = isOddField3(R.y).not();
+  let xEqualsR = Provable.equal(Field3.provable, R.x, r);
+  return xEqualsR.and(yIsEven);
+}
+
+/**
+ * Recovers the curve point with even y coordinate from its x coordinate, and proves that x is canonical.
+ */
+function liftX(x: Field3, Curve: CurveAffine): Point {
+  let f = Curve.modulus;
+  ForeignField.assertLessThan(x, f);
+
+  let y = exists(3, () => {
+    let y = liftXConstant(Curve, Field3.toBigint(x))?.y ?? 0n;
+    return split(y);
+  });
+  ForeignField.assertAlmostReduced([y], f);
+  ForeignField.assertLessThan(y, f);
+
+  let P = { x, y };
+  EllipticCurve.assertOnCurve(P, Curve);
+  isOddField3(y).assertFalse('Bip340Signature: invalid public key');
+  return P;
+}
+
+/**
+ * Bigint implementation of BIP-340 verify
+ */
+function verifyBip340Constant(
+  Curve: CurveAffine,
+  { r, s }: { r: bigint; s: bigint },
+  message: Uint8Array,
+  publicKey: bigint
+) {
+  let P = liftXConstant(Curve, publicKey);
+  if (P === undefined) return false;
+  if (r < 0n || r >= Curve.modulus) return false;
+  if (s < 0n || s >= Curve.order) return false;
+
+  let e = Curve.Scalar.mod(
+    bigintFromBytesBE(
+      taggedHash(
+        'BIP0340/challenge',
+        concat(bigintToBytesBE(r), bigintToBytesBE(P.x), message)
+      )
+    )
+  );
+  let R = Curve.add(Curve.scale(Curve.one, s), Curve.negate(Curve.scale(P, e)));
+  if (R.infinity || (R.y & 1n) === 1n) return false;
+  return R.x === r;
+}
+
+function signBip340(
+  Curve: CurveAffine,
+  message: Uint8Array,
+  privateKey: bigint,
+  auxRand: Uint8Array
+) {
+  let { Scalar } = Curve;
+  assert(
+    privateKey > 0n && privateKey < Curve.order,
+    'Bip340Signature: private key out of range'
+  );
+  assert(auxRand.length === 32, 'Bip340Signature: expected 32 bytes auxRand');
+
+  let P = Curve.scale(Curve.one, privateKey);
+  let d: bigint = (P.y & 1n) === 0n ? privateKey : Scalar.negate(privateKey);
+
+  let t = d ^ bigintFromBytesBE(taggedHash('BIP0340/aux', auxRand));
+  let k0 = Scalar.mod(
+    bigintFromBytesBE(
+      taggedHash(
+        'BIP0340/nonce',
+        concat(bigintToBytesBE(t), bigintToBytesBE(P.x), message)
+      )
+    )
+  );
+  assert(k0 !== 0n, 'Bip340Signature: nonce is zero');
+
+  let R = Curve.scale(Curve.one, k0);
+  let k = (R.y & 1n) === 0n ? k0 : Scalar.negate(k0);
+
+  let e = Scalar.mod(
+    bigintFromBytesBE(
+      taggedHash(
+        'BIP0340/challenge',
+        concat(bigintToBytesBE(R.x), bigintToBytesBE(P.x), message)
+      )
+    )
+  );
+  return { r: R.x, s: Scalar.add(k, Scalar.mul(e, d)) };
+}
+
+function liftXConstant(Curve: CurveAffine, x: bigint) {
+  const F = Curve.Field;
+  if (x < 0n || x >= Curve.modulus) return undefined;
+  // solve y^2 = x^3 + ax + b
+  let y2 = F.add(F.mul(F.square(x), x), F.add(F.mul(Curve.a, x), Curve.b));
+  let y = F.sqrt(y2);
+  if (y === undefined) return undefined;
+  if ((y & 1n) === 1n) y = F.negate(y);
+  return { x, y, infinity: false };
+}
+
+// tagged hashes
+
+/**
+ * BIP-340 tagged hash, `SHA256(SHA256(tag) || SHA256(tag) || data)`
+ */
+function taggedHash(tag: string, data: Uint8Array) {
+  let tagHash = sha256(new TextEncoder().encode(tag));
+  return sha256(concat(tagHash, tagHash, data));
+}
+
+function taggedHashProvable(tag: string, data: UInt8[]) {
+  let tagHash = sha256(new TextEncoder().encode(tag));
+  return SHA256.hash([...tagHash, ...tagHash, ...data]).bytes;
+}
+
+// conversion between Field3 and 32 big-endian bytes
+
+function toBytesBE(x: Field3) {
+  return field3ToBytes(x).reverse();
+}
+
+function isConstantInput(x: unknown): x is bigint | number {
+  return typeof x === 'bigint' || typeof x === 'number';
+}
+
+function fromBytesBE(bytes: UInt8[]) {
+  return bytesToField3([...bytes].reverse());
+}
+
+function bigintToBytesBE(x: bigint) {
+  return Uint8Array.from(bigIntToBytes(x, 32)).reverse();
+}
+
+function bigintFromBytesBE(bytes: Uint8Array) {
+  return bytesToBigInt(Uint8Array.from(bytes).reverse());
+}
+
+function concat(...arrays: Uint8Array[]) {
+  return Uint8Array.from(arrays.flatMap((a) => [...a]));
+}
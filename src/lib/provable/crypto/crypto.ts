@@ -3,6 +3,7 @@ import {
   CurveAffine,
   createCurveAffine,
 } from '../../../bindings/crypto/elliptic-curve.js';
+import { TwistedCurveParams as TwistedCurveParams_ } from '../gadgets/twisted-curve.js';
 
 // crypto namespace
 const Crypto = {
@@ -17,6 +18,11 @@ const Crypto = {
    * y^2 = x^3 + ax + b
    */
   CurveParams: CurveParams_,
+  /**
+   * Parameters defining an elliptic curve in twisted Edwards form
+   * a*x^2 + y^2 = 1 + d*x^2*y^2
+   */
+  TwistedCurveParams: TwistedCurveParams_,
 };
 
 namespace Crypto {
@@ -27,5 +33,11 @@ namespace Crypto {
   export type CurveParams = CurveParams_;
 
   export type Curve = CurveAffine;
+
+  /**
+   * Parameters defining an elliptic curve in twisted Edwards form
+   * a*x^2 + y^2 = 1 + d*x^2*y^2
+   */
+  export type TwistedCurveParams = TwistedCurveParams_;
 }
 export { Crypto };
@@ -0,0 +1,254 @@
+import { provableFromClass } from '../types/provable-derivers.js';
+import { ProvableExtended } from '../types/struct.js';
+import {
+  FlexibleTwistedPoint,
+  ForeignTwistedCurve,
+  createForeignTwistedCurve,
+  toTwistedPoint,
+} from './foreign-twisted-curve.js';
+import { AlmostForeignField } from '../foreign-field.js';
+import { assert } from '../gadgets/common.js';
+import { Field3 } from '../gadgets/foreign-field.js';
+import { Eddsa, TwistedCurveParams } from '../gadgets/twisted-curve.js';
+import { Bytes } from '../wrapped-classes.js';
+import { FlexibleBytes } from '../bytes.js';
+import { Bool } from '../bool.js';
+
+// external API
+export { createEddsa, EddsaSignature, Ed25519 };
+
+type FlexibleSignature =
+  | EddsaSignature
+  | {
+      R: ForeignTwistedCurve | FlexibleTwistedPoint;
+      s: AlmostForeignField | Field3 | bigint | number;
+    };
+
+class EddsaSignature {
+  R: ForeignTwistedCurve;
+  s: AlmostForeignField;
+
+  /**
+   * Create a new {@link EddsaSignature} from an object containing the curve point R and the scalar s.
+   * @param signature
+   * @throws if s is given as a number or bigint which is not smaller than the curve order.
+   */
+  constructor(signature: {
+    R: ForeignTwistedCurve | FlexibleTwistedPoint;
+    s: AlmostForeignField | Field3 | bigint | number;
+  }) {
+    let { s } = signature;
+    assert(
+      (typeof s !== 'bigint' && typeof s !== 'number') ||
+        BigInt(s) < this.Constructor.Curve.Bigint.order,
+      'EddsaSignature: the scalar s is not smaller than the curve order'
+    );
+    this.R = this.Constructor.Curve.from(signature.R);
+    this.s = new this.Constructor.Curve.Scalar(s);
+  }
+
+  /**
+   * Coerce the input to a {@link EddsaSignature}.
+   */
+  static from(signature: FlexibleSignature): EddsaSignature {
+    if (signature instanceof this) return signature;
+    return new this(signature);
+  }
+
+  /**
+   * Create an {@link EddsaSignature} from its 64-byte encoding, the encoded point R followed by the little-endian scalar s.
+   *
+   * Note: This method is not provable.
+   *
+   * @throws if R is not a valid point encoding, or if s is not smaller than the curve order.
+   */
+  static fromBytes(bytes: Uint8Array | number[]): EddsaSignature {
+    let signature = Eddsa.Signature.fromBytes(
+      this.Curve.Bigint,
+      Uint8Array.from(bytes)
+    );
+    if (signature === undefined) {
+      throw Error(
+        `EddsaSignature.fromBytes(): Invalid signature, expected ${
+          2 * this.Curve.Bigint.sizeInBytes
+        } bytes which start with a valid curve point.`
+      );
+    }
+    // the scalar would be reduced modulo the curve order, so we reject non-canonical encodings here
+    if (signature.s >= this.Curve.Bigint.order) {
+      throw Error(
+        'EddsaSignature.fromBytes(): Invalid signature, the scalar s is not smaller than the curve order.'
+      );
+    }
+    return new this(signature);
+  }
+
+  /**
+   * Create an {@link EddsaSignature} from its encoding as a hex string.
+   *
+   * Note: This method is not provable.
+   */
+  static fromHex(rawSignature: string): EddsaSignature {
+    return this.fromBytes(
+      Bytes.fromHex(rawSignature.replace(/^0x/, '')).toBytes()
+    );
+  }
+
+  /**
+   * Convert this signature to its 64-byte encoding.
+   *
+   * Note: This method is not provable.
+   */
+  toBytes(): Uint8Array {
+    return Eddsa.Signature.toBytes(
+      this.Constructor.Curve.Bigint,
+      this.toBigInt()
+    );
+  }
+
+  /**
+   * Convert this signature to an object with bigint fields.
+   */
+  toBigInt() {
+    return { R: this.R.toBigint(), s: this.s.toBigInt() };
+  }
+
+  /**
+   * Verify the EdDSA signature given the message (an array of bytes) and public key (a {@link ForeignTwistedCurve} point).
+   *
+   * This follows Ed25519 as specified in [RFC 8032](https://www.rfc-editor.org/rfc/rfc8032#section-5.1.7),
+   * with SHA-512 as hash function and the cofactored verification equation `[8][s]G = [8]R + [8][k]A`.
+   *
+   * **Important:** This method returns a {@link Bool} which indicates whether the signature is valid.
+   * So, to actually prove validity of a signature, you need to assert that the result is true.
+   *
+   * @throws if the scalar s of the signature is not smaller than the curve order.
+   *
+   * @example
+   * ```ts
+   * let message = Bytes32.fromString('my message');
+   *
+   * // outside provable code: create inputs
+   * let privateKey = crypto.getRandomValues(new Uint8Array(32));
+   * let publicKey = Ed25519.publicKey(privateKey);
+   * let signature = Ed25519.sign(message.toBytes(), privateKey);
+   *
+   * // ...
+   * // in provable code: create input witnesses (or use method inputs, or constants)
+   * let pk = Provable.witness(Ed25519.Curve.provable, () => publicKey);
+   * let msg = Provable.witness(Bytes32.provable, () => message);
+   * let sig = Provable.witness(Ed25519.provable, () => signature);
+   *
+   * // verify signature
+   * let isValid = sig.verify(msg, pk);
+   * isValid.assertTrue('signature verifies');
+   * ```
+   */
+  verify(
+    message: FlexibleBytes,
+    publicKey: ForeignTwistedCurve | FlexibleTwistedPoint
+  ): Bool {
+    let Curve = this.Constructor.Curve;
+    let publicKey_ = Curve.from(publicKey);
+    return Eddsa.verify(
+      Curve.Bigint,
+      toObject(this),
+      Bytes.from(message).bytes,
+      toTwistedPoint(publicKey_)
+    );
+  }
+
+  /**
+   * Create an {@link EddsaSignature} by signing a message with a 32-byte private key, as specified for Ed25519.
+   *
+   * Note: This method is not provable, and only takes JS bytes as input.
+   */
+  static sign(message: Uint8Array | number[], privateKey: Uint8Array) {
+    let signature = Eddsa.sign(
+      this.Curve.Bigint,
+      Uint8Array.from(message),
+      privateKey
+    );
+    return new this(signature);
+  }
+
+  /**
+   * Derive the public key which belongs to a 32-byte private key.
+   *
+   * Note: This method is not provable.
+   */
+  static publicKey(privateKey: Uint8Array): ForeignTwistedCurve {
+    return new this.Curve(Eddsa.publicKey(this.Curve.Bigint, privateKey));
+  }
+
+  static check(signature: EddsaSignature) {
+    this.Curve.check(signature.R);
+    this.Curve.Scalar.check(signature.s);
+  }
+
+  // dynamic subclassing infra
+  get Constructor() {
+    return this.constructor as typeof EddsaSignature;
+  }
+  static _Curve?: typeof ForeignTwistedCurve;
+  static _provable?: ProvableExtended<
+    EddsaSignature,
+    { R: { x: bigint; y: bigint }; s: bigint },
+    { R: { x: string; y: string }; s: string }
+  >;
+
+  /**
+   * The {@link ForeignTwistedCurve} on which the EdDSA signature is defined.
+   */
+  static get Curve() {
+    assert(this._Curve !== undefined, 'EddsaSignature not initialized');
+    return this._Curve;
+  }
+  /**
+   * `Provable<EddsaSignature>`
+   */
+  static get provable() {
+    assert(this._provable !== undefined, 'EddsaSignature not initialized');
+    return this._provable;
+  }
+}
+
+/**
+ * Create a class {@link EddsaSignature} for verifying EdDSA signatures on the given twisted Edwards curve.
+ *
+ * Signing and verification follow Ed25519 as specified in [RFC 8032](https://www.rfc-editor.org/rfc/rfc8032),
+ * so the curve must have 32-byte point encodings.
+ * For Ed25519 itself, use the predefined {@link Ed25519} class.
+ */
+function createEddsa(
+  curve: TwistedCurveParams | typeof ForeignTwistedCurve
+): typeof EddsaSignature {
+  let Curve0: typeof ForeignTwistedCurve =
+    'd' in curve ? createForeignTwistedCurve(curve) : curve;
+  class Curve extends Curve0 {}
+
+  class Signature extends EddsaSignature {
+    static _Curve = Curve;
+    static _provable = provableFromClass(Signature, {
+      R: Curve.provable,
+      s: Curve.Scalar.provable,
+    });
+  }
+
+  return Signature;
+}
+
+/**
+ * Ed25519 signatures, as used by Solana wallets, SSH keys and many other systems.
+ *
+ * ```ts
+ * let signature = Ed25519.fromHex(signatureHex);
+ * let publicKey = Ed25519.Curve.fromBytes(publicKeyBytes);
+ * signature.verify(message, publicKey).assertTrue();
+ * ```
+ */
+class Ed25519 extends createEddsa(TwistedCurveParams.Ed25519) {}
+
+function toObject(signature: EddsaSignature) {
+  return { R: toTwistedPoint(signature.R), s: signature.s.value };
+}
@@ -0,0 +1,312 @@
+import { ProvablePureExtended } from '../types/struct.js';
+import { AlmostForeignField, createForeignField } from '../foreign-field.js';
+import { Point } from '../gadgets/elliptic-curve.js';
+import {
+  AffineTwistedCurve,
+  TwistedCurve,
+  TwistedCurveParams,
+  createAffineTwistedCurve,
+} from '../gadgets/twisted-curve.js';
+import { Field3 } from '../gadgets/foreign-field.js';
+import { assert } from '../gadgets/common.js';
+import { Provable } from '../provable.js';
+import { provableFromClass } from '../types/provable-derivers.js';
+import { Bytes } from '../wrapped-classes.js';
+import { FlexibleBytes } from '../bytes.js';
+
+// external API
+export { createForeignTwistedCurve, ForeignTwistedCurve };
+
+// internal API
+export { toTwistedPoint, FlexibleTwistedPoint };
+
+type FlexibleTwistedPoint = {
+  x: AlmostForeignField | Field3 | bigint | number;
+  y: AlmostForeignField | Field3 | bigint | number;
+};
+function toTwistedPoint({ x, y }: ForeignTwistedCurve): Point {
+  return { x: x.value, y: y.value };
+}
+
+class ForeignTwistedCurve {
+  x: AlmostForeignField;
+  y: AlmostForeignField;
+
+  /**
+   * Create a new {@link ForeignTwistedCurve} from an object representing the (affine) x and y coordinates.
+   *
+   * @example
+   * ```ts
+   * let p = new ForeignTwistedCurve({ x: 0n, y: 1n }); // the zero point
+   * ```
+   *
+   * **Warning**: This fails for a constant input which does not represent an actual point on the curve.
+   */
+  constructor(g: {
+    x: AlmostForeignField | Field3 | bigint | number;
+    y: AlmostForeignField | Field3 | bigint | number;
+  }) {
+    this.x = new this.Constructor.Field(g.x);
+    this.y = new this.Constructor.Field(g.y);
+    // don't allow constants that aren't on the curve
+    if (this.isConstant()) {
+      this.assertOnCurve();
+    }
+  }
+
+  /**
+   * Coerce the input to a {@link ForeignTwistedCurve}.
+   */
+  static from(g: ForeignTwistedCurve | FlexibleTwistedPoint) {
+    if (g instanceof this) return g;
+    return new this(g);
+  }
+
+  /**
+   * The constant generator point.
+   */
+  static get generator() {
+    return new this(this.Bigint.one);
+  }
+  /**
+   * The constant zero point `(0, 1)`.
+   */
+  static get zero() {
+    return new this(this.Bigint.zero);
+  }
+  /**
+   * The size of the curve's base field.
+   */
+  static get modulus() {
+    return this.Bigint.modulus;
+  }
+  /**
+   * The size of the curve's base field.
+   */
+  get modulus() {
+    return this.Constructor.Bigint.modulus;
+  }
+
+  /**
+   * Checks whether this curve point is constant.
+   *
+   * See {@link FieldVar} to understand constants vs variables.
+   */
+  isConstant() {
+    return Provable.isConstant(this.Constructor.provable, this);
+  }
+
+  /**
+   * Convert this curve point to a point with bigint coordinates.
+   */
+  toBigint() {
+    return { x: this.x.toBigInt(), y: this.y.toBigInt() };
+  }
+
+  /**
+   * Twisted Edwards addition.
+   *
+   * ```ts
+   * let r = p.add(q); // r = p + q
+   * ```
+   *
+   * In contrast to {@link ForeignCurve.add}, this is _complete_ addition on curves like Ed25519:
+   * it is sound and succeeds for all inputs, including equal points, inverse points and the zero point.
+   */
+  add(h: ForeignTwistedCurve | FlexibleTwistedPoint) {
+    let Curve = this.Constructor.Bigint;
+    let h_ = this.Constructor.from(h);
+    let p = TwistedCurve.add(toTwistedPoint(this), toTwistedPoint(h_), Curve);
+    return new this.Constructor(p);
+  }
+
+  /**
+   * Twisted Edwards doubling.
+   *
+   * @example
+   * ```ts
+   * let r = p.double(); // r = 2 * p
+   * ```
+   */
+  double() {
+    let Curve = this.Constructor.Bigint;
+    let p = TwistedCurve.double(toTwistedPoint(this), Curve);
+    return new this.Constructor(p);
+  }
+
+  /**
+   * Twisted Edwards negation, `-(x, y) = (-x, y)`.
+   *
+   * @example
+   * ```ts
+   * let r = p.negate(); // r = -p
+   * ```
+   */
+  negate(): ForeignTwistedCurve {
+    return new this.Constructor({ x: this.x.neg(), y: this.y });
+  }
+
+  /**
+   * Scalar multiplication, where the scalar is represented as a {@link ForeignField} element.
+   *
+   * Unlike {@link ForeignCurve.scale}, this succeeds for all scalars, and can return the zero point.
+   *
+   * @example
+   * ```ts
+   * let r = p.scale(s); // r = s * p
+   * ```
+   */
+  scale(scalar: AlmostForeignField | bigint | number) {
+    let Curve = this.Constructor.Bigint;
+    let scalar_ = this.Constructor.Scalar.from(scalar);
+    let p = TwistedCurve.scale(scalar_.value, toTwistedPoint(this), Curve);
+    return new this.Constructor(p);
+  }
+
+  /**
+   * Checks whether this is the zero point `(0, 1)`.
+   */
+  isZero() {
+    return TwistedCurve.isZero(toTwistedPoint(this), this.Constructor.Bigint);
+  }
+
+  /**
+   * Encode this point to bytes as in [RFC 8032](https://www.rfc-editor.org/rfc/rfc8032#section-5.1.2):
+   * the y coordinate in little-endian order, with the highest bit set to the lowest bit of x.
+   */
+  toBytes(): Bytes {
+    let Curve = this.Constructor.Bigint;
+    let bytes = TwistedCurve.encode(toTwistedPoint(this), Curve);
+    return Bytes(Curve.sizeInBytes).from(bytes);
+  }
+
+  /**
+   * Decode a point from its RFC 8032 encoding (point decompression), as created by {@link toBytes}.
+   *
+   * This is provable: it recovers the x coordinate from the curve equation and proves that
+   * the encoding is canonical and represents a point on the curve.
+   *
+   * @throws if the input is not a valid encoding of a curve point.
+   */
+  static fromBytes(bytes: FlexibleBytes) {
+    let Curve = this.Bigint;
+    let bytes_ = Bytes(Curve.sizeInBytes).from(bytes);
+    let p = TwistedCurve.decode(bytes_.bytes, Curve);
+    return new this(p);
+  }
+
+  static assertOnCurve(g: ForeignTwistedCurve) {
+    TwistedCurve.assertOnCurve(toTwistedPoint(g), this.Bigint);
+  }
+
+  /**
+   * Assert that this point lies on the curve, which means it satisfies the equation
+   * `a*x^2 + y^2 = 1 + d*x^2*y^2`
+   */
+  assertOnCurve() {
+    this.Constructor.assertOnCurve(this);
+  }
+
+  static assertInSubgroup(g: ForeignTwistedCurve) {
+    TwistedCurve.assertInSubgroup(toTwistedPoint(g), this.Bigint);
+  }
+
+  /**
+   * Assert that this point lies in the subgroup defined by `order*P = 0`.
+   *
+   * Note: this performs the full scalar multiplication `order*P` and is expensive.
+   * It is not part of {@link check}, because protocols on curves with a cofactor, like EdDSA,
+   * usually handle small-order components by multiplying with the cofactor instead.
+   */
+  assertInSubgroup() {
+    this.Constructor.assertInSubgroup(this);
+  }
+
+  /**
+   * Check that this is a valid curve point:
+   * - Check that the coordinates are valid field elements
+   * - Use {@link assertOnCurve()} to check that the point lies on the curve
+   */
+  static check(g: ForeignTwistedCurve) {
+    // more efficient than the automatic check, which would do this for each field separately
+    this.Field.assertAlmostReduced(g.x, g.y);
+    this.assertOnCurve(g);
+  }
+
+  // dynamic subclassing infra
+  get Constructor() {
+    return this.constructor as typeof ForeignTwistedCurve;
+  }
+  static _Bigint?: AffineTwistedCurve;
+  static _Field?: typeof AlmostForeignField;
+  static _Scalar?: typeof AlmostForeignField;
+  static _provable?: ProvablePureExtended<
+    ForeignTwistedCurve,
+    { x: bigint; y: bigint },
+    { x: string; y: string }
+  >;
+
+  /**
+   * Curve arithmetic on JS bigints.
+   */
+  static get Bigint() {
+    assert(this._Bigint !== undefined, 'ForeignTwistedCurve not initialized');
+    return this._Bigint;
+  }
+  /**
+   * The base field of this curve as a {@link ForeignField}.
+   */
+  static get Field() {
+    assert(this._Field !== undefined, 'ForeignTwistedCurve not initialized');
+    return this._Field;
+  }
+  /**
+   * The scalar field of this curve as a {@link ForeignField}.
+   */
+  static get Scalar() {
+    assert(this._Scalar !== undefined, 'ForeignTwistedCurve not initialized');
+    return this._Scalar;
+  }
+  /**
+   * `Provable<ForeignTwistedCurve>`
+   */
+  static get provable() {
+    assert(this._provable !== undefined, 'ForeignTwistedCurve not initialized');
+    return this._provable;
+  }
+}
+
+/**
+ * Create a class representing a twisted Edwards curve `a*x^2 + y^2 = 1 + d*x^2*y^2`, like the Ed25519 curve.
+ *
+ * ```ts
+ * class Curve25519 extends createForeignTwistedCurve(Crypto.TwistedCurveParams.Ed25519) {}
+ * ```
+ *
+ * The returned {@link ForeignTwistedCurve} class represents a curve point, including the zero point `(0, 1)`,
+ * and supports point addition, doubling, negation, scalar multiplication and point compression.
+ *
+ * Like {@link ForeignCurve}, it includes the associated foreign fields `ForeignTwistedCurve.Field` and `ForeignTwistedCurve.Scalar`.
+ */
+function createForeignTwistedCurve(
+  params: TwistedCurveParams
+): typeof ForeignTwistedCurve {
+  const FieldUnreduced = createForeignField(params.modulus);
+  const ScalarUnreduced = createForeignField(params.order);
+  class Field extends FieldUnreduced.AlmostReduced {}
+  class Scalar extends ScalarUnreduced.AlmostReduced {}
+
+  const BigintCurve = createAffineTwistedCurve(params);
+
+  class Curve extends ForeignTwistedCurve {
+    static _Bigint = BigintCurve;
+    static _Field = Field;
+    static _Scalar = Scalar;
+    static _provable = provableFromClass(Curve, {
+      x: Field.provable,
+      y: Field.provable,
+    });
+  }
+
+  return Curve;
+}
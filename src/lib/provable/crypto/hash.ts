@@ -49,6 +49,32 @@ const Hash = {
     hash: Gadgets.SHA256.hash,
   },
 
+  /**
+   * The SHA2 hash function with an output length of 384 bits.
+   */
+  SHA2_384: {
+    /**
+     * Hashes the given bytes using SHA2-384.
+     *
+     * This is an alias for `Gadgets.SHA384.hash(bytes)`.\
+     * See {@link Gadgets.SHA384.hash} for details and usage examples.
+     */
+    hash: Gadgets.SHA384.hash,
+  },
+
+  /**
+   * The SHA2 hash function with an output length of 512 bits.
+   */
+  SHA2_512: {
+    /**
+     * Hashes the given bytes using SHA2-512.
+     *
+     * This is an alias for `Gadgets.SHA512.hash(bytes)`.\
+     * See {@link Gadgets.SHA512.hash} for details and usage examples.
+     */
+    hash: Gadgets.SHA512.hash,
+  },
+
   /**
    * The SHA3 hash function with an output length of 256 bits.
    */
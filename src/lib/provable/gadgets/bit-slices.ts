@@ -11,7 +11,16 @@ import { assert } from './common.js';
 import type { Field3 } from './foreign-field.js';
 import { l } from './range-check.js';
 
-export { bytesToWord, wordToBytes, wordsToBytes, bytesToWords, sliceField3 };
+export {
+  bytesToWord,
+  wordToBytes,
+  wordsToBytes,
+  bytesToWords,
+  sliceField3,
+  field3ToBytes,
+  bytesToField3,
+  isOddField3,
+};
 
 // conversion between bytes and multi-byte words
 
@@ -58,6 +67,41 @@ function bytesToWords(bytes: UInt8[], bytesPerWord = 8): Field[] {
   return chunk(bytes, bytesPerWord).map(bytesToWord);
 }
 
+// conversion between 3-limb foreign fields and bytes
+
+/**
+ * Convert a 3-limb bigint to 32 bytes. Expects little endian representation.
+ *
+ * This proves that the input is in [0, 2^256).
+ */
+function field3ToBytes([x0, x1, x2]: Field3): UInt8[] {
+  return [
+    ...wordToBytes(x0, 11),
+    ...wordToBytes(x1, 11),
+    ...wordToBytes(x2, 10),
+  ];
+}
+
+/**
+ * Convert up to 32 bytes to a 3-limb bigint. Expects little endian representation.
+ */
+function bytesToField3(bytes: UInt8[]): Field3 {
+  assert(bytes.length <= 32, `expected at most 32 bytes, got ${bytes.length}`);
+  return [
+    bytesToWord(bytes.slice(0, 11)),
+    bytesToWord(bytes.slice(11, 22)),
+    bytesToWord(bytes.slice(22)),
+  ];
+}
+
+/**
+ * Returns whether a 3-limb bigint is odd, by slicing off the lowest bit.
+ */
+function isOddField3([x0]: Field3) {
+  let [lowestByte] = wordToBytes(x0, 11);
+  return lowestByte.value.toBits(8)[0];
+}
+
 // conversion between 3-limb foreign fields and arbitrary bit slices
 
 /**
@@ -29,6 +29,7 @@ import {
 } from './foreign-field.js';
 import { divMod32, addMod32 } from './arithmetic.js';
 import { SHA256 } from './sha256.js';
+import { SHA512, SHA384 } from './sha512.js';
 import { rangeCheck3x12 } from './lookup.js';
 
 export { Gadgets, Field3, ForeignFieldSum };
@@ -875,4 +876,39 @@ const Gadgets = {
    *
    */
   SHA256: SHA256,
+
+  /**
+   * Implementation of the [SHA512 hash function.](https://en.wikipedia.org/wiki/SHA-2) Hash function with 512bit output.
+   *
+   * Applies the SHA2-512 hash function to a list of byte-sized elements. SHA-512 operates on 64-bit words, which are
+   * processed with the {@link Gadgets.rotate64}, {@link Gadgets.rightShift64}, {@link Gadgets.xor} and {@link Gadgets.and} gadgets.
+   *
+   * The function accepts {@link Bytes} as the input message, which is a type that represents a static-length list of byte-sized field elements (range-checked using {@link Gadgets.rangeCheck8}).
+   * Alternatively, you can pass plain `number[]`, `bigint[]` or `Uint8Array` to perform a hash outside provable code.
+   *
+   * Like {@link Gadgets.SHA256}, the low-level building blocks `padding()`, `createMessageSchedule()`, `compression()` and
+   * `initialState` are exposed as well.
+   *
+   * @param data - {@link Bytes} representing the message to hash.
+   *
+   * ```ts
+   * let preimage = Bytes.fromString("hello world");
+   * let digest = Gadgets.SHA512.hash(preimage);
+   * ```
+   *
+   */
+  SHA512: SHA512,
+
+  /**
+   * Implementation of the [SHA384 hash function.](https://en.wikipedia.org/wiki/SHA-2) Hash function with 384bit output.
+   *
+   * SHA-384 is SHA-512 with different initial hash values, and an output truncated to 384 bits.
+   * See {@link Gadgets.SHA512} for details.
+   *
+   * ```ts
+   * let preimage = Bytes.fromString("hello world");
+   * let digest = Gadgets.SHA384.hash(preimage);
+   * ```
+   */
+  SHA384: SHA384,
 };
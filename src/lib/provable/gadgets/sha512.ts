@@ -0,0 +1,356 @@
+// https://csrc.nist.gov/pubs/fips/180-4/upd1/final
+import { mod } from '../../../bindings/crypto/finite-field.js';
+import { UInt64, UInt8 } from '../int.js';
+import { FlexibleBytes } from '../bytes.js';
+import { Bytes } from '../wrapped-classes.js';
+import { chunk } from '../../util/arrays.js';
+import { TupleN } from '../../util/types.js';
+import { addMod64, divMod64 } from './arithmetic.js';
+import { bytesToWord, wordToBytes } from './bit-slices.js';
+
+export { SHA512, SHA384 };
+
+const SHA512Constants = {
+  // constants §4.2.3
+  K: [
+    0x428a2f98d728ae22n,
+    0x7137449123ef65cdn,
+    0xb5c0fbcfec4d3b2fn,
+    0xe9b5dba58189dbbcn,
+    0x3956c25bf348b538n,
+    0x59f111f1b605d019n,
+    0x923f82a4af194f9bn,
+    0xab1c5ed5da6d8118n,
+    0xd807aa98a3030242n,
+    0x12835b0145706fben,
+    0x243185be4ee4b28cn,
+    0x550c7dc3d5ffb4e2n,
+    0x72be5d74f27b896fn,
+    0x80deb1fe3b1696b1n,
+    0x9bdc06a725c71235n,
+    0xc19bf174cf692694n,
+    0xe49b69c19ef14ad2n,
+    0xefbe4786384f25e3n,
+    0x0fc19dc68b8cd5b5n,
+    0x240ca1cc77ac9c65n,
+    0x2de92c6f592b0275n,
+    0x4a7484aa6ea6e483n,
+    0x5cb0a9dcbd41fbd4n,
+    0x76f988da831153b5n,
+    0x983e5152ee66dfabn,
+    0xa831c66d2db43210n,
+    0xb00327c898fb213fn,
+    0xbf597fc7beef0ee4n,
+    0xc6e00bf33da88fc2n,
+    0xd5a79147930aa725n,
+    0x06ca6351e003826fn,
+    0x142929670a0e6e70n,
+    0x27b70a8546d22ffcn,
+    0x2e1b21385c26c926n,
+    0x4d2c6dfc5ac42aedn,
+    0x53380d139d95b3dfn,
+    0x650a73548baf63den,
+    0x766a0abb3c77b2a8n,
+    0x81c2c92e47edaee6n,
+    0x92722c851482353bn,
+    0xa2bfe8a14cf10364n,
+    0xa81a664bbc423001n,
+    0xc24b8b70d0f89791n,
+    0xc76c51a30654be30n,
+    0xd192e819d6ef5218n,
+    0xd69906245565a910n,
+    0xf40e35855771202an,
+    0x106aa07032bbd1b8n,
+    0x19a4c116b8d2d0c8n,
+    0x1e376c085141ab53n,
+    0x2748774cdf8eeb99n,
+    0x34b0bcb5e19b48a8n,
+    0x391c0cb3c5c95a63n,
+    0x4ed8aa4ae3418acbn,
+    0x5b9cca4f7763e373n,
+    0x682e6ff3d6b2b8a3n,
+    0x748f82ee5defb2fcn,
+    0x78a5636f43172f60n,
+    0x84c87814a1f0ab72n,
+    0x8cc702081a6439ecn,
+    0x90befffa23631e28n,
+    0xa4506cebde82bde9n,
+    0xbef9a3f7b2c67915n,
+    0xc67178f2e372532bn,
+    0xca273eceea26619cn,
+    0xd186b8c721c0c207n,
+    0xeada7dd6cde0eb1en,
+    0xf57d4f7fee6ed178n,
+    0x06f067aa72176fban,
+    0x0a637dc5a2c898a6n,
+    0x113f9804bef90daen,
+    0x1b710b35131c471bn,
+    0x28db77f523047d84n,
+    0x32caab7b40c72493n,
+    0x3c9ebe0a15c9bebcn,
+    0x431d67c49c100d4cn,
+    0x4cc5d4becb3e42b6n,
+    0x597f299cfc657e2an,
+    0x5fcb6fab3ad6faecn,
+    0x6c44198c4a475817n,
+  ],
+  // initial hash values §5.3.5
+  H512: [
+    0x6a09e667f3bcc908n,
+    0xbb67ae8584caa73bn,
+    0x3c6ef372fe94f82bn,
+    0xa54ff53a5f1d36f1n,
+    0x510e527fade682d1n,
+    0x9b05688c2b3e6c1fn,
+    0x1f83d9abfb41bd6bn,
+    0x5be0cd19137e2179n,
+  ],
+  // initial hash values of SHA-384 §5.3.4
+  H384: [
+    0xcbbb9d5dc1059ed8n,
+    0x629a292a367cd507n,
+    0x9159015a3070dd17n,
+    0x152fecd8f70e5939n,
+    0x67332667ffc00b31n,
+    0x8eb44a8768581511n,
+    0xdb0c2e0d64f98fa7n,
+    0x47b5481dbefa4fa4n,
+  ],
+};
+
+function padding(data: FlexibleBytes): UInt64[][] {
+  // create a provable Bytes instance from the input data
+  // the Bytes class will be static sized according to the length of the input data
+  let message = Bytes.from(data);
+
+  // now pad the data to reach the format expected by sha512
+  // pad 1 bit, followed by k zero bits where k is the smallest non-negative solution to
+  // l + 1 + k = 896 mod 1024
+  // then append a 128bit block containing the length of the original message in bits
+
+  let l = message.length * 8; // length in bits
+  let k = Number(mod(896n - (BigInt(l) + 1n), 1024n));
+
+  let lBinary = l.toString(2);
+
+  let paddingBits = (
+    '1' + // append 1 bit
+    '0'.repeat(k) + // append k zero bits
+    '0'.repeat(128 - lBinary.length) + // append 128bit containing the length of the original message
+    lBinary
+  ).match(/.{1,8}/g)!; // this should always be divisible by 8
+
+  // map the padding bit string to UInt8 elements
+  let padding = paddingBits.map((x) => UInt8.from(BigInt('0b' + x)));
+
+  // concatenate the padding with the original padded data
+  let paddedMessage = message.bytes.concat(padding);
+
+  // split the message into 64bit chunks
+  let chunks: UInt64[] = [];
+
+  for (let i = 0; i < paddedMessage.length; i += 8) {
+    // chunk 8 bytes into one UInt64, as expected by SHA512
+    // bytesToWord expects little endian, so we reverse the bytes
+    chunks.push(
+      UInt64.Unsafe.fromField(
+        bytesToWord(paddedMessage.slice(i, i + 8).reverse())
+      )
+    );
+  }
+
+  // split message into 16 element sized message blocks
+  // SHA512 expects n-blocks of 1024bit each, 16*64bit = 1024bit
+  return chunk(chunks, 16);
+}
+
+function hash(
+  data: FlexibleBytes,
+  initialState: UInt64[],
+  outputWords: number
+) {
+  // preprocessing §6.4
+  // padding the message §5.1.2 into blocks that are a multiple of 1024
+  let messageBlocks = padding(data);
+
+  let H = initialState;
+  const N = messageBlocks.length;
+
+  for (let i = 0; i < N; i++) {
+    const W = createMessageSchedule(messageBlocks[i]);
+    H = sha512Compression(H, W);
+  }
+
+  // the working variables H[i] are 64bit, however we want to decompose them into bytes to be more compatible
+  // wordToBytes expects little endian, so we reverse the bytes
+  // SHA-384 truncates the output to the first 6 words §6.5
+  return Bytes.from(
+    H.slice(0, outputWords)
+      .map((x) => wordToBytes(x.value, 8).reverse())
+      .flat()
+  );
+}
+
+const SHA512 = {
+  hash(data: FlexibleBytes) {
+    return hash(data, SHA512.initialState, 8);
+  },
+  compression: sha512Compression,
+  createMessageSchedule,
+  padding,
+  get initialState() {
+    return SHA512Constants.H512.map((x) => UInt64.from(x));
+  },
+};
+
+const SHA384 = {
+  hash(data: FlexibleBytes) {
+    return hash(data, SHA384.initialState, 6);
+  },
+  compression: sha512Compression,
+  createMessageSchedule,
+  padding,
+  get initialState() {
+    return SHA512Constants.H384.map((x) => UInt64.from(x));
+  },
+};
+
+function Ch(x: UInt64, y: UInt64, z: UInt64) {
+  // ch(x, y, z) = (x & y) ^ (~x & z)
+  //             = (x & y) + (~x & z) (since x & ~x = 0)
+  let xAndY = x.and(y).value;
+  let xNotAndZ = x.not().and(z).value;
+  let ch = xAndY.add(xNotAndZ).seal();
+  return UInt64.Unsafe.fromField(ch);
+}
+
+function Maj(x: UInt64, y: UInt64, z: UInt64) {
+  // maj(x, y, z) = (x & y) ^ (x & z) ^ (y & z)
+  //              = (x + y + z - (x ^ y ^ z)) / 2
+  let sum = x.value.add(y.value).add(z.value).seal();
+  let xor = x.xor(y).xor(z).value;
+  let maj = sum.sub(xor).div(2).seal();
+  return UInt64.Unsafe.fromField(maj);
+}
+
+function SigmaZero(x: UInt64) {
+  return sigma(x, [28, 34, 39]);
+}
+
+function SigmaOne(x: UInt64) {
+  return sigma(x, [14, 18, 41]);
+}
+
+// lowercase sigma = delta to avoid confusing function names
+
+function DeltaZero(x: UInt64) {
+  return sigma(x, [7, 1, 8], true);
+}
+
+function DeltaOne(x: UInt64) {
+  return sigma(x, [6, 19, 61], true);
+}
+
+function ROTR(n: number, x: UInt64) {
+  return x.rotate(n, 'right');
+}
+
+function SHR(n: number, x: UInt64) {
+  return x.rightShift(n);
+}
+
+function sigma(u: UInt64, bits: TupleN<number, 3>, firstShifted = false) {
+  // all inputs are proven to be 64bit, as required by the rotation gadget:
+  // message words and initial hash values are 64bit by construction, all other words are reduced mod 64bit
+  let [r0, r1, r2] = bits;
+  let rot0 = firstShifted ? SHR(r0, u) : ROTR(r0, u);
+  let rot1 = ROTR(r1, u);
+  let rot2 = ROTR(r2, u);
+  return rot0.xor(rot1).xor(rot2);
+}
+
+/**
+ * Performs the SHA-512 compression function on the given hash values and message schedule.
+ * SHA-384 uses the same compression function.
+ *
+ * @param H - The initial or intermediate hash values (8-element array of UInt64).
+ * @param W - The message schedule (80-element array of UInt64).
+ *
+ * @returns The updated intermediate hash values after compression.
+ */
+function sha512Compression(H: UInt64[], W: UInt64[]) {
+  // initialize working variables
+  let a = H[0];
+  let b = H[1];
+  let c = H[2];
+  let d = H[3];
+  let e = H[4];
+  let f = H[5];
+  let g = H[6];
+  let h = H[7];
+
+  // main loop
+  for (let t = 0; t <= 79; t++) {
+    // T1 is unreduced and not proven to be 64bit, we will do this later to save constraints
+    const unreducedT1 = h.value
+      .add(SigmaOne(e).value)
+      .add(Ch(e, f, g).value)
+      .add(SHA512Constants.K[t])
+      .add(W[t].value)
+      .seal();
+
+    // T2 is also unreduced
+    const unreducedT2 = SigmaZero(a).value.add(Maj(a, b, c).value);
+
+    h = g;
+    g = f;
+    f = e;
+    e = UInt64.Unsafe.fromField(
+      divMod64(d.value.add(unreducedT1), 16).remainder
+    ); // mod 64bit the unreduced field element
+    d = c;
+    c = b;
+    b = a;
+    a = UInt64.Unsafe.fromField(
+      divMod64(unreducedT2.add(unreducedT1), 16).remainder
+    ); // mod 64bit
+  }
+
+  // new intermediate hash value
+  H = [...H];
+  H[0] = UInt64.Unsafe.fromField(addMod64(H[0].value, a.value));
+  H[1] = UInt64.Unsafe.fromField(addMod64(H[1].value, b.value));
+  H[2] = UInt64.Unsafe.fromField(addMod64(H[2].value, c.value));
+  H[3] = UInt64.Unsafe.fromField(addMod64(H[3].value, d.value));
+  H[4] = UInt64.Unsafe.fromField(addMod64(H[4].value, e.value));
+  H[5] = UInt64.Unsafe.fromField(addMod64(H[5].value, f.value));
+  H[6] = UInt64.Unsafe.fromField(addMod64(H[6].value, g.value));
+  H[7] = UInt64.Unsafe.fromField(addMod64(H[7].value, h.value));
+
+  return H;
+}
+
+/**
+ * Prepares the message schedule for the SHA-512 compression function from the given message block.
+ *
+ * @param M - The 1024-bit message block (16-element array of UInt64).
+ * @returns The message schedule (80-element array of UInt64).
+ */
+function createMessageSchedule(M: UInt64[]) {
+  // for each message block of 16 x 64bit do:
+  const W: UInt64[] = [];
+
+  // prepare message block
+  for (let t = 0; t <= 15; t++) W[t] = M[t];
+  for (let t = 16; t <= 79; t++) {
+    // the field element is unreduced and not proven to be 64bit, we will do this later to save constraints
+    let unreduced = DeltaOne(W[t - 2])
+      .value.add(W[t - 7].value)
+      .add(DeltaZero(W[t - 15]).value.add(W[t - 16].value));
+
+    // mod 64bit the unreduced field element
+    W[t] = UInt64.Unsafe.fromField(divMod64(unreduced, 16).remainder);
+  }
+
+  return W;
+}
@@ -0,0 +1,733 @@
+/**
+ * Gadgets for twisted Edwards curves `a*x^2 + y^2 = 1 + d*x^2*y^2` over foreign fields, and for EdDSA signatures on them.
+ */
+import {
+  FiniteField,
+  createField,
+  mod,
+} from '../../../bindings/crypto/finite-field.js';
+import {
+  bigIntToBytes,
+  bytesToBigInt,
+} from '../../../bindings/crypto/bigint-helpers.js';
+import { assertPositiveInteger } from '../../../bindings/crypto/non-negative.js';
+import { sha512 } from '@noble/hashes/sha512';
+import { Field } from '../field.js';
+import { Bool } from '../bool.js';
+import { UInt8 } from '../int.js';
+import { Provable } from '../provable.js';
+import { provable } from '../types/provable-derivers.js';
+import { exists } from '../core/exists.js';
+import { assert } from './common.js';
+import { Field3, ForeignField, split } from './foreign-field.js';
+import { Point, arrayGetGeneric } from './elliptic-curve.js';
+import {
+  bytesToField3,
+  field3ToBytes,
+  isOddField3,
+  sliceField3,
+} from './bit-slices.js';
+import { SHA512 } from './sha512.js';
+
+// external API
+export { TwistedCurve, TwistedCurveParams, Eddsa };
+
+// internal API
+export { createAffineTwistedCurve, AffineTwistedCurve, verifyEddsaConstant };
+
+/**
+ * Parameters defining a twisted Edwards curve `a*x^2 + y^2 = 1 + d*x^2*y^2`.
+ *
+ * `a` and `d` are given as elements of the base field, so `a = -1` is represented as `modulus - 1`.
+ */
+type TwistedCurveParams = {
+  name: string;
+  modulus: bigint;
+  order: bigint;
+  cofactor: bigint;
+  a: bigint;
+  d: bigint;
+  generator: { x: bigint; y: bigint };
+};
+
+const p25519 = (1n << 255n) - 19n;
+
+const TwistedCurveParams = {
+  /**
+   * The twisted Edwards form of Curve25519, as used by Ed25519 signatures ([RFC 8032](https://www.rfc-editor.org/rfc/rfc8032)).
+   */
+  Ed25519: {
+    name: 'Ed25519',
+    modulus: p25519,
+    order: (1n << 252n) + 27742317777372353535851937790883648493n,
+    cofactor: 8n,
+    a: p25519 - 1n,
+    d: 37095705934669439343138083508754565189542113879843219016388785533085940283555n,
+    generator: {
+      x: 15112221349535400772501151409588531511454012693041857206046113283949847762202n,
+      y: 46316835694926478169428394003475163141307993866256225615783033603165251855960n,
+    },
+  } satisfies TwistedCurveParams,
+};
+
+const TwistedCurve = {
+  add,
+  double,
+  negate,
+  assertOnCurve,
+  scale,
+  multiScalarMul,
+  assertInSubgroup,
+  isZero,
+  encode,
+  decode,
+};
+
+/**
+ * Twisted Edwards curve point in affine coordinates. Unlike short Weierstrass points, this can be the zero point `(0, 1)`.
+ */
+type point = { x: bigint; y: bigint };
+
+namespace Eddsa {
+  /**
+   * EdDSA signature consisting of a curve point and a scalar.
+   */
+  export type Signature = { R: Point; s: Field3 };
+  export type signature = { R: point; s: bigint };
+}
+
+/**
+ * Twisted Edwards addition.
+ *
+ * The addition law is complete on curves where `a` is a square and `d` is not, like Ed25519:
+ * it handles equal inputs, inverse inputs and the zero point without special cases.
+ */
+function add(p1: Point, p2: Point, Curve: AffineTwistedCurve): Point {
+  let { x: x1, y: y1 } = p1;
+  let { x: x2, y: y2 } = p2;
+  let f = Curve.modulus;
+
+  // constant case
+  if (Point.isConstant(p1) && Point.isConstant(p2)) {
+    let p3 = Curve.add(Point.toBigint(p1), Point.toBigint(p2));
+    return Point.from(p3);
+  }
+
+  // witness and range-check x3, y3
+  let witnesses = exists(6, () => {
+    let p3 = Curve.add(Point.toBigint(p1), Point.toBigint(p2));
+    return [...split(p3.x), ...split(p3.y)];
+  });
+  let [x30, x31, x32, y30, y31, y32] = witnesses;
+  let x3: Field3 = [x30, x31, x32];
+  let y3: Field3 = [y30, y31, y32];
+  ForeignField.assertAlmostReduced([x3, y3], f);
+
+  let x1x2 = ForeignField.mul(x1, x2, f);
+  let y1y2 = ForeignField.mul(y1, y2, f);
+  let x1y2 = ForeignField.mul(x1, y2, f);
+  let y1x2 = ForeignField.mul(y1, x2, f);
+  let dx1x2 = ForeignField.mul(x1x2, Field3.from(Curve.d), f);
+  let dx1x2y1y2 = ForeignField.mul(dx1x2, y1y2, f);
+  let one = Field3.from(1n);
+
+  // x3*(1 + d*x1*x2*y1*y2) = x1*y2 + y1*x2
+  let xDenom = ForeignField.Sum(one).add(dx1x2y1y2);
+  let xNum = ForeignField.Sum(x1y2).add(y1x2);
+  ForeignField.assertMul(x3, xDenom, xNum, f);
+
+  // y3*(1 - d*x1*x2*y1*y2) = y1*y2 - a*x1*x2
+  let yDenom = ForeignField.Sum(one).sub(dx1x2y1y2);
+  let yNum = ForeignField.Sum(y1y2).sub(mulByA(x1x2, Curve));
+  ForeignField.assertMul(y3, yDenom, yNum, f);
+
+  return { x: x3, y: y3 };
+}
+
+/**
+ * Twisted Edwards doubling, using the curve equation to avoid the multiplication by `d`.
+ *
+ * Assumes that the input is on the curve.
+ */
+function double(p1: Point, Curve: AffineTwistedCurve): Point {
+  let { x: x1, y: y1 } = p1;
+  let f = Curve.modulus;
+
+  // constant case
+  if (Point.isConstant(p1)) {
+    let p3 = Curve.double(Point.toBigint(p1));
+    return Point.from(p3);
+  }
+
+  // witness and range-check x3, y3
+  let witnesses = exists(6, () => {
+    let p3 = Curve.double(Point.toBigint(p1));
+    return [...split(p3.x), ...split(p3.y)];
+  });
+  let [x30, x31, x32, y30, y31, y32] = witnesses;
+  let x3: Field3 = [x30, x31, x32];
+  let y3: Field3 = [y30, y31, y32];
+  ForeignField.assertAlmostReduced([x3, y3], f);
+
+  let x1x1 = ForeignField.mul(x1, x1, f);
+  let y1y1 = ForeignField.mul(y1, y1, f);
+  let x1y1 = ForeignField.mul(x1, y1, f);
+  let ax1x1 = mulByA(x1x1, Curve);
+
+  // x3*(a*x1^2 + y1^2) = 2*x1*y1
+  let xDenom = ForeignField.Sum(ax1x1).add(y1y1);
+  let xNum = ForeignField.Sum(x1y1).add(x1y1);
+  ForeignField.assertMul(x3, xDenom, xNum, f);
+
+  // y3*(2 - a*x1^2 - y1^2) = y1^2 - a*x1^2
+  let yDenom = ForeignField.Sum(Field3.from(2n)).sub(ax1x1).sub(y1y1);
+  let yNum = ForeignField.Sum(y1y1).sub(ax1x1);
+  ForeignField.assertMul(y3, yDenom, yNum, f);
+
+  return { x: x3, y: y3 };
+}
+
+function negate({ x, y }: Point, Curve: { modulus: bigint }) {
+  return { x: ForeignField.negate(x, Curve.modulus), y };
+}
+
+function assertOnCurve(p: Point, Curve: AffineTwistedCurve) {
+  let { x, y } = p;
+  let f = Curve.modulus;
+  let x2 = ForeignField.mul(x, x, f);
+  let y2 = ForeignField.mul(y, y, f);
+  let dx2 = ForeignField.mul(x2, Field3.from(Curve.d), f);
+
+  // (d*x^2) * y^2 = a*x^2 + y^2 - 1
+  let rhs = ForeignField.Sum(mulByA(x2, Curve)).add(y2).sub(Field3.from(1n));
+  let message: string | undefined;
+  if (Point.isConstant(p)) {
+    message = `assertOnCurve(): (${x}, ${y}) is not on the curve.`;
+  }
+  ForeignField.assertMul(dx2, y2, rhs, f, message);
+}
+
+/**
+ * Scalar multiplication, `scalar*point`
+ *
+ * The scalar is assumed to be smaller than `2^b`, where `b` is the bit length of the curve order.
+ */
+function scale(
+  scalar: Field3,
+  point: Point,
+  Curve: AffineTwistedCurve,
+  config: { windowSize?: number } = {}
+) {
+  return multiScalarMul([scalar], [point], Curve, [config.windowSize]);
+}
+
+/**
+ * Multi-scalar multiplication:
+ *
+ * s_0 * P_0 + ... + s_(n-1) * P_(n-1)
+ *
+ * where P_i are any points, including the zero point.
+ *
+ * Implementation: We double all points together and leverage a precomputed table of size 2^c to avoid all but every cth addition.
+ * Since twisted Edwards addition is complete and the table includes the zero point, there are no degenerate cases to handle.
+ *
+ * The default window size is 4 for constant points, whose tables cost no constraints, and 3 for variable points.
+ */
+function multiScalarMul(
+  scalars: Field3[],
+  points: Point[],
+  Curve: AffineTwistedCurve,
+  windowSizes: (number | undefined)[] = []
+): Point {
+  let n = points.length;
+  assert(scalars.length === n, 'Points and scalars lengths must match');
+  assertPositiveInteger(n, 'Expected at least 1 point and scalar');
+
+  // constant case
+  if (scalars.every(Field3.isConstant) && points.every(Point.isConstant)) {
+    let sum = Curve.zero;
+    for (let i = 0; i < n; i++) {
+      let P = Point.toBigint(points[i]);
+      sum = Curve.add(sum, Curve.scale(P, Field3.toBigint(scalars[i])));
+    }
+    return Point.from(sum);
+  }
+
+  let windows = points.map(
+    (P, i) => windowSizes[i] ?? (Point.isConstant(P) ? 4 : 3)
+  );
+  let tables = points.map((P, i) => getPointTable(Curve, P, windows[i]));
+
+  // slice scalars, which also proves that they fit in maxBits
+  let maxBits = Curve.Scalar.sizeInBits;
+  let scalarChunks = scalars.map((s, i) =>
+    sliceField3(s, { maxBits, chunkSize: windows[i] })
+  );
+
+  let sum = Point.from(Curve.zero);
+
+  for (let i = maxBits - 1; i >= 0; i--) {
+    // add in multiple of each point
+    for (let j = 0; j < n; j++) {
+      let windowSize = windows[j];
+      if (i % windowSize === 0) {
+        let sj = scalarChunks[j][i / windowSize];
+        let sjP = arrayGetGeneric(Point.provable, tables[j], sj);
+        sum = add(sum, sjP, Curve);
+      }
+    }
+
+    if (i === 0) break;
+
+    // jointly double all points
+    // (note: the highest couple of bits will not create any constraints because sum is constant)
+    sum = double(sum, Curve);
+  }
+
+  return sum;
+}
+
+/**
+ * Asserts that `order*P = 0`. This is a full scalar multiplication and is expensive.
+ */
+function assertInSubgroup(p: Point, Curve: AffineTwistedCurve) {
+  let orderP = scale(Field3.from(Curve.order), p, Curve);
+  isZero(orderP, Curve).assertTrue('assertInSubgroup(): not in the subgroup');
+}
+
+/**
+ * Checks whether a point is the zero point `(0, 1)`.
+ *
+ * Assumes that the coordinates are almost reduced.
+ */
+function isZero({ x, y }: Point, Curve: { modulus: bigint }) {
+  let xIsZero = ForeignField.equals(x, 0n, Curve.modulus);
+  let yIsOne = ForeignField.equals(y, 1n, Curve.modulus);
+  return xIsZero.and(yIsOne);
+}
+
+/**
+ * Encodes a point as in RFC 8032: the y coordinate as little-endian bytes, with the highest bit set to the sign of x.
+ *
+ * Proves that both coordinates are canonical, so that the encoding is unique.
+ */
+function encode(p: Point, Curve: AffineTwistedCurve): UInt8[] {
+  let { x, y } = p;
+  let f = Curve.modulus;
+  let size = Curve.sizeInBytes;
+  assert(
+    size <= 32 && f < 1n << BigInt(8 * size - 1),
+    'encode(): only curves with a 32-byte encoding are supported'
+  );
+
+  // constant case
+  if (Point.isConstant(p)) {
+    return [...Curve.encode(Point.toBigint(p))].map(UInt8.from);
+  }
+
+  ForeignField.assertLessThan(x, f);
+  ForeignField.assertLessThan(y, f);
+
+  // decompose y into bytes, the highest limb of a canonical y fits in 10 bytes
+  let bytes = field3ToBytes(y);
+
+  // the highest bit of y is zero, and replaced by the lowest bit of x
+  let xIsOdd = isOddField3(x);
+  let last = bytes[31].value.add(xIsOdd.toField().mul(128));
+  bytes[31] = UInt8.Unsafe.fromField(last);
+  return bytes;
+}
+
+/**
+ * Decodes a point from its RFC 8032 encoding, recovering the x coordinate from the curve equation (point decompression).
+ *
+ * Proves that the encoding is canonical and represents a point on the curve.
+ */
+function decode(bytes: UInt8[], Curve: AffineTwistedCurve): Point {
+  let f = Curve.modulus;
+  assert(
+    bytes.length === 32 && Curve.sizeInBytes === 32,
+    'decode(): only curves with a 32-byte encoding are supported'
+  );
+
+  // constant case
+  if (bytes.every((b) => b.value.isConstant())) {
+    let p = Curve.decode(
+      Uint8Array.from(bytes.map((b) => Number(b.toBigInt())))
+    );
+    assert(p !== undefined, 'decode(): invalid point encoding');
+    return Point.from(p);
+  }
+
+  // split off the sign bit
+  let lastBits = bytes[31].value.toBits(8);
+  let sign = lastBits[7];
+  let last = UInt8.Unsafe.fromField(Field.fromBits(lastBits.slice(0, 7)));
+
+  let y = bytesToField3([...bytes.slice(0, 31), last]);
+  ForeignField.assertLessThan(y, f);
+
+  // witness x and prove that it's the canonical solution of the curve equation with the given sign
+  let x = exists(3, () => {
+    let encoded = Uint8Array.from(bytes.map((b) => Number(b.toBigInt())));
+    let p = Curve.decode(encoded);
+    return split(p?.x ?? 0n);
+  });
+  ForeignField.assertAlmostReduced([x], f);
+  ForeignField.assertLessThan(x, f);
+
+  let p = { x, y };
+  assertOnCurve(p, Curve);
+  isOddField3(x).assertEquals(sign, 'decode(): invalid point encoding');
+  return p;
+}
+
+/**
+ * Verify an EdDSA signature, as specified for Ed25519 in RFC 8032.
+ *
+ * We check the cofactored equation `[8][s]G = [8]R + [8][k]A`, where `k = SHA512(R || A || message)`.
+ * This is the variant recommended by RFC 8032, and accepts the same signatures as most implementations.
+ *
+ * The signature and public key are assumed to be on the curve, with almost reduced coordinates.
+ *
+ * @throws if the scalar `s` of the signature is not canonical, `s >= order`.
+ */
+function verifyEddsa(
+  Curve: AffineTwistedCurve,
+  signature: Eddsa.Signature,
+  message: UInt8[],
+  publicKey: Point
+): Bool {
+  // constant case
+  if (
+    EddsaSignature.isConstant(signature) &&
+    message.every((b) => b.value.isConstant()) &&
+    Point.isConstant(publicKey)
+  ) {
+    let isValid = verifyEddsaConstant(
+      Curve,
+      EddsaSignature.toBigint(signature),
+      Uint8Array.from(message.map((b) => Number(b.toBigInt()))),
+      Point.toBigint(publicKey)
+    );
+    return new Bool(isValid);
+  }
+
+  // provable case
+  let { R, s } = signature;
+  ForeignField.assertLessThan(s, Curve.order);
+
+  let hash = SHA512.hash([
+    ...encode(R, Curve),
+    ...encode(publicKey, Curve),
+    ...message,
+  ]);
+  let k = hashToScalar(hash.bytes, Curve);
+
+  // [s]G - [k]A - R
+  let G = Point.from(Curve.one);
+  let sum = multiScalarMul([s, k], [G, negate(publicKey, Curve)], Curve);
+  sum = add(sum, negate(R, Curve), Curve);
+
+  // multiply by the cofactor
+  for (let c = Curve.cofactor; c > 1n; c >>= 1n) {
+    sum = double(sum, Curve);
+  }
+  return isZero(sum, Curve);
+}
+
+/**
+ * Bigint implementation of EdDSA verify
+ */
+function verifyEddsaConstant(
+  Curve: AffineTwistedCurve,
+  { R, s }: Eddsa.signature,
+  message: Uint8Array,
+  publicKey: point
+) {
+  if (!Curve.isOnCurve(R) || !Curve.isOnCurve(publicKey)) return false;
+  if (s < 0n || s >= Curve.order) return false;
+
+  let k = Curve.Scalar.mod(
+    bytesToBigInt(
+      sha512(concat(Curve.encode(R), Curve.encode(publicKey), message))
+    )
+  );
+  let kA = Curve.scale(publicKey, k);
+  let sum = Curve.add(
+    Curve.scale(Curve.one, s),
+    Curve.negate(Curve.add(R, kA))
+  );
+  return Curve.equal(Curve.scale(sum, Curve.cofactor), Curve.zero);
+}
+
+/**
+ * Sign a message using EdDSA, as specified for Ed25519 in RFC 8032.
+ *
+ * The private key is the 32-byte secret seed, from which the secret scalar is derived.
+ */
+function signEddsa(
+  Curve: AffineTwistedCurve,
+  message: Uint8Array,
+  privateKey: Uint8Array
+): Eddsa.signature {
+  let { scalar, prefix } = expandPrivateKey(Curve, privateKey);
+  let A = Curve.scale(Curve.one, scalar);
+
+  let r = Curve.Scalar.mod(bytesToBigInt(sha512(concat(prefix, message))));
+  let R = Curve.scale(Curve.one, r);
+
+  let k = Curve.Scalar.mod(
+    bytesToBigInt(sha512(concat(Curve.encode(R), Curve.encode(A), message)))
+  );
+  let s = Curve.Scalar.add(r, Curve.Scalar.mul(k, scalar));
+  return { R, s };
+}
+
+/**
+ * Derive the public key from a 32-byte private key.
+ */
+function eddsaPublicKey(Curve: AffineTwistedCurve, privateKey: Uint8Array) {
+  let { scalar } = expandPrivateKey(Curve, privateKey);
+  return Curve.scale(Curve.one, scalar);
+}
+
+function expandPrivateKey(Curve: AffineTwistedCurve, privateKey: Uint8Array) {
+  assert(
+    privateKey.length === Curve.sizeInBytes,
+    `Eddsa: expected a private key of ${Curve.sizeInBytes} bytes, got ${privateKey.length}`
+  );
+  let h = sha512(privateKey);
+  let scalarBytes = h.slice(0, 32);
+
+  // clear the cofactor bits and set the highest bit, as in RFC 8032
+  scalarBytes[0] &= 248;
+  scalarBytes[31] &= 127;
+  scalarBytes[31] |= 64;
+
+  return { scalar: bytesToBigInt(scalarBytes), prefix: h.slice(32) };
+}
+
+/**
+ * Provable method to reduce a 64-byte SHA-512 output, read as little-endian integer, modulo the curve order.
+ *
+ * We split the hash into chunks of 31, 31 and 2 bytes, which are small enough to be multiplication inputs,
+ * and combine them as `c0 + c1*2^248 + c2*2^496` modulo the order.
+ */
+function hashToScalar(hash: UInt8[], Curve: AffineTwistedCurve): Field3 {
+  assert(hash.length === 64, `hash length ${hash.length} !== 64 not supported`);
+  let f = Curve.order;
+  assert(f >= 1n << 248n, 'hashToScalar(): curve order is too small');
+
+  let c0 = bytesToField3(hash.slice(0, 31));
+  let c1 = bytesToField3(hash.slice(31, 62));
+  let c2 = bytesToField3(hash.slice(62, 64));
+
+  let c1Shifted = ForeignField.mul(c1, Field3.from(mod(1n << 248n, f)), f);
+  let c2Shifted = ForeignField.mul(c2, Field3.from(mod(1n << 496n, f)), f);
+  let k = ForeignField.sum([c0, c1Shifted, c2Shifted], [1n, 1n], f);
+
+  // reduce to the canonical representative
+  k = ForeignField.mul(k, Field3.from(1n), f);
+  ForeignField.assertLessThan(k, f);
+  return k;
+}
+
+// type/conversion helpers
+
+const EddsaSignature = {
+  from({ R, s }: Eddsa.signature): Eddsa.Signature {
+    return { R: Point.from(R), s: Field3.from(s) };
+  },
+  toBigint({ R, s }: Eddsa.Signature): Eddsa.signature {
+    let { x, y } = Point.toBigint(R);
+    return { R: { x, y }, s: Field3.toBigint(s) };
+  },
+  isConstant: (S: Eddsa.Signature) =>
+    Provable.isConstant(EddsaSignature.provable, S),
+
+  /**
+   * Parse a 64-byte signature, consisting of the encoded point R and the little-endian scalar s.
+   */
+  fromBytes(
+    Curve: AffineTwistedCurve,
+    bytes: Uint8Array
+  ): Eddsa.signature | undefined {
+    let size = Curve.sizeInBytes;
+    if (bytes.length !== 2 * size) return undefined;
+    let R = Curve.decode(bytes.slice(0, size));
+    if (R === undefined) return undefined;
+    return { R, s: bytesToBigInt(bytes.slice(size)) };
+  },
+
+  /**
+   * Serialize a signature to 64 bytes.
+   */
+  toBytes(Curve: AffineTwistedCurve, { R, s }: Eddsa.signature) {
+    return concat(
+      Curve.encode(R),
+      Uint8Array.from(bigIntToBytes(s, Curve.sizeInBytes))
+    );
+  },
+
+  provable: provable({ R: Point.provable, s: Field3.provable }),
+};
+
+const Eddsa = {
+  sign: signEddsa,
+  verify: verifyEddsa,
+  publicKey: eddsaPublicKey,
+  Signature: EddsaSignature,
+};
+
+/**
+ * Given a point P, create the list of multiples [0, P, 2P, 3P, ..., (2^windowSize-1) * P].
+ * This method is provable, but won't create any constraints given a constant point.
+ */
+function getPointTable(
+  Curve: AffineTwistedCurve,
+  P: Point,
+  windowSize: number
+): Point[] {
+  assertPositiveInteger(windowSize, 'invalid window size');
+  let n = 1 << windowSize; // n >= 2
+
+  let table = [Point.from(Curve.zero), P];
+  if (n === 2) return table;
+
+  let Pi = double(P, Curve);
+  table.push(Pi);
+  for (let i = 3; i < n; i++) {
+    Pi = add(Pi, P, Curve);
+    table.push(Pi);
+  }
+  return table;
+}
+
+function mulByA(x: Field3, Curve: AffineTwistedCurve) {
+  let f = Curve.modulus;
+  if (Curve.a === 1n) return x;
+  if (Curve.a === f - 1n) return ForeignField.negate(x, f);
+  return ForeignField.mul(x, Field3.from(Curve.a), f);
+}
+
+function concat(...arrays: Uint8Array[]) {
+  return Uint8Array.from(arrays.flatMap((a) => [...a]));
+}
+
+// bigint twisted Edwards arithmetic
+
+type AffineTwistedCurve = ReturnType<typeof createAffineTwistedCurve>;
+
+/**
+ * Create twisted Edwards curve arithmetic on JS bigints.
+ */
+function createAffineTwistedCurve(params: TwistedCurveParams) {
+  const { name, modulus: p, order, cofactor, a, d, generator } = params;
+  const Field: FiniteField = createField(p);
+  const Scalar: FiniteField = createField(order);
+  const sizeInBytes = Math.ceil((Field.sizeInBits + 1) / 8);
+
+  const zero: point = { x: 0n, y: 1n };
+  const one: point = { x: generator.x, y: generator.y };
+
+  function add({ x: x1, y: y1 }: point, { x: x2, y: y2 }: point): point {
+    let x1x2 = Field.mul(x1, x2);
+    let y1y2 = Field.mul(y1, y2);
+    let t = Field.mul(d, Field.mul(x1x2, y1y2));
+    let x3 = div(
+      Field.add(Field.mul(x1, y2), Field.mul(y1, x2)),
+      Field.add(1n, t)
+    );
+    let y3 = div(Field.sub(y1y2, Field.mul(a, x1x2)), Field.sub(1n, t));
+    return { x: x3, y: y3 };
+  }
+
+  function div(x: bigint, y: bigint) {
+    let yInv = Field.inverse(y);
+    assert(
+      yInv !== undefined,
+      `${name}: division by zero, the point is not on the curve`
+    );
+    return Field.mul(x, yInv);
+  }
+
+  function equal(P: point, Q: point) {
+    return Field.equal(P.x, Q.x) && Field.equal(P.y, Q.y);
+  }
+
+  function scale(P: point, s: bigint): point {
+    let result = zero;
+    let multiple = P;
+    for (; s > 0n; s >>= 1n) {
+      if (s & 1n) result = add(result, multiple);
+      multiple = add(multiple, multiple);
+    }
+    return result;
+  }
+
+  return {
+    name,
+    modulus: p,
+    order,
+    cofactor,
+    a,
+    d,
+    Field,
+    Scalar,
+    sizeInBytes,
+    zero,
+    one,
+
+    add,
+    double(P: point) {
+      return add(P, P);
+    },
+    negate({ x, y }: point): point {
+      return { x: Field.negate(x), y };
+    },
+    scale,
+    equal,
+    isOnCurve({ x, y }: point) {
+      let x2 = Field.square(x);
+      let y2 = Field.square(y);
+      let lhs = Field.add(Field.mul(a, x2), y2);
+      let rhs = Field.add(1n, Field.mul(d, Field.mul(x2, y2)));
+      return Field.equal(lhs, rhs);
+    },
+    isInSubgroup(P: point) {
+      return equal(scale(P, order), zero);
+    },
+
+    /**
+     * Encode a point as in RFC 8032, as little-endian y coordinate with the sign of x in the highest bit.
+     */
+    encode({ x, y }: point) {
+      let bytes = bigIntToBytes(y, sizeInBytes);
+      bytes[sizeInBytes - 1] |= Number(x & 1n) << 7;
+      return Uint8Array.from(bytes);
+    },
+
+    /**
+     * Decode a point from its RFC 8032 encoding, or return `undefined` if the encoding is invalid.
+     */
+    decode(bytes: Uint8Array): point | undefined {
+      if (bytes.length !== sizeInBytes) return undefined;
+      let yBytes = Uint8Array.from(bytes);
+      let sign = BigInt(yBytes[sizeInBytes - 1] >> 7);
+      yBytes[sizeInBytes - 1] &= 0x7f;
+      let y = bytesToBigInt(yBytes);
+      if (y >= p) return undefined;
+
+      // x^2 = (y^2 - 1) / (d*y^2 - a)
+      let y2 = Field.square(y);
+      let denom = Field.inverse(Field.sub(Field.mul(d, y2), a));
+      if (denom === undefined) return undefined;
+      let x = Field.sqrt(Field.mul(Field.sub(y2, 1n), denom));
+      if (x === undefined) return undefined;
+      if (x === 0n && sign === 1n) return undefined;
+      if ((x & 1n) !== sign) x = Field.negate(x);
+      return { x, y };
+    },
+  };
+}
@@ -0,0 +1,211 @@
+import { Bip340Signature, verifyBip340Constant } from '../crypto/bip340.js';
+import { Bytes } from '../wrapped-classes.js';
+import { Field3 } from '../gadgets/foreign-field.js';
+import { Provable } from '../provable.js';
+import { expect } from 'expect';
+
+const Curve = Bip340Signature.Curve.Bigint;
+
+// test vectors from BIP-340
+
+for (let {
+  privateKey,
+  publicKey,
+  auxRand,
+  message,
+  signature,
+} of testVectors()) {
+  let sk = BigInt(`0x${privateKey}`);
+  let msg = Bytes.fromHex(message).toBytes();
+  let aux = Bytes.fromHex(auxRand).toBytes();
+
+  let pk = Bip340Signature.publicKey(sk);
+  expect(pk.toBigInt()).toEqual(BigInt(`0x${publicKey}`));
+
+  let sig = Bip340Signature.sign(msg, sk, aux);
+  expect(sig.toHex()).toEqual(signature.toLowerCase());
+  expect(Bip340Signature.fromHex(signature).toBigInt()).toEqual(sig.toBigInt());
+
+  expect(
+    verifyBip340Constant(Curve, sig.toBigInt(), msg, pk.toBigInt())
+  ).toEqual(true);
+  expect(
+    verifyBip340Constant(
+      Curve,
+      sig.toBigInt(),
+      Uint8Array.from([1]),
+      pk.toBigInt()
+    )
+  ).toEqual(false);
+
+  // constant inputs use the bigint implementation
+  expect(sig.verify(msg, pk).toBoolean()).toEqual(true);
+}
+
+// random keys and nonces
+
+let sk = Bip340Signature.Curve.Scalar.random().toBigInt();
+let randomMessage = Bytes.fromString('hello bip340').toBytes();
+let randomSignature = Bip340Signature.sign(randomMessage, sk);
+expect(
+  verifyBip340Constant(
+    Curve,
+    randomSignature.toBigInt(),
+    randomMessage,
+    Bip340Signature.publicKey(sk).toBigInt()
+  )
+).toEqual(true);
+
+// negative test vectors from BIP-340
+
+for (let { publicKey, message, signature } of invalidTestVectors()) {
+  let r = BigInt(`0x${signature.slice(0, 64)}`);
+  let s = BigInt(`0x${signature.slice(64)}`);
+  expect(
+    verifyBip340Constant(
+      Curve,
+      { r, s },
+      Bytes.fromHex(message).toBytes(),
+      BigInt(`0x${publicKey}`)
+    )
+  ).toEqual(false);
+}
+
+// out-of-range values are rejected instead of being reduced
+let [notOnCurve, oddY, rEqualsP, sEqualsN] = invalidTestVectors();
+expect(() => Bip340Signature.fromHex(rEqualsP.signature)).toThrow(
+  /r is not smaller than the field size/
+);
+expect(() => Bip340Signature.fromHex(sEqualsN.signature)).toThrow(
+  /s is not smaller than the curve order/
+);
+
+// test provable verification
+
+let [, { privateKey, message, signature }] = testVectors();
+let publicKey = Bip340Signature.publicKey(BigInt(`0x${privateKey}`));
+let Message = Bytes(message.length / 2);
+
+function main(message: Bytes) {
+  let pk = Provable.witness(
+    Bip340Signature.PublicKey.provable,
+    () => publicKey
+  );
+  let msg = Provable.witness(Message.provable, () => message);
+  let sig = Provable.witness(Bip340Signature.provable, () =>
+    Bip340Signature.fromHex(signature)
+  );
+  return sig.verify(msg, pk);
+}
+
+await Provable.runAndCheck(() => {
+  main(Message.fromHex(message)).assertTrue('signature verifies');
+});
+await Provable.runAndCheck(() => {
+  main(Message.fromHex('00'.repeat(32))).assertFalse(
+    'signature does not verify'
+  );
+});
+
+// negative test vectors in provable code
+
+function verifyInvalid({
+  publicKey,
+  message,
+  signature,
+}: ReturnType<typeof invalidTestVectors>[number]) {
+  let pk = Provable.witness(
+    Bip340Signature.PublicKey.provable,
+    () => new Bip340Signature.PublicKey(BigInt(`0x${publicKey}`))
+  );
+  let msg = Provable.witness(Message.provable, () => Message.fromHex(message));
+  // passing r and s as Field3 skips the range checks of the constructor, like a malicious prover would
+  let sig = Provable.witness(
+    Bip340Signature.provable,
+    () =>
+      new Bip340Signature({
+        r: Field3.from(BigInt(`0x${signature.slice(0, 64)}`)),
+        s: Field3.from(BigInt(`0x${signature.slice(64)}`)),
+      })
+  );
+  return sig.verify(msg, pk);
+}
+
+await Provable.runAndCheck(() => {
+  verifyInvalid(oddY).assertFalse('R.y is odd');
+});
+for (let vector of [notOnCurve, rEqualsP, sEqualsN]) {
+  await expect(
+    Provable.runAndCheck(() => {
+      verifyInvalid(vector);
+    })
+  ).rejects.toThrow();
+}
+
+function testVectors() {
+  return [
+    {
+      privateKey:
+        '0000000000000000000000000000000000000000000000000000000000000003',
+      publicKey:
+        'F9308A019258C31049344F85F89D5229B531C845836F99B08601F113BCE036F9',
+      auxRand:
+        '0000000000000000000000000000000000000000000000000000000000000000',
+      message:
+        '0000000000000000000000000000000000000000000000000000000000000000',
+      signature:
+        'E907831F80848D1069A5371B402410364BDF1C5F8307B0084C55F1CE2DCA821525F66A4A85EA8B71E482A74F382D2CE5EBEEE8FDB2172F477DF4900D310536C0',
+    },
+    {
+      privateKey:
+        'B7E151628AED2A6ABF7158809CF4F3C762E7160F38B4DA56A784D9045190CFEF',
+      publicKey:
+        'DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659',
+      auxRand:
+        '0000000000000000000000000000000000000000000000000000000000000001',
+      message:
+        '243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89',
+      signature:
+        '6896BD60EEAE296DB48A229FF71DFE071BDE413E6D43F917DC8DCF8C78DE33418906D11AC976ABCCB20B091292BFF4EA897EFCB639EA871CFA95F6DE339E4B0A',
+    },
+  ];
+}
+
+function invalidTestVectors() {
+  let message =
+    '243F6A8885A308D313198A2E03707344A4093822299F31D0082EFA98EC4E6C89';
+  return [
+    {
+      comment: 'public key not on the curve',
+      publicKey:
+        'EEFDEA4CDB677750A420FEE807EACF21EB9898AE79B9768766E4FAA04A2D4A34',
+      message,
+      signature:
+        '6CFF5C3BA86C69EA4B7376F31A9BCB4F74C1976089B2D9963DA2E5543E17776969E89B4C5564D00349106B8497785DD7D1D713A8AE82B32FA79D5F7FC407D39B',
+    },
+    {
+      comment: 'has_even_y(R) is false',
+      publicKey:
+        'DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659',
+      message,
+      signature:
+        'FFF97BD5755EEEA420453A14355235D382F6472F8568A18B2F057A14602975563CC27944640AC607CD107AE10923D9EF7A73C643E166BE5EBEAFA34B1AC553E2',
+    },
+    {
+      comment: 'sig[0:32] is equal to field size',
+      publicKey:
+        'DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659',
+      message,
+      signature:
+        'FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEFFFFFC2F69E89B4C5564D00349106B8497785DD7D1D713A8AE82B32FA79D5F7FC407D39B',
+    },
+    {
+      comment: 'sig[32:64] is equal to curve order',
+      publicKey:
+        'DFF1D77F2A671C5F36183726DB2341BE58FEAE1DA2DECED843240F7B502BA659',
+      message,
+      signature:
+        '6CFF5C3BA86C69EA4B7376F31A9BCB4F74C1976089B2D9963DA2E5543E177769FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141',
+    },
+  ];
+}
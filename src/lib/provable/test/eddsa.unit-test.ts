@@ -0,0 +1,182 @@
+import {
+  array,
+  equivalentProvable,
+  map,
+  spec,
+  unit,
+} from '../../testing/equivalent.js';
+import { Random } from '../../testing/random.js';
+import { Point } from '../gadgets/elliptic-curve.js';
+import {
+  Eddsa,
+  TwistedCurve,
+  TwistedCurveParams,
+  createAffineTwistedCurve,
+  verifyEddsaConstant,
+} from '../gadgets/twisted-curve.js';
+import { Ed25519 } from '../crypto/foreign-eddsa.js';
+import { Bytes } from '../wrapped-classes.js';
+import { UInt8 } from '../int.js';
+import { Provable } from '../provable.js';
+import { foreignField, throwError } from './test-utils.js';
+import { expect } from 'expect';
+
+const Curve = createAffineTwistedCurve(TwistedCurveParams.Ed25519);
+
+// prepare test inputs
+let scalar = foreignField(Curve.Scalar);
+
+let anyPoint = spec({
+  rng: Random.constant(Curve.zero),
+  there: Point.from,
+  back: (p: Point) => {
+    let { x, y } = Point.toBigint(p);
+    return { x, y };
+  },
+  provable: Point.provable,
+});
+
+// valid random point
+let point = map({ from: scalar, to: anyPoint }, (s) =>
+  Curve.scale(Curve.one, s)
+);
+
+let encoded = spec({
+  rng: Random.constant(new Uint8Array(32)),
+  there: (bytes: Uint8Array) => [...bytes].map(UInt8.from),
+  back: (bytes: UInt8[]) => Uint8Array.from(bytes.map((b) => b.toNumber())),
+  provable: Provable.Array(UInt8, 32),
+});
+
+// test twisted curve gadgets
+
+equivalentProvable({ from: [array(point, 2)], to: point, verbose: true })(
+  ([p, q]) => Curve.add(p, q),
+  ([p, q]) => TwistedCurve.add(p, q, Curve),
+  'ed25519 add'
+);
+
+// addition is complete, so it also works on equal points and the zero point
+equivalentProvable({ from: [point], to: point, verbose: true })(
+  (p) => Curve.add(p, Curve.add(p, Curve.zero)),
+  (p) =>
+    TwistedCurve.add(
+      p,
+      TwistedCurve.add(p, Point.from(Curve.zero), Curve),
+      Curve
+    ),
+  'ed25519 add equal'
+);
+
+equivalentProvable({ from: [point], to: point, verbose: true })(
+  Curve.double,
+  (p) => TwistedCurve.double(p, Curve),
+  'ed25519 double'
+);
+
+equivalentProvable({ from: [point], to: unit, verbose: true })(
+  (p) => Curve.isOnCurve(p) || throwError('expect on curve'),
+  (p) => TwistedCurve.assertOnCurve(p, Curve),
+  'ed25519 on curve'
+);
+
+equivalentProvable({ from: [point, scalar], to: point, verbose: true })(
+  (p, s) => Curve.scale(p, s),
+  (p, s) => TwistedCurve.scale(s, p, Curve),
+  'ed25519 scale'
+);
+
+equivalentProvable({ from: [point], to: encoded, verbose: true })(
+  (p) => Curve.encode(p),
+  (p) => TwistedCurve.encode(p, Curve),
+  'ed25519 encode'
+);
+
+equivalentProvable({
+  from: [map({ from: point, to: encoded }, Curve.encode)],
+  to: point,
+  verbose: true,
+})(
+  (bytes) => Curve.decode(bytes) ?? throwError('expect valid encoding'),
+  (bytes) => TwistedCurve.decode(bytes, Curve),
+  'ed25519 decode'
+);
+
+// test vectors from RFC 8032, section 7.1
+
+for (let { privateKey, publicKey, message, signature } of testVectors()) {
+  let sk = Bytes.fromHex(privateKey).toBytes();
+  let msg = Bytes.fromHex(message).toBytes();
+
+  let pk = Ed25519.publicKey(sk);
+  expect(pk.toBytes().toHex()).toEqual(publicKey);
+
+  let sig = Ed25519.sign(msg, sk);
+  expect(Bytes.from(sig.toBytes()).toHex()).toEqual(signature);
+  expect(Ed25519.fromHex(signature).toBigInt()).toEqual(sig.toBigInt());
+
+  let { R, s } = sig.toBigInt();
+  expect(verifyEddsaConstant(Curve, { R, s }, msg, pk.toBigint())).toEqual(
+    true
+  );
+  expect(
+    verifyEddsaConstant(Curve, { R, s }, Uint8Array.from([1]), pk.toBigint())
+  ).toEqual(false);
+
+  // the malleated scalar s + L is rejected, see RFC 8032, section 5.1.7
+  let malleated = { R, s: s + Curve.order };
+  expect(verifyEddsaConstant(Curve, malleated, msg, pk.toBigint())).toEqual(
+    false
+  );
+  expect(() =>
+    Ed25519.fromBytes(Eddsa.Signature.toBytes(Curve, malleated))
+  ).toThrow(/not smaller than the curve order/);
+  expect(() => Ed25519.from(malleated)).toThrow(
+    /not smaller than the curve order/
+  );
+}
+
+// test provable verification
+
+let [{ privateKey, message, signature }] = testVectors().slice(1);
+let publicKey = Ed25519.publicKey(Bytes.fromHex(privateKey).toBytes());
+let Message = Bytes(message.length / 2);
+
+function main(message: Bytes) {
+  let pk = Provable.witness(Ed25519.Curve.provable, () => publicKey);
+  let msg = Provable.witness(Message.provable, () => message);
+  let sig = Provable.witness(Ed25519.provable, () =>
+    Ed25519.fromHex(signature)
+  );
+  return sig.verify(msg, pk);
+}
+
+await Provable.runAndCheck(() => {
+  main(Message.fromHex(message)).assertTrue('signature verifies');
+});
+await Provable.runAndCheck(() => {
+  main(Message.fromHex('73')).assertFalse('signature does not verify');
+});
+
+function testVectors() {
+  return [
+    {
+      privateKey:
+        '9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60',
+      publicKey:
+        'd75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a',
+      message: '',
+      signature:
+        'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b',
+    },
+    {
+      privateKey:
+        '4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb',
+      publicKey:
+        '3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c',
+      message: '72',
+      signature:
+        '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00',
+    },
+  ];
+}
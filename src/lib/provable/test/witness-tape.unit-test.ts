@@ -0,0 +1,59 @@
+import { it } from 'node:test';
+import { Provable } from '../provable.js';
+import { Field } from '../wrapped.js';
+import { expect } from 'expect';
+import { exists } from '../core/exists.js';
+import { snarkContext } from '../core/provable-context.js';
+import { WitnessTape } from '../core/witness-tape.js';
+
+let calls = 0;
+
+function circuit() {
+  let x = Provable.witness(Field, () => {
+    calls++;
+    return Field(5);
+  });
+  let [y, z] = exists(2, () => {
+    calls++;
+    return [1n, 2n];
+  });
+  x.add(y).add(z).assertEquals(8);
+}
+
+function runWithTape(tape: WitnessTape) {
+  return Provable.runAndCheck(() => {
+    let id = snarkContext.enter({ ...snarkContext.get(), witnessTape: tape });
+    try {
+      circuit();
+    } finally {
+      snarkContext.leave(id);
+    }
+  });
+}
+
+await it('records witnesses and replays them without running callbacks', async () => {
+  let tape = WitnessTape.record();
+  await runWithTape(tape);
+  expect(calls).toEqual(2);
+  // the tape also records the internal witnesses which `assertEquals()` creates for the sums x + y and x + y + z
+  expect(tape.entries.map((e) => e.values)).toEqual([
+    [5n],
+    [1n, 2n],
+    [3n],
+    [8n],
+  ]);
+
+  await runWithTape(WitnessTape.replay(tape.entries));
+  expect(calls).toEqual(2);
+
+  // callbacks run again when the tape runs out
+  await runWithTape(WitnessTape.replay(tape.entries.slice(0, 1)));
+  expect(calls).toEqual(3);
+});
+
+await it('fails when the replayed tape belongs to another circuit', async () => {
+  let entries = [{ values: [1n, 2n] }, { values: [5n] }];
+  await expect(runWithTape(WitnessTape.replay(entries))).rejects.toThrow(
+    /Witness replay: expected 1 values/
+  );
+});
@@ -6,6 +6,7 @@ import {
   snarkContext,
 } from '../core/provable-context.js';
 import { exists, existsAsync } from '../core/exists.js';
+import { tapeAuxiliary } from '../core/witness-tape.js';
 import { From } from '../../../bindings/lib/provable-generic.js';
 import { TupleN } from '../../util/types.js';
 import { createField } from '../core/field-constructor.js';
@@ -38,7 +39,8 @@ function witness<A extends Provable<any, any>, T extends From<A> = From<A>>(
   }
 
   // rebuild the value from its fields (which are now variables) and aux data
-  let aux = type.toAuxiliary(proverValue);
+  // (when replaying witnesses, `proverValue` isn't computed and the recorded aux data is used)
+  let aux = tapeAuxiliary(() => type.toAuxiliary(proverValue));
   let value = (type as Provable<S>).fromFields(fields, aux);
 
   // add type-specific constraints
@@ -74,7 +76,8 @@ async function witnessAsync<
   }
 
   // rebuild the value from its fields (which are now variables) and aux data
-  let aux = type.toAuxiliary(proverValue);
+  // (when replaying witnesses, `proverValue` isn't computed and the recorded aux data is used)
+  let aux = tapeAuxiliary(() => type.toAuxiliary(proverValue));
   let value = (type as Provable<T>).fromFields(fields, aux);
 
   // add type-specific constraints
@@ -1,5 +1,5 @@
 import cachedir from 'cachedir';
 
-export { writeFileSync, readFileSync, mkdirSync } from 'node:fs';
+export { writeFileSync, readFileSync, mkdirSync, utimesSync } from 'node:fs';
 export { resolve } from 'node:path';
 export { cachedir as cacheDir };
@@ -3,6 +3,7 @@ export {
   dummy as readFileSync,
   dummy as resolve,
   dummy as mkdirSync,
+  dummy as utimesSync,
   cacheDir,
 };
 
@@ -0,0 +1,15 @@
+/**
+ * Verification-only entry point, for services that verify proofs but never create them.
+ *
+ * ```ts
+ * import { verify, verifyBatch } from 'o1js/verifier';
+ * ```
+ *
+ * In contrast to the main entry point, this only loads the bindings and the code needed to deserialize proofs.
+ * It doesn't include `ZkProgram`, `SmartContract`, compilation, prover keys or the Mina transaction layer,
+ * so proofs and verification keys have to be passed in their serialized form:
+ * - proofs as `JsonProof`, created with `proof.toJSON()`
+ * - verification keys as a string, like `verificationKey.data` returned by `compile()`
+ */
+export type { JsonProof } from './lib/proof-system/zkprogram.js';
+export { verify, verifyBatch } from './lib/proof-system/verifier.js';